@@ -1,8 +1,18 @@
-import React, { useState } from 'react';
-import { KEY_METRICS } from './constants';
-import { Section } from './types';
+import React, { useEffect, useRef, useState } from 'react';
+import { DEFAULT_SIMULATION_SETTINGS, KEY_METRICS } from './constants';
+import { factValue, formatFactValue, getFact } from './paperFacts';
+import { PaperFact, Section, SimulationSettings } from './types';
+import { TrapDepthMap } from './services/trapDepth';
+import { AppControls } from './services/assistantTools';
+import { readPresetFromUrl } from './services/pulsePresets';
+import { DEFAULT_SEED_STATE, SeedState, chartSeed, readSeedsFromUrl, writeSeedParams } from './services/random';
+import { RBParameterPanel } from './components/RBParameterPanel';
 import { ArraySimulation, CoherenceChart, LifetimeChart, TransportSimulation, RBChart, ImagingAnalysis } from './components/Visualizations';
 import { PulseControl } from './components/PulseControl';
+import { HologramSection } from './components/HologramSection';
+import { TrapUniformityPanel } from './components/TrapUniformityPanel';
+import { DataImportPanel, ImportedDatasets } from './components/DataImport';
+import { ChartSeed, GlobalSeedBar } from './components/SeedControl';
 import { GeminiChat } from './components/GeminiChat';
 import { 
   Atom, 
@@ -13,11 +23,101 @@ import {
   ExternalLink,
   ChevronRight,
   Target,
-  Settings2
+  Settings2,
+  ArrowLeft,
+  Aperture,
+  Gauge
 } from 'lucide-react';
 
+// Shared pulse-preset links open straight on Pulse Control with the linked error settings
+const urlPreset = readPresetFromUrl();
+const urlSeeds = readSeedsFromUrl();
+
+const HIGHLIGHT_CLASSES = ['ring-2', 'ring-indigo-500', 'rounded-xl'];
+
 const App: React.FC = () => {
-  const [activeSection, setActiveSection] = useState<Section>(Section.HERO);
+  const [activeSection, setActiveSection] = useState<Section>(urlPreset ? Section.CONTROL : Section.HERO);
+  const [pendingAnchor, setPendingAnchor] = useState<string | null>(null);
+  const [settings, setSettings] = useState<SimulationSettings>({ ...DEFAULT_SIMULATION_SETTINGS, ...urlPreset?.errors });
+  const [assistantNavigated, setAssistantNavigated] = useState(false);
+  const [importedData, setImportedData] = useState<ImportedDatasets>({});
+  const [seeds, setSeeds] = useState<SeedState>(urlSeeds ?? DEFAULT_SEED_STATE);
+  // The array view's target pattern, which the hologram section can compute traps for
+  const [arrayTarget, setArrayTarget] = useState<boolean[] | null>(null);
+  const [hologramDepths, setHologramDepths] = useState<TrapDepthMap | null>(null);
+
+  const updateSettings = (patch: Partial<SimulationSettings>) => {
+    setSettings(prev => ({ ...prev, ...patch }));
+  };
+
+  // Keep the seeds in the address bar so a copied URL reproduces every figure
+  useEffect(() => {
+    const params = writeSeedParams(new URLSearchParams(window.location.search), seeds);
+    window.history.replaceState(null, '', `${window.location.pathname}?${params}${window.location.hash}`);
+  }, [seeds]);
+
+  const seedFor = (chart: string): ChartSeed => ({
+    value: chartSeed(seeds, chart),
+    overridden: chart in seeds.overrides,
+    onChange: (seed) => setSeeds(prev => {
+      const { [chart]: _, ...overrides } = prev.overrides;
+      return { ...prev, overrides: seed === null ? overrides : { ...overrides, [chart]: seed } };
+    }),
+  });
+
+  // Tool calls run inside a long-lived stream, so they read the latest state through a ref
+  const stateRef = useRef({ section: activeSection, settings });
+  stateRef.current = { section: activeSection, settings };
+
+  const assistantControls = useRef<AppControls>({
+    getState: () => stateRef.current,
+    navigate: (section) => {
+      setActiveSection(section);
+      setAssistantNavigated(section !== Section.CHAT);
+    },
+    updateSettings,
+  }).current;
+
+  const navigate = (section: Section) => {
+    setActiveSection(section);
+    setAssistantNavigated(false);
+  };
+
+  // Citation chips in the assistant jump to the chart or section that shows the cited fact
+  const navigateToFact = (fact: PaperFact) => {
+    setActiveSection(fact.target.section);
+    setAssistantNavigated(true);
+    setPendingAnchor(fact.target.anchor ?? null);
+    if (!fact.target.anchor) window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // The highlight outlives the effect below, which re-runs as soon as it clears the anchor, so its
+  // timer is only cancelled by the next jump or on unmount
+  const highlightRef = useRef<{ el: HTMLElement; timer: ReturnType<typeof setTimeout> } | null>(null);
+  const clearHighlight = () => {
+    const highlight = highlightRef.current;
+    if (!highlight) return;
+    clearTimeout(highlight.timer);
+    highlight.el.classList.remove(...HIGHLIGHT_CLASSES);
+    highlightRef.current = null;
+  };
+
+  useEffect(() => clearHighlight, []);
+
+  useEffect(() => {
+    if (!pendingAnchor) return;
+    const el = document.getElementById(pendingAnchor);
+    setPendingAnchor(null);
+    if (!el) return;
+    clearHighlight();
+    el.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    el.classList.add(...HIGHLIGHT_CLASSES);
+    highlightRef.current = { el, timer: setTimeout(clearHighlight, 2000) };
+  }, [pendingAnchor, activeSection]);
+
+  const imagingSurvival = getFact('imaging-survival');
+  // Truncated rather than rounded, so the headline never claims more than the measured 99.98952%
+  const headlineSurvival = (Math.floor(factValue('imaging-survival') * 100) / 100).toFixed(2);
 
   const renderContent = () => {
     switch (activeSection) {
@@ -42,13 +142,13 @@ const App: React.FC = () => {
               </p>
               <div className="flex justify-center gap-4 pt-4">
                 <button 
-                  onClick={() => setActiveSection(Section.DATA)}
+                  onClick={() => navigate(Section.DATA)}
                   className="px-6 py-3 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg font-medium transition-all flex items-center gap-2"
                 >
                   Explore Data <ChevronRight className="w-4 h-4" />
                 </button>
                 <button 
-                   onClick={() => setActiveSection(Section.CHAT)}
+                   onClick={() => navigate(Section.CHAT)}
                    className="px-6 py-3 bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-200 rounded-lg font-medium transition-all flex items-center gap-2"
                 >
                   Ask AI Assistant <MessageSquare className="w-4 h-4" />
@@ -68,11 +168,11 @@ const App: React.FC = () => {
             </div>
 
             {/* Array Sim Preview */}
-            <div className="w-full">
+            <div id="array-simulation" className="w-full">
                <h3 className="text-xl font-semibold text-slate-200 mb-4 flex items-center gap-2">
                  <Target className="w-5 h-5 text-indigo-400"/> Array Visualization
                </h3>
-               <ArraySimulation />
+               <ArraySimulation seed={seedFor('array')} onTargetChange={setArrayTarget} />
             </div>
           </div>
         );
@@ -85,30 +185,47 @@ const App: React.FC = () => {
                 <h2 className="text-3xl font-bold text-slate-100">Performance Metrics</h2>
                 <p className="text-slate-400 mt-2">Key experimental characterizations including Randomized Benchmarking, Coherence, and Lifetime.</p>
               </div>
+              <GlobalSeedBar seeds={seeds} onChange={setSeeds} />
             </div>
             
+            <div id="data-import">
+              <DataImportPanel imports={importedData} onChange={setImportedData} />
+            </div>
+
             {/* Randomized Benchmarking Section */}
-            <RBChart />
+            <div id="rb-parameters">
+              <RBParameterPanel parameters={settings} onChange={updateSettings} />
+            </div>
+            <div id="rb-chart">
+              <RBChart
+                mode={settings.rbMode}
+                onModeChange={(rbMode) => updateSettings({ rbMode })}
+                parameters={settings}
+                seed={seedFor('rb')}
+                importedStandard={importedData['rb-standard']}
+                importedInterleaved={importedData['rb-interleaved']}
+              />
+            </div>
 
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-              <CoherenceChart />
-              <LifetimeChart />
+              <div id="coherence-chart"><CoherenceChart seed={seedFor('coherence')} imported={importedData.coherence} /></div>
+              <div id="lifetime-chart"><LifetimeChart seed={seedFor('lifetime')} imported={importedData.lifetime} /></div>
             </div>
 
             {/* Imaging Analysis Section - NEW */}
-            <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            <div id="imaging-analysis" className="grid grid-cols-1 lg:grid-cols-3 gap-8">
                 <div className="lg:col-span-2">
-                    <ImagingAnalysis />
+                    <ImagingAnalysis seed={seedFor('imaging')} />
                 </div>
                 <div className="h-full bg-slate-800/50 p-6 rounded-xl border border-slate-700 flex flex-col justify-center">
                     <h3 className="text-lg font-semibold text-slate-200 mb-4">Imaging Survival</h3>
                     <div className="flex items-baseline gap-2">
-                        <span className="text-5xl font-bold text-indigo-400">99.98%</span>
+                        <span className="text-5xl font-bold text-indigo-400">{headlineSurvival}%</span>
                         <span className="text-slate-400">survival probability</span>
                     </div>
                     <p className="text-sm text-slate-400 mt-4 leading-relaxed">
-                    The system achieves a steady-state imaging survival probability of 99.98952(1)%, 
-                    mostly limited by the 22.9(1)-min vacuum lifetime.
+                    The system achieves a steady-state imaging survival probability of {formatFactValue(imagingSurvival)},
+                    mostly limited by the {formatFactValue(getFact('lifetime'))} vacuum lifetime.
                     </p>
                     <div className="w-full bg-slate-700 h-2 rounded-full mt-6 overflow-hidden">
                         <div className="bg-indigo-500 h-full w-[99.98%]"></div>
@@ -129,7 +246,9 @@ const App: React.FC = () => {
                     </p>
                  </div>
                  
-                 <TransportSimulation />
+                 <div id="transport-simulation">
+                   <TransportSimulation />
+                 </div>
                  
                  <div className="grid grid-cols-1 md:grid-cols-3 gap-6 pt-4">
                     <div className="p-5 border border-slate-700 rounded-xl bg-slate-800/30 hover:bg-slate-800/50 transition-colors">
@@ -137,7 +256,7 @@ const App: React.FC = () => {
                              <Move className="w-5 h-5 text-indigo-400" />
                         </div>
                         <h4 className="text-indigo-400 font-semibold mb-2">Long Distance</h4>
-                        <p className="text-2xl text-slate-100 font-bold">610 μm</p>
+                        <p className="text-2xl text-slate-100 font-bold">{formatFactValue(getFact('transport-distance'))}</p>
                         <p className="text-xs text-slate-400 mt-2 leading-snug">
                             Diagonal transport range demonstrated, covering significant array distance.
                         </p>
@@ -147,7 +266,7 @@ const App: React.FC = () => {
                              <Activity className="w-5 h-5 text-green-400" />
                         </div>
                         <h4 className="text-green-400 font-semibold mb-2">High Fidelity</h4>
-                        <p className="text-2xl text-slate-100 font-bold">&gt;99.95%</p>
+                        <p className="text-2xl text-slate-100 font-bold">{formatFactValue(getFact('transport-fidelity'))}</p>
                         <p className="text-xs text-slate-400 mt-2 leading-snug">
                             Atoms retain their quantum state (phase & population) during movement.
                         </p>
@@ -166,20 +285,38 @@ const App: React.FC = () => {
              </div>
          );
 
-      case Section.CONTROL:
+      case Section.HOLOGRAM:
         return (
-          <PulseControl />
+          <div className="space-y-8 animate-in slide-in-from-bottom-4 duration-500">
+            <div>
+              <h2 className="text-3xl font-bold text-slate-100">SLM Holograms</h2>
+              <p className="text-slate-400 mt-2 max-w-3xl leading-relaxed">
+                {getFact('slm-wgs').statement} Each WGS iteration propagates the SLM field to the focal plane with an FFT,
+                boosts the traps that came out dim, and keeps only the phase on the way back until every trap is equally bright.
+              </p>
+            </div>
+            <div id="hologram-wgs">
+              <HologramSection arrayTarget={arrayTarget} seed={seedFor('hologram')} onDepthsChange={setHologramDepths} />
+            </div>
+            <div id="trap-uniformity">
+              <h3 className="text-xl font-semibold text-slate-200 mb-4 flex items-center gap-2">
+                <Gauge className="w-5 h-5 text-indigo-400"/> Trap Uniformity
+              </h3>
+              <TrapUniformityPanel hologramDepths={hologramDepths} seed={seedFor('array')} />
+            </div>
+          </div>
         );
 
-      case Section.CHAT:
+      case Section.CONTROL:
         return (
-            <div className="flex flex-col items-center animate-in slide-in-from-bottom-4 duration-500 h-full">
-                <div className="mb-6 text-center">
-                    <h2 className="text-3xl font-bold text-slate-100">Ask the Paper</h2>
-                    <p className="text-slate-400 mt-2">Powered by Gemini 2.5 Flash</p>
-                </div>
-                <GeminiChat />
-            </div>
+          <PulseControl
+            errors={{
+              pulseErrorRate: settings.pulseErrorRate,
+              pulseDetuning: settings.pulseDetuning,
+              pulsePhaseError: settings.pulsePhaseError,
+            }}
+            onErrorsChange={updateSettings}
+          />
         );
 
       default:
@@ -201,32 +338,38 @@ const App: React.FC = () => {
         <div className="flex-1 px-3 space-y-2 mt-4">
           <NavItem 
             active={activeSection === Section.HERO} 
-            onClick={() => setActiveSection(Section.HERO)}
+            onClick={() => navigate(Section.HERO)}
             icon={<Cpu className="w-5 h-5"/>} 
             label="Overview" 
           />
           <NavItem 
             active={activeSection === Section.DATA} 
-            onClick={() => setActiveSection(Section.DATA)}
+            onClick={() => navigate(Section.DATA)}
             icon={<Activity className="w-5 h-5"/>} 
             label="Data & Metrics" 
           />
           <NavItem 
             active={activeSection === Section.TRANSPORT} 
-            onClick={() => setActiveSection(Section.TRANSPORT)}
+            onClick={() => navigate(Section.TRANSPORT)}
             icon={<Move className="w-5 h-5"/>} 
             label="Transport" 
           />
           <NavItem 
             active={activeSection === Section.CONTROL} 
-            onClick={() => setActiveSection(Section.CONTROL)}
+            onClick={() => navigate(Section.CONTROL)}
             icon={<Settings2 className="w-5 h-5"/>} 
             label="Pulse Control" 
+          />
+          <NavItem 
+            active={activeSection === Section.HOLOGRAM} 
+            onClick={() => navigate(Section.HOLOGRAM)}
+            icon={<Aperture className="w-5 h-5"/>} 
+            label="SLM Holograms" 
           />
            <div className="my-4 border-t border-slate-800 mx-2"></div>
            <NavItem 
             active={activeSection === Section.CHAT} 
-            onClick={() => setActiveSection(Section.CHAT)}
+            onClick={() => navigate(Section.CHAT)}
             icon={<MessageSquare className="w-5 h-5"/>} 
             label="AI Assistant" 
             special
@@ -248,8 +391,26 @@ const App: React.FC = () => {
       <main className="flex-1 overflow-x-hidden">
         <div className="max-w-7xl mx-auto p-6 lg:p-12">
           {renderContent()}
+
+          {/* The assistant stays mounted so a reply (or a tool call that switches sections) keeps streaming */}
+          <div className={`flex flex-col items-center animate-in slide-in-from-bottom-4 duration-500 h-full ${activeSection === Section.CHAT ? '' : 'hidden'}`}>
+              <div className="mb-6 text-center">
+                  <h2 className="text-3xl font-bold text-slate-100">Ask the Paper</h2>
+                  <p className="text-slate-400 mt-2">Gemini, a local OpenAI-compatible model, or offline canned answers</p>
+              </div>
+              <GeminiChat onCiteFact={navigateToFact} controls={assistantControls} />
+          </div>
         </div>
       </main>
+
+      {assistantNavigated && activeSection !== Section.CHAT && (
+        <button
+          onClick={() => navigate(Section.CHAT)}
+          className="fixed bottom-6 right-6 z-30 px-4 py-2.5 bg-indigo-600 hover:bg-indigo-500 text-white rounded-full shadow-lg shadow-indigo-500/20 text-sm font-medium flex items-center gap-2 transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" /> Back to AI Assistant
+        </button>
+      )}
     </div>
   );
 };
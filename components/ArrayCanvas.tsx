@@ -0,0 +1,389 @@
+import React, { useEffect, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { Maximize2, ZoomIn, ZoomOut } from 'lucide-react';
+import { ArrayGrid, ParallelMove, RearrangementAnimation } from '../services/rearrangement';
+
+// Canvas renderer for the full tweezer array: every site, the target mask and the atoms are
+// redrawn each frame from the animation's positions, culled to the visible part of the lattice.
+// Drag pans, the wheel zooms about the cursor, and the minimap shows where the view sits.
+
+interface View {
+  /** Pixels per lattice site */
+  scale: number;
+  /** Lattice coordinates at the centre of the canvas */
+  cx: number;
+  cy: number;
+}
+
+const MAX_SCALE = 60;
+const LOAD_FADE_MS = 1200;
+const MINIMAP_WIDTH = 160;
+const SCALE_BAR_LENGTHS = [10, 20, 50, 100, 200, 500, 1000];
+const COLORS = { background: '#0f172a', site: '#334155', target: 'rgba(251, 191, 36, 0.16)', atom: '#818cf8', moving: '#f43f5e' };
+
+// Fraction of the loading animation after which an atom appears, scattered over the array
+const loadDelay = (site: number) => (Math.imul(site + 1, 2654435761) >>> 0) / 2 ** 32;
+
+export const ArrayCanvas: React.FC<{
+  grid: ArrayGrid;
+  /** Lattice pitch in µm */
+  pitch: number;
+  target: boolean[];
+  /** Trap depth per site in mK */
+  depths: Float32Array;
+  animation: RearrangementAnimation;
+  moves: ParallelMove[];
+  /** Occupancy at the last completed move, for the minimap and hover readout */
+  occupied: boolean[];
+  /** Plan progress in moves, advanced by the parent while playing */
+  progressRef: React.MutableRefObject<number>;
+  /** Imaging cycle for each atom, in the order of animation.atoms, in which it is lost (0 if never) */
+  lostIn?: Int32Array;
+  /** Imaging cycles shown so far, advanced by the parent while playing */
+  cycleRef?: React.MutableRefObject<number>;
+  /** True while either the plan or the imaging run is playing */
+  playing: boolean;
+  /** Replays the loading animation whenever this changes */
+  loadKey: number;
+  /** When set, dragging paints sites instead of panning (Shift-drag still pans) */
+  onPaint?: (site: number, start: boolean) => void;
+}> = (props) => {
+  const { grid, pitch, target, depths, occupied, loadKey, onPaint } = props;
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const minimapRef = useRef<HTMLCanvasElement>(null);
+  const minimapImageRef = useRef<HTMLCanvasElement | null>(null);
+  const sizeRef = useRef({ width: 0, height: 0 });
+  const viewRef = useRef<View>({ scale: 1, cx: (grid.cols - 1) / 2, cy: (grid.rows - 1) / 2 });
+  const dragRef = useRef<{ mode: 'pan' | 'paint'; x: number; y: number; view: View } | null>(null);
+  const loadStartRef = useRef(performance.now());
+  const frameRef = useRef(0);
+  const [hover, setHover] = useState<{ site: number; x: number; y: number } | null>(null);
+  const hoverRef = useRef<number | null>(null);
+  hoverRef.current = hover?.site ?? null;
+
+  // The draw loop runs outside React renders, so it reads the latest props through a ref
+  const propsRef = useRef(props);
+  propsRef.current = props;
+
+  const fitScale = () => Math.min(sizeRef.current.width / grid.cols, sizeRef.current.height / grid.rows) * 0.95;
+
+  const clampView = (view: View): View => ({
+    scale: Math.min(MAX_SCALE, Math.max(fitScale(), view.scale)),
+    cx: Math.min(grid.cols - 1, Math.max(0, view.cx)),
+    cy: Math.min(grid.rows - 1, Math.max(0, view.cy)),
+  });
+
+  const siteAt = (clientX: number, clientY: number) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    const { scale, cx, cy } = viewRef.current;
+    const col = Math.round(cx + (clientX - rect.left - rect.width / 2) / scale);
+    const row = Math.round(cy + (clientY - rect.top - rect.height / 2) / scale);
+    if (col < 0 || col >= grid.cols || row < 0 || row >= grid.rows) return null;
+    const site = row * grid.cols + col;
+    return grid.missing?.includes(site) ? null : site;
+  };
+
+  const drawMinimap = () => {
+    const canvas = minimapRef.current;
+    const image = minimapImageRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !image) return;
+    const k = canvas.width / grid.cols;
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    const { width, height } = sizeRef.current;
+    const { scale, cx, cy } = viewRef.current;
+    ctx.strokeStyle = '#f8fafc';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(
+      (cx + 0.5 - width / 2 / scale) * k,
+      (cy + 0.5 - height / 2 / scale) * k,
+      (width / scale) * k,
+      (height / scale) * k
+    );
+  };
+
+  // Returns true while the loading animation still needs frames
+  const draw = (now: number) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return false;
+    const { target, depths, pitch, animation, moves, progressRef, lostIn, cycleRef } = propsRef.current;
+    const { width, height } = sizeRef.current;
+    const dpr = window.devicePixelRatio || 1;
+    const { scale, cx, cy } = viewRef.current;
+    const toX = (col: number) => width / 2 + (col - cx) * scale;
+    const toY = (row: number) => height / 2 + (row - cy) * scale;
+
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.shadowBlur = 0;
+    ctx.fillStyle = COLORS.background;
+    ctx.fillRect(0, 0, width, height);
+
+    const c0 = Math.max(0, Math.floor(cx - width / 2 / scale) - 1);
+    const c1 = Math.min(grid.cols - 1, Math.ceil(cx + width / 2 / scale) + 1);
+    const r0 = Math.max(0, Math.floor(cy - height / 2 / scale) - 1);
+    const r1 = Math.min(grid.rows - 1, Math.ceil(cy + height / 2 / scale) + 1);
+
+    const cell = scale * 0.86;
+    ctx.fillStyle = COLORS.target;
+    ctx.beginPath();
+    for (let row = r0; row <= r1; row++) {
+      for (let col = c0; col <= c1; col++) {
+        if (target[row * grid.cols + col]) ctx.rect(toX(col) - cell / 2, toY(row) - cell / 2, cell, cell);
+      }
+    }
+    ctx.fill();
+
+    // Empty traps only resolve once zoomed in
+    if (scale >= 4) {
+      const dot = Math.max(1, scale * 0.12);
+      ctx.fillStyle = COLORS.site;
+      ctx.beginPath();
+      for (let row = r0; row <= r1; row++) {
+        for (let col = c0; col <= c1; col++) {
+          if (depths[row * grid.cols + col] > 0) ctx.rect(toX(col) - dot / 2, toY(row) - dot / 2, dot, dot);
+        }
+      }
+      ctx.fill();
+    }
+
+    const progress = progressRef.current;
+    const done = Math.floor(progress);
+    const eased = done + d3.easeCubicInOut(progress - done);
+    const xy = animation.positionsAt(eased);
+    const moving = new Set(progress > 0 && done < moves.length ? moves[done].map(m => m.atom) : []);
+    const loadElapsed = now - loadStartRef.current;
+    const loading = loadElapsed < LOAD_FADE_MS;
+    const radius = Math.max(0.8, scale * 0.3);
+    const cycle = cycleRef?.current ?? 0;
+
+    const atomPath = (selectMoving: boolean) => {
+      ctx.beginPath();
+      animation.atoms.forEach((atom, i) => {
+        if (moving.has(atom) !== selectMoving) return;
+        if (loading && loadDelay(atom) * LOAD_FADE_MS > loadElapsed) return;
+        if (lostIn && lostIn[i] > 0 && lostIn[i] <= cycle) return;
+        const x = toX(xy[2 * i]);
+        const y = toY(xy[2 * i + 1]);
+        if (x < -radius || x > width + radius || y < -radius || y > height + radius) return;
+        if (radius < 2) {
+          ctx.rect(x - radius, y - radius, 2 * radius, 2 * radius);
+        } else {
+          ctx.moveTo(x + radius, y);
+          ctx.arc(x, y, radius, 0, 2 * Math.PI);
+        }
+      });
+    };
+    // One blurred shadow per fill gives every atom its glow at little cost
+    ctx.shadowBlur = scale >= 3 ? Math.min(10, scale * 0.8) : 0;
+    ctx.shadowColor = COLORS.atom;
+    ctx.fillStyle = COLORS.atom;
+    atomPath(false);
+    ctx.fill();
+    if (moving.size > 0) {
+      ctx.shadowColor = COLORS.moving;
+      ctx.fillStyle = COLORS.moving;
+      atomPath(true);
+      ctx.fill();
+    }
+    ctx.shadowBlur = 0;
+
+    const hovered = hoverRef.current;
+    if (hovered !== null) {
+      const size = Math.max(6, scale);
+      ctx.strokeStyle = '#f8fafc';
+      ctx.lineWidth = 1.5;
+      ctx.strokeRect(toX(hovered % grid.cols) - size / 2, toY(Math.floor(hovered / grid.cols)) - size / 2, size, size);
+    }
+
+    const barLength = SCALE_BAR_LENGTHS.find(length => (length / pitch) * scale >= 60) ?? SCALE_BAR_LENGTHS[SCALE_BAR_LENGTHS.length - 1];
+    const barPixels = (barLength / pitch) * scale;
+    ctx.fillStyle = '#cbd5e1';
+    ctx.fillRect(width - 16 - barPixels, height - 20, barPixels, 3);
+    ctx.font = '11px ui-monospace, monospace';
+    ctx.textAlign = 'right';
+    ctx.fillText(barLength >= 1000 ? `${barLength / 1000} mm` : `${barLength} µm`, width - 16, height - 26);
+
+    drawMinimap();
+    return loading;
+  };
+
+  const requestDraw = () => {
+    if (frameRef.current) return;
+    frameRef.current = requestAnimationFrame((now) => {
+      frameRef.current = 0;
+      const loading = draw(now);
+      if (loading || propsRef.current.playing) requestDraw();
+    });
+  };
+
+  // Any prop change (a new plan, target, step or playback) is a redraw
+  useEffect(() => {
+    requestDraw();
+  });
+
+  useEffect(() => () => cancelAnimationFrame(frameRef.current), []);
+
+  useEffect(() => {
+    loadStartRef.current = performance.now();
+    requestDraw();
+  }, [loadKey]);
+
+  // Minimap image: one pixel per site
+  useEffect(() => {
+    const image = minimapImageRef.current ?? document.createElement('canvas');
+    minimapImageRef.current = image;
+    image.width = grid.cols;
+    image.height = grid.rows;
+    const ctx = image.getContext('2d');
+    if (!ctx) return;
+    const pixels = ctx.createImageData(grid.cols, grid.rows);
+    const atom = [129, 140, 248, 255];
+    const vacancy = [120, 83, 16, 255];
+    const trap = [30, 41, 59, 255];
+    const none = [2, 6, 23, 255];
+    for (let site = 0; site < grid.cols * grid.rows; site++) {
+      pixels.data.set(occupied[site] ? atom : target[site] ? vacancy : depths[site] > 0 ? trap : none, 4 * site);
+    }
+    ctx.putImageData(pixels, 0, 0);
+    requestDraw();
+  }, [occupied, target, depths, grid]);
+
+  // Canvas size follows its container; the first size fits the whole array into view
+  useEffect(() => {
+    const container = containerRef.current;
+    const canvas = canvasRef.current;
+    if (!container || !canvas) return;
+    let fitted = false;
+    const observer = new ResizeObserver(() => {
+      const { width, height } = container.getBoundingClientRect();
+      const dpr = window.devicePixelRatio || 1;
+      canvas.width = Math.round(width * dpr);
+      canvas.height = Math.round(height * dpr);
+      sizeRef.current = { width, height };
+      viewRef.current = fitted ? clampView(viewRef.current) : { scale: fitScale(), cx: (grid.cols - 1) / 2, cy: (grid.rows - 1) / 2 };
+      fitted = width > 0;
+      requestDraw();
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [grid]);
+
+  // React registers wheel listeners as passive, so zoom uses a native listener to stop page scroll
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const view = viewRef.current;
+      const dx = e.clientX - rect.left - rect.width / 2;
+      const dy = e.clientY - rect.top - rect.height / 2;
+      const scale = Math.min(MAX_SCALE, Math.max(fitScale(), view.scale * Math.exp(-e.deltaY * 0.0015)));
+      // Keep the site under the cursor in place
+      viewRef.current = clampView({ scale, cx: view.cx + dx / view.scale - dx / scale, cy: view.cy + dy / view.scale - dy / scale });
+      requestDraw();
+    };
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', onWheel);
+  }, [grid]);
+
+  const zoomBy = (factor: number) => {
+    viewRef.current = clampView({ ...viewRef.current, scale: viewRef.current.scale * factor });
+    requestDraw();
+  };
+
+  const fitView = () => {
+    viewRef.current = { scale: fitScale(), cx: (grid.cols - 1) / 2, cy: (grid.rows - 1) / 2 };
+    requestDraw();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const paint = onPaint && !e.shiftKey;
+    dragRef.current = { mode: paint ? 'paint' : 'pan', x: e.clientX, y: e.clientY, view: viewRef.current };
+    const site = siteAt(e.clientX, e.clientY);
+    if (paint && site !== null) onPaint(site, true);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (drag?.mode === 'pan') {
+      viewRef.current = clampView({
+        ...drag.view,
+        cx: drag.view.cx - (e.clientX - drag.x) / drag.view.scale,
+        cy: drag.view.cy - (e.clientY - drag.y) / drag.view.scale,
+      });
+      requestDraw();
+    }
+    const site = siteAt(e.clientX, e.clientY);
+    if (drag?.mode === 'paint' && site !== null) onPaint?.(site, false);
+    const rect = e.currentTarget.getBoundingClientRect();
+    setHover(site === null || drag?.mode === 'pan' ? null : { site, x: e.clientX - rect.left, y: e.clientY - rect.top });
+  };
+
+  const handleMinimap = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.type === 'pointermove' && e.buttons !== 1) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    viewRef.current = clampView({
+      ...viewRef.current,
+      cx: ((e.clientX - rect.left) / rect.width) * grid.cols - 0.5,
+      cy: ((e.clientY - rect.top) / rect.height) * grid.rows - 0.5,
+    });
+    requestDraw();
+  };
+
+  const hoveredCol = hover ? hover.site % grid.cols : 0;
+  const hoveredRow = hover ? Math.floor(hover.site / grid.cols) : 0;
+  const buttonClass = "p-1.5 rounded bg-slate-800/80 border border-slate-600 text-slate-300 hover:text-white hover:bg-slate-700";
+
+  return (
+    <div ref={containerRef} className="absolute inset-0">
+      <canvas
+        ref={canvasRef}
+        className={`w-full h-full touch-none ${onPaint ? 'cursor-crosshair' : 'cursor-grab active:cursor-grabbing'}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => { dragRef.current = null; }}
+        onPointerLeave={() => setHover(null)}
+      />
+
+      {hover && (
+        <div
+          className="absolute z-20 pointer-events-none bg-slate-900/95 border border-slate-600 rounded-lg px-3 py-2 text-xs text-slate-300 font-mono shadow-xl"
+          style={{ left: hover.x + 14, top: hover.y + 14 }}
+        >
+          <div className="text-slate-100 font-semibold">Site #{hover.site}</div>
+          <div>col {hoveredCol}, row {hoveredRow}</div>
+          <div>
+            x {((hoveredCol - (grid.cols - 1) / 2) * pitch).toFixed(1)} µm, y {((hoveredRow - (grid.rows - 1) / 2) * pitch).toFixed(1)} µm
+          </div>
+          <div className={occupied[hover.site] ? 'text-indigo-300' : 'text-slate-500'}>
+            {occupied[hover.site] ? 'Atom' : 'Empty'}{target[hover.site] ? ' · target site' : ''}
+          </div>
+          <div>Trap depth {depths[hover.site].toFixed(3)} mK</div>
+        </div>
+      )}
+
+      <div className="absolute top-4 right-4 z-10 flex flex-col items-end gap-2">
+        <canvas
+          ref={minimapRef}
+          width={MINIMAP_WIDTH}
+          height={Math.round((MINIMAP_WIDTH * grid.rows) / grid.cols)}
+          className="rounded border border-slate-600 cursor-pointer"
+          style={{ imageRendering: 'pixelated' }}
+          onPointerDown={handleMinimap}
+          onPointerMove={handleMinimap}
+        />
+        <div className="flex gap-1">
+          <button onClick={() => zoomBy(1.5)} className={buttonClass} title="Zoom in"><ZoomIn size={14} /></button>
+          <button onClick={() => zoomBy(1 / 1.5)} className={buttonClass} title="Zoom out"><ZoomOut size={14} /></button>
+          <button onClick={fitView} className={buttonClass} title="Show the whole array"><Maximize2 size={14} /></button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,309 @@
+import React, { useEffect, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { Play, Pause, SkipBack, SkipForward, RotateCcw } from 'lucide-react';
+import { Vec3 } from '../services/quantum';
+
+export interface SphereTrace {
+  id: string;
+  color: string;
+  /** Bloch vectors along the path, as returned by simulateTrajectory */
+  points: Vec3[];
+  /** Index into `points` where each segment ends */
+  segmentEnds: number[];
+  /** Where the sequence ends without errors */
+  ideal: Vec3;
+}
+
+interface View {
+  /** Rotation about the z axis */
+  yaw: number;
+  /** Tilt of the z axis towards the viewer */
+  pitch: number;
+  zoom: number;
+}
+
+const WIDTH = 500;
+const HEIGHT = 400;
+const RADIUS = 120;
+const DEFAULT_VIEW: View = { yaw: 0.5, pitch: 0.4, zoom: 1 };
+const ZOOM_RANGE: [number, number] = [0.6, 2.5];
+const SEGMENT_DURATION_MS = 700;
+// Pointer travel below this counts as a click (pick initial state) rather than a drag
+const CLICK_TOLERANCE_PX = 4;
+
+const BACK_OPACITY = 0.25;
+
+interface ScreenPoint {
+  x: number;
+  y: number;
+  /** Positive towards the viewer */
+  depth: number;
+}
+
+// Bloch z points up on screen. The view first turns the sphere about z (yaw),
+// then tilts it about the horizontal screen axis (pitch).
+const project = (v: Vec3, view: View): ScreenPoint => {
+  const scale = RADIUS * view.zoom;
+  const x1 = v.x * Math.cos(view.yaw) - v.y * Math.sin(view.yaw);
+  const y1 = v.x * Math.sin(view.yaw) + v.y * Math.cos(view.yaw);
+  const toward = -y1;
+  const depth = toward * Math.cos(view.pitch) + v.z * Math.sin(view.pitch);
+  const up = v.z * Math.cos(view.pitch) - toward * Math.sin(view.pitch);
+  return { x: WIDTH / 2 + scale * x1, y: HEIGHT / 2 - scale * up, depth };
+};
+
+// Inverse of `project` for a point on the visible hemisphere; null outside the sphere
+const unproject = (sx: number, sy: number, view: View): Vec3 | null => {
+  const scale = RADIUS * view.zoom;
+  const x1 = (sx - WIDTH / 2) / scale;
+  const up = (HEIGHT / 2 - sy) / scale;
+  const r2 = x1 * x1 + up * up;
+  if (r2 > 1) return null;
+  const depth = Math.sqrt(1 - r2);
+  const toward = depth * Math.cos(view.pitch) - up * Math.sin(view.pitch);
+  const z = depth * Math.sin(view.pitch) + up * Math.cos(view.pitch);
+  const y1 = -toward;
+  return {
+    x: x1 * Math.cos(view.yaw) + y1 * Math.sin(view.yaw),
+    y: -x1 * Math.sin(view.yaw) + y1 * Math.cos(view.yaw),
+    z,
+  };
+};
+
+const circle = (at: (t: number) => Vec3): Vec3[] =>
+  d3.range(0, 2 * Math.PI + 0.05, 0.05).map(at);
+
+// Number of points of a trace drawn at playback time `progress` (in segments)
+const visibleCount = (trace: SphereTrace, progress: number) => {
+  const segment = Math.floor(progress);
+  if (segment >= trace.segmentEnds.length) return trace.points.length;
+  const start = segment === 0 ? 0 : trace.segmentEnds[segment - 1];
+  const end = trace.segmentEnds[segment];
+  return start + 1 + Math.floor((progress - segment) * (end - start));
+};
+
+// Drag to rotate, scroll to zoom, click to pick the initial state. Trajectories are drawn
+// up to the playback position, with the parts behind the sphere dimmed.
+export const BlochSphere: React.FC<{
+  traces: SphereTrace[];
+  initial: Vec3;
+  onPickInitial: (v: Vec3) => void;
+  /** Playback restarts from the first segment whenever this changes */
+  playbackKey: string;
+}> = ({ traces, initial, onPickInitial, playbackKey }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [view, setView] = useState<View>(DEFAULT_VIEW);
+  const [progress, setProgress] = useState(0);
+  const [playing, setPlaying] = useState(true);
+  const dragRef = useRef<{ x: number; y: number; view: View; moved: boolean } | null>(null);
+
+  const totalSegments = Math.max(1, ...traces.map(t => t.segmentEnds.length));
+
+  useEffect(() => {
+    setProgress(0);
+    setPlaying(true);
+  }, [playbackKey]);
+
+  useEffect(() => {
+    if (!playing) return;
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const dt = now - last;
+      last = now;
+      setProgress(prev => Math.min(totalSegments, prev + dt / SEGMENT_DURATION_MS));
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, totalSegments]);
+
+  useEffect(() => {
+    if (playing && progress >= totalSegments) setPlaying(false);
+  }, [playing, progress, totalSegments]);
+
+  // React registers wheel listeners as passive, so zoom uses a native listener to stop page scroll
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      setView(prev => ({
+        ...prev,
+        zoom: Math.min(ZOOM_RANGE[1], Math.max(ZOOM_RANGE[0], prev.zoom * Math.exp(-e.deltaY * 0.001))),
+      }));
+    };
+    svg.addEventListener('wheel', onWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', onWheel);
+  }, []);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove();
+
+    const toScreen = (v: Vec3) => project(v, view);
+
+    // Splits a polyline into runs in front of and behind the sphere
+    const drawDepthCued = (points: Vec3[], color: string, width: number, opacity = 1, dash?: string) => {
+      const projected = points.map(toScreen);
+      let run: ScreenPoint[] = [];
+      const flush = (front: boolean) => {
+        if (run.length < 2) return;
+        const line = d3.line<ScreenPoint>().x(p => p.x).y(p => p.y);
+        svg.append("path")
+          .attr("d", line(run))
+          .attr("stroke", color)
+          .attr("stroke-width", width)
+          .attr("fill", "none")
+          .attr("stroke-linecap", "round")
+          .attr("stroke-dasharray", front ? dash ?? null : "3 4")
+          .attr("opacity", front ? opacity : opacity * BACK_OPACITY);
+      };
+      projected.forEach((p, i) => {
+        if (i > 0 && (p.depth >= 0) !== (projected[i - 1].depth >= 0)) {
+          run.push(p);
+          flush(projected[i - 1].depth >= 0);
+          run = [projected[i - 1]];
+        }
+        run.push(p);
+      });
+      flush(projected[projected.length - 1]?.depth >= 0);
+    };
+
+    const dot = (v: Vec3, r: number, fill: string, stroke?: string) => {
+      const p = toScreen(v);
+      svg.append("circle")
+        .attr("cx", p.x).attr("cy", p.y).attr("r", r)
+        .attr("fill", fill)
+        .attr("stroke", stroke ?? "none")
+        .attr("stroke-dasharray", stroke ? "2 2" : null)
+        .attr("opacity", p.depth >= 0 ? 1 : 0.4);
+    };
+
+    const label = (v: Vec3, text: string) => {
+      const p = toScreen(v);
+      svg.append("text")
+        .attr("x", p.x).attr("y", p.y + 4)
+        .text(text)
+        .attr("fill", "#94a3b8")
+        .attr("text-anchor", "middle")
+        .attr("opacity", p.depth >= 0 ? 1 : 0.5)
+        .style("font-size", "12px");
+    };
+
+    // Sphere body and wireframe
+    svg.append("circle")
+      .attr("cx", WIDTH / 2).attr("cy", HEIGHT / 2).attr("r", RADIUS * view.zoom)
+      .attr("stroke", "#1e293b").attr("fill", "rgba(15, 23, 42, 0.5)");
+    drawDepthCued(circle(t => ({ x: Math.cos(t), y: Math.sin(t), z: 0 })), "#334155", 1, 1, "4");
+    drawDepthCued(circle(t => ({ x: Math.cos(t), y: 0, z: Math.sin(t) })), "#334155", 1, 0.6);
+    drawDepthCued(circle(t => ({ x: 0, y: Math.cos(t), z: Math.sin(t) })), "#334155", 1, 0.6);
+
+    // Axes
+    drawDepthCued([{ x: 0, y: 0, z: -1 }, { x: 0, y: 0, z: 1 }], "#475569", 1);
+    drawDepthCued([{ x: -1, y: 0, z: 0 }, { x: 1, y: 0, z: 0 }], "#475569", 1, 0.6);
+    drawDepthCued([{ x: 0, y: -1, z: 0 }, { x: 0, y: 1, z: 0 }], "#475569", 1, 0.6);
+    label({ x: 0, y: 0, z: 1.18 }, "|0⟩");
+    label({ x: 0, y: 0, z: -1.18 }, "|1⟩");
+    label({ x: 1.15, y: 0, z: 0 }, "x");
+    label({ x: 0, y: 1.15, z: 0 }, "y");
+
+    // Initial state vector
+    drawDepthCued([{ x: 0, y: 0, z: 0 }, initial], "#e2e8f0", 1.5, 0.8);
+    dot(initial, 5, "#e2e8f0");
+
+    traces.forEach(trace => {
+      const count = visibleCount(trace, progress);
+      drawDepthCued(trace.points.slice(0, count), trace.color, 3, 0.9);
+      dot(trace.ideal, 7, "none", trace.color);
+      dot(trace.points[count - 1], 4, trace.color);
+    });
+  }, [traces, initial, view, progress]);
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY, view, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = e.clientX - drag.x;
+    const dy = e.clientY - drag.y;
+    if (!drag.moved && Math.hypot(dx, dy) < CLICK_TOLERANCE_PX) return;
+    drag.moved = true;
+    setView({
+      ...drag.view,
+      yaw: drag.view.yaw + dx * 0.01,
+      pitch: Math.max(-Math.PI / 2, Math.min(Math.PI / 2, drag.view.pitch + dy * 0.01)),
+    });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag || drag.moved) return;
+    // The SVG scales with its container, so convert client to viewBox coordinates
+    const rect = e.currentTarget.getBoundingClientRect();
+    const picked = unproject(
+      ((e.clientX - rect.left) / rect.width) * WIDTH,
+      ((e.clientY - rect.top) / rect.height) * HEIGHT,
+      view
+    );
+    if (picked) onPickInitial(picked);
+  };
+
+  const stepTo = (segment: number) => {
+    setPlaying(false);
+    setProgress(Math.max(0, Math.min(totalSegments, segment)));
+  };
+
+  const togglePlay = () => {
+    if (!playing && progress >= totalSegments) setProgress(0);
+    setPlaying(!playing);
+  };
+
+  const buttonClass = "p-1.5 rounded text-slate-400 hover:text-slate-100 hover:bg-slate-700 transition-colors";
+
+  return (
+    <div className="flex flex-col w-full h-full">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full flex-1 min-h-0 touch-none select-none"
+        style={{ cursor: 'grab' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => { dragRef.current = null; }}
+      />
+      <div className="flex items-center gap-2 px-3 py-2 border-t border-slate-800">
+        <button onClick={() => stepTo(Math.ceil(progress) - 1)} className={buttonClass} title="Previous segment">
+          <SkipBack size={14} />
+        </button>
+        <button onClick={togglePlay} className={buttonClass} title={playing ? 'Pause' : 'Play'}>
+          {playing ? <Pause size={14} /> : <Play size={14} />}
+        </button>
+        <button onClick={() => stepTo(Math.floor(progress) + 1)} className={buttonClass} title="Next segment">
+          <SkipForward size={14} />
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={totalSegments}
+          step={0.01}
+          value={progress}
+          onChange={(e) => stepTo(parseFloat(e.target.value))}
+          className="flex-1 h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+        />
+        <span className="text-xs text-slate-500 font-mono w-14 text-right">
+          {Math.min(totalSegments, Math.floor(progress) + 1)}/{totalSegments}
+        </span>
+        <button onClick={() => setView(DEFAULT_VIEW)} className={buttonClass} title="Reset view">
+          <RotateCcw size={14} />
+        </button>
+      </div>
+    </div>
+  );
+};
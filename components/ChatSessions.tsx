@@ -0,0 +1,137 @@
+import React, { useRef, useState } from 'react';
+import { Plus, Trash2, Pencil, Check, Download, Upload, FileText, MessagesSquare } from 'lucide-react';
+import { ChatSession } from '../types';
+
+export const ChatSessionSidebar: React.FC<{
+    sessions: ChatSession[];
+    activeId: string;
+    disabled: boolean;
+    onSelect: (id: string) => void;
+    onCreate: () => void;
+    onDelete: (id: string) => void;
+    onRename: (id: string, name: string) => void;
+    onExport: (format: 'markdown' | 'json') => void;
+    onImport: (file: File) => void;
+}> = ({ sessions, activeId, disabled, onSelect, onCreate, onDelete, onRename, onExport, onImport }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const sorted = [...sessions].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+
+  const startRename = (session: ChatSession) => {
+    setEditingId(session.id);
+    setDraftName(session.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="w-56 shrink-0 bg-slate-950/60 border-r border-slate-700 flex-col hidden md:flex">
+      <div className="p-3 border-b border-slate-800">
+        <button
+          onClick={onCreate}
+          disabled={disabled}
+          className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 border border-slate-700 text-sm text-slate-200 disabled:opacity-50 transition-colors"
+        >
+          <Plus className="w-4 h-4" /> New chat
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {sorted.map(session => (
+          <div
+            key={session.id}
+            className={`group flex items-center gap-2 px-2 py-2 rounded-lg text-sm transition-colors ${
+              session.id === activeId
+                ? 'bg-slate-800 text-indigo-300 border border-slate-700'
+                : 'text-slate-400 hover:bg-slate-800/50 hover:text-slate-200 border border-transparent'
+            }`}
+          >
+            <MessagesSquare className="w-4 h-4 shrink-0 opacity-60" />
+            {editingId === session.id ? (
+              <>
+                <input
+                  autoFocus
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => e.key === 'Enter' && commitRename()}
+                  className="flex-1 min-w-0 bg-slate-900 border border-slate-600 rounded px-1 text-xs text-slate-200 focus:outline-none"
+                />
+                <Check className="w-3 h-3 shrink-0" />
+              </>
+            ) : (
+              <>
+                <button
+                  onClick={() => onSelect(session.id)}
+                  disabled={disabled}
+                  className="flex-1 min-w-0 text-left truncate disabled:cursor-not-allowed"
+                  title={session.name}
+                >
+                  {session.name}
+                </button>
+                <button
+                  onClick={() => startRename(session)}
+                  className="opacity-0 group-hover:opacity-100 text-slate-500 hover:text-slate-200 transition-opacity"
+                  title="Rename"
+                >
+                  <Pencil className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={() => onDelete(session.id)}
+                  disabled={disabled}
+                  className="opacity-0 group-hover:opacity-100 text-slate-500 hover:text-rose-400 transition-opacity disabled:cursor-not-allowed"
+                  title="Delete"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="p-3 border-t border-slate-800 space-y-2">
+        <div className="text-[10px] font-semibold text-slate-500 uppercase">Current session</div>
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={() => onExport('markdown')}
+            className="flex items-center justify-center gap-1 px-2 py-1.5 rounded bg-slate-800 hover:bg-slate-700 text-xs text-slate-300 transition-colors"
+            title="Export as Markdown (lab notes)"
+          >
+            <FileText className="w-3 h-3" /> .md
+          </button>
+          <button
+            onClick={() => onExport('json')}
+            className="flex items-center justify-center gap-1 px-2 py-1.5 rounded bg-slate-800 hover:bg-slate-700 text-xs text-slate-300 transition-colors"
+            title="Export as JSON (can be re-imported)"
+          >
+            <Download className="w-3 h-3" /> .json
+          </button>
+        </div>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+          className="w-full flex items-center justify-center gap-1 px-2 py-1.5 rounded bg-slate-800 hover:bg-slate-700 text-xs text-slate-300 disabled:opacity-50 transition-colors"
+        >
+          <Upload className="w-3 h-3" /> Import JSON
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+    </div>
+  );
+};
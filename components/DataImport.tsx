@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { Upload, FileSpreadsheet, Trash2, LineChart as LineChartIcon } from 'lucide-react';
+import {
+  ColumnMapping, DATASET_TARGETS, DataTable, DatasetTarget, ImportedDataset, applyMapping, guessMapping, readDataFile,
+} from '../services/dataImport';
+
+export type ImportedDatasets = Partial<Record<DatasetTarget, ImportedDataset>>;
+
+const PREVIEW_ROWS = 5;
+
+const ColumnSelect: React.FC<{
+  label: string;
+  columns: string[];
+  value: number | null;
+  optional?: boolean;
+  onChange: (value: number | null) => void;
+}> = ({ label, columns, value, optional = false, onChange }) => (
+  <label className="flex flex-col gap-1 text-xs text-slate-400">
+    {label}
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value === '' ? null : parseInt(e.target.value, 10))}
+      className="bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-indigo-500"
+    >
+      {optional && <option value="">None</option>}
+      {columns.map((column, i) => <option key={i} value={i}>{column}</option>)}
+    </select>
+  </label>
+);
+
+// Drag-and-drop import of measured scans (CSV, JSON, HDF5). After mapping the columns, the data
+// replaces the synthetic measurement in the chosen chart and goes through the same fit.
+export const DataImportPanel: React.FC<{
+  imports: ImportedDatasets;
+  onChange: (imports: ImportedDatasets) => void;
+}> = ({ imports, onChange }) => {
+  const [table, setTable] = useState<DataTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [target, setTarget] = useState<DatasetTarget>('coherence');
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [dragging, setDragging] = useState(false);
+
+  const targetInfo = DATASET_TARGETS.find(t => t.id === target)!;
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setLoading(true);
+    try {
+      const parsed = await readDataFile(file);
+      if (parsed.columns.length < 2) throw new Error('Need at least two numeric columns.');
+      setTable(parsed);
+      setMapping(guessMapping(parsed));
+    } catch (err) {
+      console.error("Failed to read data file:", err);
+      setError(err instanceof Error ? err.message : String(err));
+      setTable(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleFile(file);
+  };
+
+  const handlePlot = () => {
+    if (!table || !mapping) return;
+    try {
+      onChange({ ...imports, [target]: applyMapping(table, mapping, target) });
+      setTable(null);
+      setMapping(null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleRemove = (id: DatasetTarget) => {
+    const next = { ...imports };
+    delete next[id];
+    onChange(next);
+  };
+
+  const active = DATASET_TARGETS.filter(t => imports[t.id]);
+
+  return (
+    <div className="bg-slate-800/50 p-6 rounded-xl border border-slate-700 space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-slate-200">Import Measured Data</h3>
+        <p className="text-xs text-slate-400 mt-1">
+          Compare your own Ramsey, lifetime or RB scans with the paper. CSV, JSON and HDF5 files are read in the browser.
+        </p>
+      </div>
+
+      <label
+        onDragOver={(e) => { e.preventDefault(); setDragging(true); }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        className={`flex flex-col items-center justify-center gap-2 p-6 rounded-lg border-2 border-dashed cursor-pointer transition-colors ${dragging ? 'border-indigo-400 bg-indigo-500/10' : 'border-slate-600 hover:border-slate-500'}`}
+      >
+        <Upload className="w-6 h-6 text-slate-400" />
+        <span className="text-sm text-slate-300">{loading ? 'Reading…' : 'Drop a file here or click to browse'}</span>
+        <span className="text-xs text-slate-500">.csv · .tsv · .json · .h5 / .hdf5</span>
+        <input
+          type="file"
+          accept=".csv,.tsv,.txt,.dat,.json,.h5,.hdf5,.he5,.nxs"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+
+      {error && <div className="text-xs text-red-400">{error}</div>}
+
+      {table && mapping && (
+        <div className="space-y-3 p-4 bg-slate-900/50 rounded-lg border border-slate-700">
+          <div className="flex items-center gap-2 text-sm text-slate-200">
+            <FileSpreadsheet className="w-4 h-4 text-indigo-400" />
+            {table.fileName}
+            <span className="text-xs text-slate-500">{table.rows.length} rows · {table.columns.length} columns</span>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="text-xs font-mono text-slate-300">
+              <thead>
+                <tr>
+                  {table.columns.map((column, i) => (
+                    <th
+                      key={i}
+                      className={`px-2 py-1 text-left font-medium ${i === mapping.x ? 'text-sky-400' : i === mapping.y ? 'text-emerald-400' : i === mapping.error ? 'text-amber-400' : 'text-slate-500'}`}
+                    >
+                      {column}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {table.rows.slice(0, PREVIEW_ROWS).map((row, r) => (
+                  <tr key={r}>
+                    {row.map((cell, i) => <td key={i} className="px-2 py-0.5">{Number.isNaN(cell) ? '—' : cell.toPrecision(4)}</td>)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            <label className="flex flex-col gap-1 text-xs text-slate-400">
+              Plot in
+              <select
+                value={target}
+                onChange={(e) => {
+                  setTarget(e.target.value as DatasetTarget);
+                  setMapping({ ...mapping, xScale: 1 });
+                }}
+                className="bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-indigo-500"
+              >
+                {DATASET_TARGETS.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+              </select>
+            </label>
+            <ColumnSelect label={targetInfo.xLabel} columns={table.columns} value={mapping.x} onChange={(x) => setMapping({ ...mapping, x: x ?? 0 })} />
+            <label className="flex flex-col gap-1 text-xs text-slate-400">
+              Unit
+              <select
+                value={mapping.xScale}
+                onChange={(e) => setMapping({ ...mapping, xScale: parseFloat(e.target.value) })}
+                className="bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-indigo-500"
+              >
+                {targetInfo.units.map(unit => <option key={unit.label} value={unit.scale}>{unit.label}</option>)}
+              </select>
+            </label>
+            <ColumnSelect label="Value" columns={table.columns} value={mapping.y} onChange={(y) => setMapping({ ...mapping, y: y ?? 0 })} />
+            <ColumnSelect label="Error (1σ)" columns={table.columns} value={mapping.error} optional onChange={(error) => setMapping({ ...mapping, error })} />
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={handlePlot}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs rounded bg-indigo-600 hover:bg-indigo-500 text-white"
+            >
+              <LineChartIcon size={12} /> Plot and fit
+            </button>
+            <button
+              onClick={() => { setTable(null); setMapping(null); }}
+              className="px-3 py-1.5 text-xs rounded bg-slate-700 hover:bg-slate-600 text-slate-200"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {active.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {active.map(t => (
+            <span key={t.id} className="flex items-center gap-2 px-2 py-1 text-xs rounded bg-slate-900 border border-slate-700 text-slate-300">
+              <span className="text-slate-500">{t.label}:</span> {imports[t.id]!.name}
+              <button onClick={() => handleRemove(t.id)} className="text-slate-500 hover:text-red-400" title="Remove imported data">
+                <Trash2 size={12} />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
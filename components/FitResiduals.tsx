@@ -0,0 +1,73 @@
+import React from 'react';
+import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { FitResult } from '../services/curveFitting';
+
+export interface ResidualSeries {
+  id: string;
+  name: string;
+  color: string;
+  xs: number[];
+  fit: FitResult;
+}
+
+// Normalized residuals (measured − fit)/σ under a decay chart, with each fit's reduced χ²
+export const FitResiduals: React.FC<{
+  series: ResidualSeries[];
+  xLabel: string;
+  logX?: boolean;
+}> = ({ series, xLabel, logX = false }) => (
+  <div className="mt-3">
+    <div className="flex flex-wrap gap-x-4 gap-y-1 text-[11px] font-mono text-slate-400 mb-1">
+      {series.map(s => (
+        <span key={s.id}>
+          <span style={{ color: s.color }}>{s.name}</span>{' '}
+          {s.fit.weighted ? `χ²ᵣ = ${s.fit.reducedChiSquared.toFixed(2)} (ν = ${s.fit.dof})` : `σ from scatter (ν = ${s.fit.dof})`}
+        </span>
+      ))}
+    </div>
+    <div className="h-28">
+      <ResponsiveContainer width="100%" height="100%">
+        <ScatterChart margin={{ top: 5, right: 10, bottom: 0, left: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#334155" opacity={0.5} />
+          <XAxis
+            dataKey="x"
+            type="number"
+            scale={logX ? 'log' : 'auto'}
+            domain={['auto', 'auto']}
+            name={xLabel}
+            tickFormatter={(v: number) => (logX ? v.toPrecision(1) : String(v))}
+            stroke="#94a3b8"
+            tick={{ fill: '#94a3b8', fontSize: 10 }}
+          />
+          <YAxis
+            dataKey="residual"
+            type="number"
+            domain={[-4, 4]}
+            ticks={[-3, 0, 3]}
+            allowDataOverflow
+            name="Residual"
+            label={{ value: 'Res. (σ)', angle: -90, position: 'insideLeft', fill: '#94a3b8', fontSize: 10 }}
+            stroke="#94a3b8"
+            tick={{ fill: '#94a3b8', fontSize: 10 }}
+            width={45}
+          />
+          <Tooltip
+            contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', color: '#f1f5f9' }}
+            itemStyle={{ fontSize: '12px' }}
+            formatter={(value) => Number(value).toPrecision(3)}
+          />
+          <ReferenceLine y={0} stroke="#cbd5e1" strokeDasharray="3 3" />
+          {series.map(s => (
+            <Scatter
+              key={s.id}
+              name={s.name}
+              data={s.xs.map((x, i) => ({ x, residual: s.fit.residuals[i] }))}
+              fill={s.color}
+              isAnimationActive={false}
+            />
+          ))}
+        </ScatterChart>
+      </ResponsiveContainer>
+    </div>
+  </div>
+);
@@ -1,111 +1,464 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User, Sparkles, Loader2 } from 'lucide-react';
-import { streamGeminiResponse } from '../services/geminiService';
-import { ChatMessage } from '../types';
-
-export const GeminiChat: React.FC = () => {
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    { role: 'model', text: "Hello! I'm your research assistant for the '6,100 Highly Coherent Atomic Qubits' paper. Ask me about the experimental setup, coherence times, or transport mechanisms.", timestamp: new Date() }
-  ]);
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Send, Bot, User, Sparkles, Loader2, WifiOff, Square, RefreshCw, RotateCcw, KeyRound, Gauge, ShieldAlert, TriangleAlert, Wrench } from 'lucide-react';
+import { PROVIDERS, getDefaultProviderId } from '../services/providers';
+import { ProviderId } from '../services/llmProvider';
+import { getOpenAICompatBaseUrl, setOpenAICompatBaseUrl } from '../services/openAICompatProvider';
+import { toLLMError } from '../services/llmErrors';
+import { AppControls, executeTool } from '../services/assistantTools';
+import {
+  createSession, deriveSessionName, loadSessions, saveSessions, loadActiveSessionId, saveActiveSessionId,
+  sessionToJSON, sessionFromJSON, sessionToMarkdown
+} from '../services/chatSessions';
+import { downloadFile, toFilenameSlug } from '../services/fileExport';
+import { CorpusDocument, buildIndex, loadCorpus, saveCorpus, search } from '../services/retrieval';
+import { ChatSessionSidebar } from './ChatSessions';
+import { MarkdownMessage } from './MarkdownMessage';
+import { MessageSources, PaperCorpusBar, readCorpusFiles } from './PaperSources';
+import { ChatError, ChatErrorKind, ChatMessage, ChatSession, PaperFact, ToolCallRecord } from '../types';
+
+export const GeminiChat: React.FC<{
+    onCiteFact?: (fact: PaperFact) => void;
+    /** Enables tool calling: the assistant can navigate and change simulation parameters */
+    controls?: AppControls;
+}> = ({ onCiteFact, controls }) => {
+  const [sessions, setSessions] = useState<ChatSession[]>(() => {
+    const stored = loadSessions();
+    return stored.length ? stored : [createSession()];
+  });
+  const [activeId, setActiveId] = useState<string>(() => {
+    const storedId = loadActiveSessionId();
+    return sessions.some(s => s.id === storedId) ? storedId! : sessions[0].id;
+  });
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [providerId, setProviderId] = useState<ProviderId>(getDefaultProviderId);
+  const [endpoint, setEndpoint] = useState(getOpenAICompatBaseUrl);
+  const [corpus, setCorpus] = useState<CorpusDocument[]>(loadCorpus);
+  const [isDragging, setIsDragging] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
+  const activeSession = sessions.find(s => s.id === activeId) ?? sessions[0];
+  const messages = activeSession.messages;
+
   useEffect(() => {
     scrollToBottom();
   }, [messages]);
 
-  const handleSend = async () => {
-    if (!input.trim() || isLoading) return;
+  useEffect(() => {
+    saveSessions(sessions);
+  }, [sessions]);
 
-    const userMsg: ChatMessage = { role: 'user', text: input, timestamp: new Date() };
-    setMessages(prev => [...prev, userMsg]);
-    setInput('');
+  useEffect(() => {
+    saveActiveSessionId(activeId);
+  }, [activeId]);
+
+  const corpusIndex = useMemo(() => buildIndex(corpus), [corpus]);
+
+  const updateCorpus = (documents: CorpusDocument[]) => {
+    setCorpus(documents);
+    saveCorpus(documents);
+  };
+
+  // Re-loading a file with the same name replaces the earlier copy
+  const handleAddDocuments = (docs: CorpusDocument[]) => {
+    const names = new Set(docs.map(d => d.name));
+    updateCorpus([...corpus.filter(d => !names.has(d.name)), ...docs]);
+  };
+
+  const handleAddFiles = async (files: FileList) => {
+    try {
+      handleAddDocuments(await readCorpusFiles(files));
+    } catch (error) {
+      console.error("Failed to load paper text:", error);
+      alert(`Could not load paper text: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (e.dataTransfer.files.length) handleAddFiles(e.dataTransfer.files);
+  };
+
+  const updateMessages = (sessionId: string, update: (prev: ChatMessage[]) => ChatMessage[]) => {
+    setSessions(prev => prev.map(s => {
+      if (s.id !== sessionId) return s;
+      const next = { ...s, messages: update(s.messages), updatedAt: new Date() };
+      return { ...next, name: deriveSessionName(next) };
+    }));
+  };
+
+  const provider = PROVIDERS[providerId];
+  const modelInfo = provider.info();
+
+  // Abort any in-flight stream when the backend changes or the chat unmounts
+  useEffect(() => () => {
+    abortRef.current?.abort();
+    provider.cancel();
+  }, [provider]);
+
+  const handleProviderChange = (id: ProviderId) => {
+    if (isLoading) return;
+    setProviderId(id);
+  };
+
+  const handleEndpointCommit = () => {
+    setOpenAICompatBaseUrl(endpoint);
+    setEndpoint(getOpenAICompatBaseUrl());
+  };
+
+  // Streams a model reply to `history` (which must end with the user turn being answered).
+  // The reply is written to the session that was active when the request started.
+  const runCompletion = async (history: ChatMessage[]) => {
+    const sessionId = activeSession.id;
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsLoading(true);
 
-    const modelMsgId = Date.now();
-    // Optimistic update for bot message container
-    setMessages(prev => [...prev, { role: 'model', text: '', timestamp: new Date() }]);
+    const question = history[history.length - 1].text;
+    const passages = search(corpusIndex, question);
+    updateMessages(sessionId, () => [
+      ...history,
+      { role: 'model', text: '', timestamp: new Date(), ...(passages.length ? { sources: passages } : {}) }
+    ]);
+
+    const updateReply = (patch: Partial<ChatMessage>) => {
+      updateMessages(sessionId, prev => {
+        const last = prev[prev.length - 1];
+        return [...prev.slice(0, -1), { ...last, ...patch }];
+      });
+    };
 
     let fullResponse = "";
+    const toolCalls: ToolCallRecord[] = [];
 
-    await streamGeminiResponse([...messages, userMsg], (chunk) => {
-        fullResponse += chunk;
-        setMessages(prev => {
-            const newHistory = [...prev];
-            newHistory[newHistory.length - 1].text = fullResponse;
-            return newHistory;
-        });
+    const onToolCall = controls && (async (name: string, args: Record<string, unknown>) => {
+      const result = executeTool(name, args, controls);
+      toolCalls.push({ name, args, result });
+      updateReply({ toolCalls: [...toolCalls] });
+      return result;
     });
 
-    setIsLoading(false);
+    try {
+      await provider.stream(history, (chunk) => {
+        fullResponse += chunk;
+        updateReply({ text: fullResponse });
+      }, { signal: controller.signal, passages, onToolCall });
+
+      if (controller.signal.aborted) updateReply({ stopped: true });
+    } catch (error) {
+      console.error("Assistant error:", error);
+      updateReply({ error: toLLMError(error).toChatError() });
+    } finally {
+      abortRef.current = null;
+      setIsLoading(false);
+    }
   };
 
+  const handleSend = () => {
+    if (!input.trim() || isLoading) return;
+
+    const userMsg: ChatMessage = { role: 'user', text: input, timestamp: new Date() };
+    setInput('');
+    runCompletion([...messages, userMsg]);
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  // Drops the last model reply and asks again; also used to retry after an error
+  const handleRegenerate = () => {
+    if (isLoading) return;
+    const lastUserIdx = messages.map(m => m.role).lastIndexOf('user');
+    if (lastUserIdx < 0) return;
+    runCompletion(messages.slice(0, lastUserIdx + 1));
+  };
+
+  const handleCreateSession = () => {
+    const session = createSession();
+    setSessions(prev => [session, ...prev]);
+    setActiveId(session.id);
+  };
+
+  const handleDeleteSession = (id: string) => {
+    const remaining = sessions.filter(s => s.id !== id);
+    const next = remaining.length ? remaining : [createSession()];
+    setSessions(next);
+    if (id === activeId) setActiveId(next[0].id);
+  };
+
+  const handleRenameSession = (id: string, name: string) => {
+    setSessions(prev => prev.map(s => s.id === id ? { ...s, name } : s));
+  };
+
+  const handleExport = (format: 'markdown' | 'json') => {
+    const slug = toFilenameSlug(activeSession.name);
+    if (format === 'markdown') {
+      downloadFile(`${slug}.md`, sessionToMarkdown(activeSession), 'text/markdown');
+    } else {
+      downloadFile(`${slug}.json`, sessionToJSON(activeSession), 'application/json');
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const session = sessionFromJSON(await file.text());
+      setSessions(prev => [session, ...prev]);
+      setActiveId(session.id);
+    } catch (error) {
+      console.error("Chat import failed:", error);
+      alert(`Could not import ${file.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const lastIdx = messages.length - 1;
+  const canRegenerate = !isLoading && lastIdx > 0 && messages[lastIdx].role === 'model';
+
   return (
-    <div className="flex flex-col h-[600px] w-full max-w-4xl mx-auto bg-slate-900 rounded-2xl border border-slate-700 shadow-2xl overflow-hidden">
-      {/* Header */}
-      <div className="bg-slate-800 p-4 border-b border-slate-700 flex items-center gap-3">
-        <div className="p-2 bg-indigo-500/20 rounded-lg">
-          <Sparkles className="w-5 h-5 text-indigo-400" />
-        </div>
-        <div>
-          <h3 className="font-semibold text-slate-100">Research Assistant</h3>
-          <p className="text-xs text-slate-400">Powered by Gemini 2.5 Flash</p>
+    <div className="flex h-[600px] w-full max-w-5xl mx-auto bg-slate-900 rounded-2xl border border-slate-700 shadow-2xl overflow-hidden">
+      <ChatSessionSidebar
+        sessions={sessions}
+        activeId={activeSession.id}
+        disabled={isLoading}
+        onSelect={setActiveId}
+        onCreate={handleCreateSession}
+        onDelete={handleDeleteSession}
+        onRename={handleRenameSession}
+        onExport={handleExport}
+        onImport={handleImport}
+      />
+
+      <div
+        className={`flex-1 min-w-0 flex flex-col relative ${isDragging ? 'ring-2 ring-inset ring-indigo-500' : ''}`}
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+      >
+        {/* Header */}
+        <div className="bg-slate-800 p-4 border-b border-slate-700 flex items-center gap-3">
+          <div className="p-2 bg-indigo-500/20 rounded-lg">
+            <Sparkles className="w-5 h-5 text-indigo-400" />
+          </div>
+          <div className="min-w-0">
+            <h3 className="font-semibold text-slate-100">Research Assistant</h3>
+            <p className="text-xs text-slate-400 truncate flex items-center gap-1">
+              {modelInfo.offline && <WifiOff className="w-3 h-3 shrink-0" />}
+              Powered by {modelInfo.name}
+            </p>
+          </div>
+          <div className="ml-auto flex items-center gap-2 shrink-0">
+            {providerId === 'openai-compatible' && (
+              <input
+                type="text"
+                value={endpoint}
+                onChange={(e) => setEndpoint(e.target.value)}
+                onBlur={handleEndpointCommit}
+                onKeyDown={(e) => e.key === 'Enter' && handleEndpointCommit()}
+                title="OpenAI-compatible base URL"
+                className="w-52 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs font-mono text-slate-300 focus:outline-none focus:border-indigo-500"
+              />
+            )}
+            <select
+              value={providerId}
+              onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+              disabled={isLoading}
+              className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-300 focus:outline-none focus:border-indigo-500 disabled:opacity-50"
+            >
+              {Object.values(PROVIDERS).map(p => (
+                <option key={p.id} value={p.id}>{p.label}</option>
+              ))}
+            </select>
+          </div>
         </div>
-      </div>
 
-      {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.map((msg, idx) => (
-          <div key={idx} className={`flex gap-3 ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-            {msg.role === 'model' && (
-              <div className="w-8 h-8 rounded-full bg-indigo-600 flex items-center justify-center shrink-0">
-                <Bot className="w-5 h-5 text-white" />
+        <PaperCorpusBar
+          documents={corpus}
+          passageCount={corpusIndex.chunks.length}
+          onAdd={handleAddFiles}
+          onClear={() => updateCorpus([])}
+        />
+
+        {/* Messages */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {messages.map((msg, idx) => (
+            <div key={idx} className={`flex gap-3 ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              {msg.role === 'model' && (
+                <div className="w-8 h-8 rounded-full bg-indigo-600 flex items-center justify-center shrink-0">
+                  <Bot className="w-5 h-5 text-white" />
+                </div>
+              )}
+              
+              <div className="max-w-[80%] flex flex-col gap-2">
+              {msg.toolCalls && msg.toolCalls.length > 0 && <ToolCallList calls={msg.toolCalls} />}
+
+                {(msg.text || !msg.error) && (
+                  <div className={`rounded-2xl p-4 ${
+                    msg.role === 'user'
+                      ? 'bg-indigo-600 text-white rounded-br-none'
+                      : 'bg-slate-800 text-slate-200 rounded-bl-none border border-slate-700'
+                  }`}>
+                    {msg.role === 'model'
+                      ? <MarkdownMessage text={msg.text} onCiteFact={onCiteFact} />
+                      : <p className="text-sm leading-relaxed whitespace-pre-wrap">{msg.text}</p>}
+                    {msg.stopped && (
+                      <p className="text-xs text-slate-500 italic mt-2">Generation stopped.</p>
+                    )}
+                  </div>
+                )}
+
+                {msg.error && (
+                  <ErrorNotice error={msg.error} onRetry={idx === lastIdx ? handleRegenerate : undefined} disabled={isLoading} />
+                )}
+
+                {msg.sources && msg.sources.length > 0 && <MessageSources sources={msg.sources} />}
+
+                {idx === lastIdx && canRegenerate && !msg.error && (
+                  <button
+                    onClick={handleRegenerate}
+                    className="self-start text-xs text-slate-400 hover:text-indigo-300 flex items-center gap-1 transition-colors"
+                  >
+                    <RefreshCw className="w-3 h-3" /> Regenerate
+                  </button>
+                )}
               </div>
-            )}
-            
-            <div className={`max-w-[80%] rounded-2xl p-4 ${
-              msg.role === 'user' 
-                ? 'bg-indigo-600 text-white rounded-br-none' 
-                : 'bg-slate-800 text-slate-200 rounded-bl-none border border-slate-700'
-            }`}>
-              <p className="text-sm leading-relaxed whitespace-pre-wrap">{msg.text}</p>
+
+              {msg.role === 'user' && (
+                <div className="w-8 h-8 rounded-full bg-slate-700 flex items-center justify-center shrink-0">
+                  <User className="w-5 h-5 text-slate-300" />
+                </div>
+              )}
             </div>
+          ))}
+          <div ref={messagesEndRef} />
+        </div>
 
-            {msg.role === 'user' && (
-              <div className="w-8 h-8 rounded-full bg-slate-700 flex items-center justify-center shrink-0">
-                <User className="w-5 h-5 text-slate-300" />
-              </div>
+        {/* Input */}
+        <div className="p-4 bg-slate-800 border-t border-slate-700">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSend()}
+              placeholder="Ask about T2 times, SLM generation, or vacuum lifetime..."
+              className="flex-1 bg-slate-900 border border-slate-700 rounded-xl px-4 py-3 text-slate-200 focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 placeholder:text-slate-500"
+            />
+            {isLoading ? (
+              <button
+                onClick={handleStop}
+                title="Stop generating"
+                className="bg-slate-700 hover:bg-slate-600 text-slate-200 px-4 rounded-xl transition-colors flex items-center justify-center gap-2 text-sm"
+              >
+                <Loader2 className="w-4 h-4 animate-spin" />
+                <Square className="w-3 h-3 fill-current" />
+                <span className="hidden sm:inline">Stop generating</span>
+              </button>
+            ) : (
+              <button
+                onClick={handleSend}
+                disabled={!input.trim()}
+                className="bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-700 disabled:cursor-not-allowed text-white px-5 rounded-xl transition-colors flex items-center justify-center"
+              >
+                <Send className="w-5 h-5" />
+              </button>
             )}
           </div>
-        ))}
-        <div ref={messagesEndRef} />
+        </div>
       </div>
+    </div>
+  );
+};
 
-      {/* Input */}
-      <div className="p-4 bg-slate-800 border-t border-slate-700">
-        <div className="flex gap-2">
-          <input
-            type="text"
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyDown={(e) => e.key === 'Enter' && handleSend()}
-            placeholder="Ask about T2 times, SLM generation, or vacuum lifetime..."
-            className="flex-1 bg-slate-900 border border-slate-700 rounded-xl px-4 py-3 text-slate-200 focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 placeholder:text-slate-500"
-          />
-          <button
-            onClick={handleSend}
-            disabled={isLoading || !input.trim()}
-            className="bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-700 disabled:cursor-not-allowed text-white px-5 rounded-xl transition-colors flex items-center justify-center"
-          >
-            {isLoading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Send className="w-5 h-5" />}
-          </button>
-        </div>
+const ERROR_STYLES: Record<ChatErrorKind, { title: string; hint: string; icon: React.ReactNode; className: string }> = {
+  'missing-key': {
+    title: 'API key missing',
+    hint: 'Set GEMINI_API_KEY in .env.local, or switch to the offline backend in the header.',
+    icon: <KeyRound className="w-4 h-4" />,
+    className: 'border-amber-700/60 bg-amber-900/20 text-amber-300',
+  },
+  'network': {
+    title: 'Network error',
+    hint: 'The backend could not be reached. Check your connection or the endpoint URL.',
+    icon: <WifiOff className="w-4 h-4" />,
+    className: 'border-sky-700/60 bg-sky-900/20 text-sky-300',
+  },
+  'quota': {
+    title: 'Quota exceeded',
+    hint: 'The backend is rate limiting requests. Wait a moment before retrying.',
+    icon: <Gauge className="w-4 h-4" />,
+    className: 'border-orange-700/60 bg-orange-900/20 text-orange-300',
+  },
+  'safety': {
+    title: 'Blocked by safety filters',
+    hint: 'The response was withheld. Try rephrasing the question.',
+    icon: <ShieldAlert className="w-4 h-4" />,
+    className: 'border-rose-700/60 bg-rose-900/20 text-rose-300',
+  },
+  'unknown': {
+    title: 'Something went wrong',
+    hint: 'The assistant failed to answer.',
+    icon: <TriangleAlert className="w-4 h-4" />,
+    className: 'border-slate-600 bg-slate-800 text-slate-300',
+  },
+};
+
+const ErrorNotice: React.FC<{
+    error: ChatError;
+    onRetry?: () => void;
+    disabled?: boolean;
+}> = ({ error, onRetry, disabled }) => {
+  const style = ERROR_STYLES[error.kind];
+  return (
+    <div className={`rounded-xl border p-3 text-sm ${style.className}`}>
+      <div className="flex items-center gap-2 font-medium">
+        {style.icon}
+        {style.title}
       </div>
+      <p className="text-xs text-slate-400 mt-1">{style.hint}</p>
+      {error.message && <p className="text-xs font-mono text-slate-500 mt-1 break-words">{error.message}</p>}
+      {onRetry && (
+        <button
+          onClick={onRetry}
+          disabled={disabled}
+          className="mt-2 text-xs flex items-center gap-1 text-slate-300 hover:text-white disabled:opacity-50 transition-colors"
+        >
+          <RotateCcw className="w-3 h-3" /> Retry
+        </button>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
+
+const formatArgs = (args: Record<string, unknown>) =>
+  Object.entries(args).map(([key, value]) => `${key}: ${JSON.stringify(value)}`).join(', ');
+
+// Transcript of the app actions taken by the assistant while answering
+const ToolCallList: React.FC<{ calls: ToolCallRecord[] }> = ({ calls }) => (
+  <div className="space-y-1">
+    {calls.map((call, i) => {
+      const failed = call.result.ok === false;
+      return (
+        <div
+          key={i}
+          className={`flex items-center gap-2 rounded-lg border px-3 py-1.5 text-xs font-mono ${
+            failed ? 'border-rose-800/60 bg-rose-950/30 text-rose-300' : 'border-slate-700 bg-slate-900/60 text-slate-300'
+          }`}
+        >
+          <Wrench className="w-3 h-3 shrink-0 text-indigo-400" />
+          <span className="truncate">
+            {call.name}({formatArgs(call.args)})
+          </span>
+          <span className={`ml-auto shrink-0 ${failed ? 'text-rose-400' : 'text-green-400'}`}>
+            {failed ? String(call.result.error) : 'ok'}
+          </span>
+        </div>
+      );
+    })}
+  </div>
+);
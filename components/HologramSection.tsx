@@ -0,0 +1,391 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { Download, Loader2, Play, Square, Upload } from 'lucide-react';
+import { ARRAY_GRID } from '../constants';
+import { siteCount, trapCount } from '../services/rearrangement';
+import {
+  DEFAULT_BEAM_WAIST, MIN_SPOT_SPACING, WGSIteration, WGSResult, WGSWorkerMessage, WGS_SIZES, latticeSpots,
+} from '../services/wgs';
+import { TrapDepthMap, depthsFromIntensities } from '../services/trapDepth';
+import { downloadFile, toFilenameSlug, toNpy } from '../services/fileExport';
+import { ChartSeed, SeedControl } from './SeedControl';
+
+type PatternSource = 'array-target' | 'full-array' | 'upload';
+
+/** Trap sites on a cols × rows lattice */
+interface TrapPattern {
+  name: string;
+  cols: number;
+  rows: number;
+  sites: number[];
+}
+
+/** A finished run together with the pattern and spacing it was computed for */
+interface HologramRun {
+  pattern: TrapPattern;
+  spacing: number;
+  beamWaist: number;
+  seed: number;
+  result: WGSResult;
+}
+
+// Uploaded masks are scaled down so that one pixel is one trap and the lattice fits the hologram
+const MAX_UPLOAD_SIDE = 128;
+
+const arraySites = (mask: boolean[] | null) => {
+  const missing = new Set(ARRAY_GRID.missing);
+  return Array.from({ length: siteCount(ARRAY_GRID) }, (_, site) => site)
+    .filter(site => !missing.has(site) && (mask ? mask[site] : true));
+};
+
+/** Bright, opaque pixels of an image become traps */
+const readMaskImage = async (file: File): Promise<TrapPattern> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_UPLOAD_SIDE / Math.max(bitmap.width, bitmap.height));
+  const cols = Math.max(1, Math.round(bitmap.width * scale));
+  const rows = Math.max(1, Math.round(bitmap.height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = cols;
+  canvas.height = rows;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.drawImage(bitmap, 0, 0, cols, rows);
+  bitmap.close();
+  const { data } = ctx.getImageData(0, 0, cols, rows);
+  const sites: number[] = [];
+  for (let site = 0; site < cols * rows; site++) {
+    const [r, g, b, a] = data.subarray(4 * site, 4 * site + 4);
+    if (a > 127 && 0.299 * r + 0.587 * g + 0.114 * b > 127) sites.push(site);
+  }
+  if (sites.length === 0) throw new Error('The mask has no bright pixels to turn into traps');
+  return { name: file.name.replace(/\.[^.]+$/, ''), cols, rows, sites };
+};
+
+const INFERNO = Array.from({ length: 256 }, (_, i) => d3.rgb(d3.interpolateInferno(i / 255)));
+
+// SLM phase as the 8-bit gray levels most SLM drivers take: 0 is 0 and 255 is just under 2π
+const drawPhase = (canvas: HTMLCanvasElement, { size, phase }: WGSResult) => {
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const image = ctx.createImageData(size, size);
+  phase.forEach((p, i) => {
+    const level = Math.floor((p / (2 * Math.PI)) * 256) & 255;
+    image.data.set([level, level, level, 255], 4 * i);
+  });
+  ctx.putImageData(image, 0, 0);
+};
+
+// Focal plane around the traps, centred on the optical axis, with √I so dim traps stay visible
+const drawReconstruction = (canvas: HTMLCanvasElement, run: HologramRun) => {
+  const { size, intensity } = run.result;
+  const margin = 2 * run.spacing;
+  const halfWidth = Math.min(size / 2 - 1, Math.ceil(((run.pattern.cols - 1) / 2) * run.spacing + margin));
+  const halfHeight = Math.min(size / 2 - 1, Math.ceil(((run.pattern.rows - 1) / 2) * run.spacing + margin));
+  const width = 2 * halfWidth + 1;
+  const height = 2 * halfHeight + 1;
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const image = ctx.createImageData(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const fx = (x - halfWidth + size) % size;
+      const fy = (y - halfHeight + size) % size;
+      const { r, g, b } = INFERNO[Math.round(255 * Math.sqrt(intensity[fy * size + fx]))];
+      image.data.set([r, g, b, 255], 4 * (y * width + x));
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+const HologramStat: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="bg-slate-900/60 rounded-lg px-3 py-2 border border-slate-700" title={hint}>
+    <div className="text-[10px] uppercase tracking-wider text-slate-500">{label}</div>
+    <div className="font-mono text-sm text-slate-200">{value}</div>
+  </div>
+);
+
+// Computes an SLM phase mask for a trap pattern with weighted Gerchberg–Saxton in a Web Worker,
+// and shows the mask, the focal plane it produces, and how uniformity and efficiency converge
+export const HologramSection: React.FC<{
+  /** Target pattern of the array view, indexed like ARRAY_GRID's sites */
+  arrayTarget: boolean[] | null;
+  seed: ChartSeed;
+  /** Trap depths implied by each finished hologram */
+  onDepthsChange?: (depths: TrapDepthMap) => void;
+}> = ({ arrayTarget, seed, onDepthsChange }) => {
+  const [source, setSource] = useState<PatternSource>(arrayTarget ? 'array-target' : 'full-array');
+  const [uploaded, setUploaded] = useState<TrapPattern | null>(null);
+  const [size, setSize] = useState(512);
+  const [iterations, setIterations] = useState(30);
+  const [beamWaist, setBeamWaist] = useState(DEFAULT_BEAM_WAIST);
+  const [running, setRunning] = useState(false);
+  const [history, setHistory] = useState<WGSIteration[]>([]);
+  const [run, setRun] = useState<HologramRun | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const phaseCanvasRef = useRef<HTMLCanvasElement>(null);
+  const reconstructionCanvasRef = useRef<HTMLCanvasElement>(null);
+
+  const pattern = useMemo<TrapPattern | null>(() => {
+    if (source === 'upload') return uploaded;
+    const mask = source === 'array-target' ? arrayTarget : null;
+    return {
+      name: mask ? 'array-target' : 'full-array',
+      cols: ARRAY_GRID.cols,
+      rows: ARRAY_GRID.rows,
+      sites: arraySites(mask),
+    };
+  }, [source, uploaded, arrayTarget]);
+  const layout = useMemo(() => (pattern ? latticeSpots(pattern.cols, pattern.rows, pattern.sites, size) : null), [pattern, size]);
+
+  const stop = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setRunning(false);
+  };
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  useEffect(() => {
+    if (run && phaseCanvasRef.current) drawPhase(phaseCanvasRef.current, run.result);
+    if (run && reconstructionCanvasRef.current) drawReconstruction(reconstructionCanvasRef.current, run);
+  }, [run]);
+
+  const start = () => {
+    if (!pattern || !layout) return;
+    stop();
+    setError(null);
+    setHistory([]);
+    const worker = new Worker(new URL('../services/wgs.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    const request = { size, spots: layout.pixels, iterations, beamWaist, seed: seed.value };
+    worker.onmessage = (event: MessageEvent<WGSWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'iteration') {
+        setHistory(prev => [...prev, message.step]);
+        return;
+      }
+      if (message.type === 'done') {
+        setRun({ pattern, spacing: layout.spacing, beamWaist, seed: seed.value, result: message.result });
+        onDepthsChange?.(depthsFromIntensities(pattern.cols, pattern.rows, pattern.sites, message.result.spotIntensity));
+      } else {
+        setError(message.message);
+      }
+      stop();
+    };
+    worker.onerror = (event) => {
+      console.error("Failed to run WGS:", event.message);
+      setError(event.message || 'The hologram worker stopped unexpectedly');
+      stop();
+    };
+    setRunning(true);
+    worker.postMessage(request);
+  };
+
+  const handleUpload = async (file: File) => {
+    try {
+      setUploaded(await readMaskImage(file));
+      setSource('upload');
+      setError(null);
+    } catch (err) {
+      console.error("Failed to read mask:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const filename = (extension: string) =>
+    `wgs-phase-${toFilenameSlug(run?.pattern.name ?? 'pattern')}-${run?.result.size}.${extension}`;
+
+  const exportPng = () => {
+    phaseCanvasRef.current?.toBlob(blob => blob && downloadFile(filename('png'), blob, 'image/png'), 'image/png');
+  };
+
+  const exportNpy = () => {
+    if (!run) return;
+    downloadFile(filename('npy'), toNpy(run.result.phase, [run.result.size, run.result.size]), 'application/octet-stream');
+  };
+
+  const chartData = history.map(step => ({
+    iteration: step.iteration,
+    uniformity: parseFloat((100 * step.uniformity).toFixed(3)),
+    efficiency: parseFloat((100 * step.efficiency).toFixed(3)),
+  }));
+  const final = run?.result.history[run.result.history.length - 1];
+  const lastStep = history[history.length - 1];
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700 flex flex-col gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-x-6 gap-y-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">Trap pattern</label>
+            <div className="flex gap-2">
+              <select
+                value={source}
+                onChange={(e) => setSource(e.target.value as PatternSource)}
+                className="flex-1 bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-indigo-500"
+              >
+                <option value="array-target" disabled={!arrayTarget}>Array view target</option>
+                <option value="full-array">Full array ({trapCount(ARRAY_GRID).toLocaleString()} sites)</option>
+                <option value="upload" disabled={!uploaded}>{uploaded ? `Mask: ${uploaded.name}` : 'Uploaded mask'}</option>
+              </select>
+              <label className="p-1.5 rounded bg-slate-700 hover:bg-slate-600 text-slate-200 cursor-pointer" title="Upload a mask image (bright pixels are traps)">
+                <Upload size={16} />
+                <input
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleUpload(file);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">Hologram size</label>
+            <select
+              value={size}
+              onChange={(e) => setSize(parseInt(e.target.value, 10))}
+              className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-indigo-500"
+            >
+              {WGS_SIZES.map(n => <option key={n} value={n}>{n} × {n} px</option>)}
+            </select>
+          </div>
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <label className="text-sm font-medium text-slate-300">Iterations</label>
+              <span className="text-indigo-400 font-mono">{iterations}</span>
+            </div>
+            <input type="range" min={1} max={200} step={1} value={iterations} onChange={(e) => setIterations(parseInt(e.target.value, 10))} className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
+          </div>
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <label className="text-sm font-medium text-slate-300" title="1/e amplitude radius of the beam on the SLM">Beam waist</label>
+              <span className="text-indigo-400 font-mono">{(100 * beamWaist).toFixed(0)}% of SLM</span>
+            </div>
+            <input type="range" min={0.1} max={0.7} step={0.01} value={beamWaist} onChange={(e) => setBeamWaist(parseFloat(e.target.value))} className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="text-xs text-slate-400">
+            {pattern && layout
+              ? <>{pattern.sites.length.toLocaleString()} traps on a {pattern.cols} × {pattern.rows} lattice, {layout.spacing} px apart in the focal plane</>
+              : pattern
+                ? <span className="text-amber-400">The {pattern.cols} × {pattern.rows} lattice needs traps at least {MIN_SPOT_SPACING} px apart; choose a larger hologram.</span>
+                : 'Upload a mask image to use it as the trap pattern.'}
+          </div>
+          <div className="flex items-center gap-3">
+            <SeedControl seed={seed} />
+            {running ? (
+              <button onClick={stop} className="flex items-center gap-1 px-3 py-1.5 text-sm rounded bg-slate-700 hover:bg-slate-600 text-slate-200">
+                <Square size={14} /> Stop
+              </button>
+            ) : (
+              <button
+                onClick={start}
+                disabled={!layout || pattern?.sites.length === 0}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm rounded bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Play size={14} /> Run WGS
+              </button>
+            )}
+          </div>
+        </div>
+        {running && (
+          <div className="flex items-center gap-3 text-xs text-slate-400">
+            <Loader2 size={14} className="animate-spin text-indigo-400" />
+            <div className="flex-1 bg-slate-700 h-1.5 rounded-full overflow-hidden">
+              <div className="bg-indigo-500 h-full transition-all" style={{ width: `${(100 * (lastStep?.iteration ?? 0)) / iterations}%` }} />
+            </div>
+            <span className="font-mono">Iteration {lastStep?.iteration ?? 0} / {iterations}</span>
+          </div>
+        )}
+        {error && <div className="text-xs text-red-400">{error}</div>}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700 flex flex-col gap-3">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-semibold text-slate-200">SLM phase mask</h4>
+            <div className="flex gap-2">
+              <button onClick={exportPng} disabled={!run} className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-slate-700 hover:bg-slate-600 text-slate-200 disabled:opacity-50" title="8-bit grayscale, 0–255 over 0–2π">
+                <Download size={12} /> PNG
+              </button>
+              <button onClick={exportNpy} disabled={!run} className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-slate-700 hover:bg-slate-600 text-slate-200 disabled:opacity-50" title="float32 phase in radians, for numpy.load">
+                <Download size={12} /> NPY
+              </button>
+            </div>
+          </div>
+          <div className="aspect-square bg-slate-950 rounded-lg overflow-hidden flex items-center justify-center">
+            {run
+              ? <canvas ref={phaseCanvasRef} className="w-full h-full" style={{ imageRendering: 'pixelated' }} />
+              : <span className="text-sm text-slate-500">Run WGS to compute a hologram</span>}
+          </div>
+          {run && <div className="text-xs text-slate-500">{run.result.size} × {run.result.size} px, black 0 to white 2π, beam waist {(100 * run.beamWaist).toFixed(0)}%, seed {run.seed}</div>}
+        </div>
+
+        <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700 flex flex-col gap-3">
+          <h4 className="text-sm font-semibold text-slate-200">Reconstructed intensity</h4>
+          <div className="aspect-square bg-slate-950 rounded-lg overflow-hidden flex items-center justify-center">
+            {run
+              ? <canvas ref={reconstructionCanvasRef} className="max-w-full max-h-full w-full object-contain" style={{ imageRendering: 'pixelated' }} />
+              : <span className="text-sm text-slate-500">The focal plane appears here</span>}
+          </div>
+          {run && <div className="text-xs text-slate-500">Focal plane around the traps, √I; the zero order sits at the centre</div>}
+        </div>
+      </div>
+
+      <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700 flex flex-col gap-4">
+        <div className="flex flex-wrap items-baseline justify-between gap-2">
+          <h4 className="text-sm font-semibold text-slate-200">Convergence</h4>
+          {final && (
+            <div className="grid grid-cols-3 gap-2">
+              <HologramStat label="Uniformity" value={`${(100 * final.uniformity).toFixed(2)}%`} hint="1 − (Imax − Imin)/(Imax + Imin) over the traps" />
+              <HologramStat label="Efficiency" value={`${(100 * final.efficiency).toFixed(1)}%`} hint="Fraction of the light in the traps" />
+              <HologramStat label="Std / mean" value={`${(100 * final.spread).toFixed(2)}%`} hint="Spread of the trap intensities" />
+            </div>
+          )}
+        </div>
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData} margin={{ left: 10, right: 20, bottom: 10 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" opacity={0.5} />
+              <XAxis
+                dataKey="iteration"
+                type="number"
+                domain={[0, 'dataMax']}
+                allowDecimals={false}
+                stroke="#94a3b8"
+                tick={{ fill: '#94a3b8', fontSize: 11 }}
+                label={{ value: 'Iteration', position: 'insideBottom', offset: -5, fill: '#94a3b8', fontSize: 11 }}
+              />
+              <YAxis
+                domain={[0, 100]}
+                stroke="#94a3b8"
+                tick={{ fill: '#94a3b8', fontSize: 11 }}
+                label={{ value: '%', angle: -90, position: 'insideLeft', fill: '#94a3b8', fontSize: 11 }}
+              />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', color: '#f1f5f9' }}
+                labelFormatter={(label) => `Iteration ${label}`}
+                formatter={(value: number, name: string) => [`${value.toFixed(2)}%`, name]}
+              />
+              <Legend verticalAlign="top" height={28} wrapperStyle={{ fontSize: '11px' }} />
+              <Line type="monotone" dataKey="uniformity" name="Uniformity" stroke="#818cf8" strokeWidth={2} dot={false} isAnimationActive={false} />
+              <Line type="monotone" dataKey="efficiency" name="Efficiency" stroke="#34d399" strokeWidth={2} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
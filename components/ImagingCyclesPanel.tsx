@@ -0,0 +1,137 @@
+import React, { useMemo } from 'react';
+import { ComposedChart, Line, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from 'recharts';
+import { Camera, Pause, Play, RotateCcw } from 'lucide-react';
+import { ImagingLossParams, cycleSurvival, expectedSurvivors } from '../services/imagingLoss';
+import { formatFactValue, getFact } from '../paperFacts';
+import { LogSlider } from './LogSlider';
+
+// Enough points for a smooth curve without redrawing thousands of them while the run plays
+const CHART_POINTS = 200;
+
+// Repeated imaging of the array: loss controls, playback, and the surviving-atom count against
+// cycle number beside the analytic N₀·sᵏ with its binomial ±2σ band
+export const ImagingCyclesPanel: React.FC<{
+  params: ImagingLossParams;
+  onParamsChange: (params: ImagingLossParams) => void;
+  cycles: number;
+  onCyclesChange: (cycles: number) => void;
+  /** Atoms left after each cycle of the simulated run */
+  counts: number[];
+  /** Last cycle shown on the array */
+  cycle: number;
+  playing: boolean;
+  onPlayingChange: (playing: boolean) => void;
+  onReset: () => void;
+}> = ({ params, onParamsChange, cycles, onCyclesChange, counts, cycle, playing, onPlayingChange, onReset }) => {
+  const atoms = counts[0] ?? 0;
+  const survival = cycleSurvival(params);
+
+  const data = useMemo(() => {
+    const stride = Math.max(1, Math.ceil(cycles / CHART_POINTS));
+    const points = [];
+    for (let k = 0; k <= cycles; k += stride) points.push(k);
+    if (points[points.length - 1] !== cycles) points.push(cycles);
+    return points.map(k => {
+      const { mean, sigma } = expectedSurvivors(atoms, k, params);
+      return {
+        cycle: k,
+        simulated: k <= cycle ? counts[k] : null,
+        expected: parseFloat(mean.toFixed(2)),
+        band: [parseFloat((mean - 2 * sigma).toFixed(2)), parseFloat((mean + 2 * sigma).toFixed(2))],
+      };
+    });
+  }, [atoms, counts, cycles, cycle, params]);
+
+  const expectedNow = expectedSurvivors(atoms, cycle, params);
+  const imagingSurvival = getFact('imaging-survival');
+
+  return (
+    <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700 flex flex-col gap-4">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <h4 className="text-sm font-semibold text-slate-200 flex items-center gap-2">
+          <Camera className="w-4 h-4 text-indigo-400" /> Repeated imaging
+        </h4>
+        <span className="text-xs text-slate-400">
+          Survival per cycle s = <span className="font-mono text-slate-200">{(100 * survival).toFixed(5)}%</span>
+          <span className="text-slate-500"> (paper: {formatFactValue(imagingSurvival)} per image)</span>
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-x-6 gap-y-4 items-end">
+        <LogSlider label="Imaging cycles" value={cycles} min={10} max={100_000} format={(v) => Math.round(v).toLocaleString()} onChange={(v) => onCyclesChange(Math.round(v))} />
+        <LogSlider
+          label="Loss per image"
+          value={1 - params.imageSurvival}
+          min={1e-6}
+          max={1e-2}
+          format={(v) => `${(100 * v).toPrecision(3)}%`}
+          onChange={(v) => onParamsChange({ ...params, imageSurvival: 1 - v })}
+        />
+        <LogSlider
+          label="Time between images"
+          value={params.interval}
+          min={1e-3}
+          max={10}
+          format={(v) => (v < 1 ? `${(1000 * v).toPrecision(3)} ms` : `${v.toPrecision(3)} s`)}
+          onChange={(interval) => onParamsChange({ ...params, interval })}
+        />
+        <LogSlider
+          label="Vacuum lifetime"
+          value={params.lifetime / 60}
+          min={0.5}
+          max={120}
+          format={(v) => `${v.toPrecision(3)} min`}
+          onChange={(v) => onParamsChange({ ...params, lifetime: v * 60 })}
+        />
+        <div className="flex gap-2 justify-end">
+          <button
+            onClick={() => onPlayingChange(!playing)}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm rounded bg-indigo-600 hover:bg-indigo-500 text-white"
+          >
+            {playing ? <Pause size={14} /> : <Play size={14} />} {playing ? 'Pause' : 'Image'}
+          </button>
+          <button onClick={onReset} className="p-1.5 rounded bg-slate-700 hover:bg-slate-600 text-slate-200" title="Back to the first image">
+            <RotateCcw size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data} margin={{ left: 10, right: 20, bottom: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" opacity={0.5} />
+            <XAxis
+              dataKey="cycle"
+              type="number"
+              domain={[0, cycles]}
+              stroke="#94a3b8"
+              tick={{ fill: '#94a3b8', fontSize: 11 }}
+              label={{ value: 'Imaging cycle', position: 'insideBottom', offset: -5, fill: '#94a3b8', fontSize: 11 }}
+            />
+            <YAxis
+              domain={['auto', 'auto']}
+              stroke="#94a3b8"
+              tick={{ fill: '#94a3b8', fontSize: 11 }}
+              label={{ value: 'Atoms', angle: -90, position: 'insideLeft', fill: '#94a3b8', fontSize: 11 }}
+            />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', color: '#f1f5f9' }}
+              labelFormatter={(label) => `Cycle ${label}`}
+              formatter={(value: number | number[], name: string) =>
+                [Array.isArray(value) ? `${value[0].toFixed(0)} – ${value[1].toFixed(0)}` : value.toLocaleString(undefined, { maximumFractionDigits: 1 }), name]}
+            />
+            <Legend verticalAlign="top" height={28} wrapperStyle={{ fontSize: '11px' }} />
+            <Area type="monotone" dataKey="band" name="±2σ" stroke="none" fill="#94a3b8" fillOpacity={0.15} isAnimationActive={false} />
+            <Line type="monotone" dataKey="expected" name="N₀·sᵏ" stroke="#94a3b8" strokeDasharray="5 5" dot={false} isAnimationActive={false} />
+            <Line type="stepAfter" dataKey="simulated" name="Simulated" stroke="#818cf8" strokeWidth={2} dot={false} isAnimationActive={false} />
+            {cycle > 0 && cycle < cycles && <ReferenceLine x={cycle} stroke="#818cf8" strokeDasharray="2 2" />}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="text-xs text-slate-400 text-center">
+        After {cycle.toLocaleString()} images: <strong className="font-mono text-indigo-300">{(counts[cycle] ?? atoms).toLocaleString()}</strong> atoms,
+        expected <span className="font-mono">{expectedNow.mean.toFixed(1)} ± {expectedNow.sigma.toFixed(1)}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,27 @@
+import React from 'react';
+
+// Slider over log10 of the value, for parameters spanning several decades
+export const LogSlider: React.FC<{
+    label: string;
+    value: number;
+    min: number;
+    max: number;
+    format: (value: number) => string;
+    onChange: (value: number) => void;
+}> = ({ label, value, min, max, format, onChange }) => (
+    <div>
+        <div className="flex justify-between items-center mb-2">
+            <label className="text-sm font-medium text-slate-300">{label}</label>
+            <span className="text-indigo-400 font-mono">{format(value)}</span>
+        </div>
+        <input
+            type="range"
+            min={Math.log10(min)}
+            max={Math.log10(max)}
+            step={0.01}
+            value={Math.log10(value)}
+            onChange={(e) => onChange(10 ** parseFloat(e.target.value))}
+            className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+        />
+    </div>
+);
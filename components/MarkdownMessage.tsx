@@ -0,0 +1,119 @@
+import React, { useMemo, useRef, useState } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import { Copy, Check, BookOpen } from 'lucide-react';
+import { FACTS_BY_ID, formatFactValue } from '../paperFacts';
+import { PaperFact } from '../types';
+
+// Raw HTML in model output is never rendered (react-markdown escapes it), and the generated
+// tree is sanitized before KaTeX runs, so only KaTeX's own markup reaches the DOM.
+const sanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [['className', /^language-./, 'math-inline', 'math-display']],
+  },
+};
+
+const CodeBlock: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(preRef.current?.innerText ?? '');
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="relative group my-3">
+      <button
+        onClick={handleCopy}
+        className="absolute top-2 right-2 p-1.5 rounded bg-slate-800 border border-slate-700 text-slate-400 hover:text-slate-200 opacity-0 group-hover:opacity-100 transition-opacity"
+        title="Copy code"
+      >
+        {copied ? <Check className="w-3 h-3 text-green-400" /> : <Copy className="w-3 h-3" />}
+      </button>
+      <pre ref={preRef} className="bg-slate-950 border border-slate-700 rounded-lg p-3 overflow-x-auto text-xs font-mono text-slate-200">
+        {children}
+      </pre>
+    </div>
+  );
+};
+
+const FACT_HREF_PREFIX = '#fact-';
+
+// Citation tags like [fact:t2] become links that the `a` renderer turns into chips.
+// Unknown IDs are left as plain text so hallucinated citations are visible as such.
+const linkFactCitations = (text: string) =>
+  text.replace(/\[fact:([a-z0-9-]+)\]/g, (match, id: string) =>
+    FACTS_BY_ID[id] ? `[${id}](${FACT_HREF_PREFIX}${id})` : match
+  );
+
+const FactChip: React.FC<{ fact: PaperFact; onClick?: (fact: PaperFact) => void }> = ({ fact, onClick }) => (
+  <button
+    onClick={() => onClick?.(fact)}
+    title={`${fact.statement} (${fact.reference})`}
+    className="inline-flex items-center gap-1 mx-0.5 px-1.5 py-0.5 rounded-md bg-indigo-500/10 border border-indigo-500/30 text-[11px] font-medium text-indigo-300 hover:bg-indigo-500/20 hover:text-indigo-200 align-baseline transition-colors"
+  >
+    <BookOpen className="w-3 h-3" />
+    {fact.value !== undefined ? formatFactValue(fact) : fact.label}
+    <span className="text-indigo-400/60">· {fact.reference}</span>
+  </button>
+);
+
+const Link: React.FC<{ href?: string; children?: React.ReactNode }> = ({ href, children }) => (
+  <a href={href} target="_blank" rel="noopener noreferrer" className="text-indigo-400 hover:text-indigo-300 underline">{children}</a>
+);
+
+const baseComponents: Components = {
+  p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+  ul: ({ children }) => <ul className="list-disc pl-5 mb-2 space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-5 mb-2 space-y-1">{children}</ol>,
+  h1: ({ children }) => <h4 className="text-base font-semibold text-slate-100 mt-3 mb-2">{children}</h4>,
+  h2: ({ children }) => <h4 className="text-base font-semibold text-slate-100 mt-3 mb-2">{children}</h4>,
+  h3: ({ children }) => <h5 className="text-sm font-semibold text-slate-100 mt-3 mb-1">{children}</h5>,
+  blockquote: ({ children }) => <blockquote className="border-l-2 border-slate-600 pl-3 text-slate-400 my-2">{children}</blockquote>,
+  table: ({ children }) => (
+    <div className="overflow-x-auto my-3">
+      <table className="text-xs border-collapse w-full">{children}</table>
+    </div>
+  ),
+  th: ({ children }) => <th className="border border-slate-700 bg-slate-900 px-2 py-1 text-left font-semibold">{children}</th>,
+  td: ({ children }) => <td className="border border-slate-700 px-2 py-1">{children}</td>,
+  pre: ({ children }) => <CodeBlock>{children}</CodeBlock>,
+  code: ({ className, children }) => {
+    // Fenced blocks are wrapped by `pre` above; only inline code gets the pill styling
+    if (className?.startsWith('language-')) return <code className={className}>{children}</code>;
+    return <code className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-[0.85em] font-mono text-indigo-300">{children}</code>;
+  },
+};
+
+export const MarkdownMessage: React.FC<{
+    text: string;
+    onCiteFact?: (fact: PaperFact) => void;
+}> = ({ text, onCiteFact }) => {
+  const components = useMemo<Components>(() => ({
+    ...baseComponents,
+    a: ({ href, children }) => {
+      const factId = href?.startsWith(FACT_HREF_PREFIX) ? href.slice(FACT_HREF_PREFIX.length) : null;
+      if (factId && FACTS_BY_ID[factId]) return <FactChip fact={FACTS_BY_ID[factId]} onClick={onCiteFact} />;
+      return <Link href={href}>{children}</Link>;
+    },
+  }), [onCiteFact]);
+
+  return (
+    <div className="text-sm leading-relaxed break-words">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[[rehypeSanitize, sanitizeSchema], rehypeKatex]}
+        components={components}
+      >
+        {linkFactCitations(text)}
+      </ReactMarkdown>
+    </div>
+  );
+};
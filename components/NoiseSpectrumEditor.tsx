@@ -0,0 +1,129 @@
+import React, { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer } from 'recharts';
+import { Plus, Trash2, RotateCcw } from 'lucide-react';
+import { DEFAULT_NOISE_SPECTRUM, NoisePeak, NoiseSpectrum, noiseDensity } from '../services/decoupling';
+import { LogSlider } from './LogSlider';
+
+const PSD_POINTS = 200;
+const PSD_RANGE_HZ: [number, number] = [1e-3, 1e3];
+
+const formatDensity = (value: number) => value.toExponential(1);
+
+// Controls for the dephasing-noise spectrum behind the coherence chart, with a log-log preview
+export const NoiseSpectrumEditor: React.FC<{
+  noise: NoiseSpectrum;
+  onChange: (noise: NoiseSpectrum) => void;
+}> = ({ noise, onChange }) => {
+  const psd = useMemo(() => {
+    const [lo, hi] = PSD_RANGE_HZ.map(Math.log10);
+    return Array.from({ length: PSD_POINTS }, (_, i) => {
+      const frequency = 10 ** (lo + ((hi - lo) * i) / (PSD_POINTS - 1));
+      return { frequency, density: noiseDensity(noise, 2 * Math.PI * frequency) };
+    });
+  }, [noise]);
+
+  const updatePeak = (index: number, patch: Partial<NoisePeak>) =>
+    onChange({ ...noise, peaks: noise.peaks.map((p, i) => (i === index ? { ...p, ...patch } : p)) });
+
+  const numberInput = (value: number, onValue: (v: number) => void) => (
+    <input
+      type="number"
+      value={value}
+      min={0}
+      step="any"
+      onChange={(e) => {
+        const v = parseFloat(e.target.value);
+        if (Number.isFinite(v) && v > 0) onValue(v);
+      }}
+      className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-slate-200 focus:outline-none focus:border-indigo-500"
+    />
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="h-32">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={psd} margin={{ top: 5, right: 10, bottom: 0, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" opacity={0.5} />
+            <XAxis
+              dataKey="frequency"
+              type="number"
+              scale="log"
+              domain={PSD_RANGE_HZ}
+              ticks={[1e-3, 1e-1, 1e1, 1e3]}
+              tickFormatter={(v: number) => `${v} Hz`}
+              stroke="#94a3b8"
+              tick={{ fill: '#94a3b8', fontSize: 10 }}
+            />
+            <YAxis
+              dataKey="density"
+              scale="log"
+              domain={['auto', 'auto']}
+              tickFormatter={formatDensity}
+              stroke="#94a3b8"
+              tick={{ fill: '#94a3b8', fontSize: 10 }}
+              width={55}
+            />
+            <Line type="monotone" dataKey="density" stroke="#a78bfa" strokeWidth={2} dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <LogSlider
+          label="White floor (s⁻¹)"
+          value={noise.white}
+          min={1e-4}
+          max={10}
+          format={formatDensity}
+          onChange={(white) => onChange({ ...noise, white })}
+        />
+        <LogSlider
+          label="1/f amplitude (s⁻²)"
+          value={noise.oneOverF}
+          min={1e-4}
+          max={10}
+          format={formatDensity}
+          onChange={(oneOverF) => onChange({ ...noise, oneOverF })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="grid grid-cols-[1fr_1fr_1fr_2rem] gap-2 text-[10px] uppercase tracking-wide text-slate-500">
+          <span>Peak (Hz)</span>
+          <span>Width (Hz)</span>
+          <span>Density (s⁻¹)</span>
+          <span />
+        </div>
+        {noise.peaks.map((peak, i) => (
+          <div key={i} className="grid grid-cols-[1fr_1fr_1fr_2rem] gap-2 items-center">
+            {numberInput(peak.frequency, frequency => updatePeak(i, { frequency }))}
+            {numberInput(peak.width, width => updatePeak(i, { width }))}
+            {numberInput(parseFloat(peak.amplitude.toPrecision(3)), amplitude => updatePeak(i, { amplitude }))}
+            <button
+              onClick={() => onChange({ ...noise, peaks: noise.peaks.filter((_, j) => j !== i) })}
+              className="p-1 text-slate-500 hover:text-red-400"
+              title="Remove peak"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <button
+            onClick={() => onChange({ ...noise, peaks: [...noise.peaks, { frequency: 10, width: 0.5, amplitude: noise.white }] })}
+            className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-slate-700 hover:bg-slate-600 text-slate-200"
+          >
+            <Plus size={12} /> Add peak
+          </button>
+          <button
+            onClick={() => onChange(DEFAULT_NOISE_SPECTRUM)}
+            className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-slate-800 hover:bg-slate-700 text-slate-400"
+          >
+            <RotateCcw size={12} /> Reset to calibrated spectrum
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
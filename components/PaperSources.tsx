@@ -0,0 +1,105 @@
+import React, { useRef, useState } from 'react';
+import { FileUp, Library, X, ChevronDown, ChevronRight } from 'lucide-react';
+import { CorpusDocument } from '../services/retrieval';
+import { RetrievedPassage } from '../types';
+
+const ACCEPTED_EXTENSIONS = ['.txt', '.md', '.markdown', '.tex'];
+const ACCEPTED_MIME_TYPES = ['text/plain', 'text/markdown', 'text/x-markdown', 'text/x-tex'];
+const ACCEPTED_TYPES = [...ACCEPTED_EXTENSIONS, ...ACCEPTED_MIME_TYPES].join(',');
+
+const isCorpusFile = (file: File) =>
+  ACCEPTED_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext)) || ACCEPTED_MIME_TYPES.includes(file.type);
+
+// Dropped files skip the picker's filter, so both paths check the type here; a PDF read as text
+// would only index binary noise
+export const readCorpusFiles = async (files: FileList | File[]): Promise<CorpusDocument[]> => {
+  const rejected = Array.from(files).filter(file => !isCorpusFile(file));
+  if (rejected.length > 0) {
+    throw new Error(`${rejected.map(f => f.name).join(', ')} ${rejected.length > 1 ? 'are' : 'is'} not plain text. Load a .txt, .md or .tex export of the paper.`);
+  }
+  return Promise.all(Array.from(files).map(async file => ({ name: file.name, text: await file.text() })));
+};
+
+// Strip above the chat transcript: shows the loaded paper text and accepts new files
+export const PaperCorpusBar: React.FC<{
+    documents: CorpusDocument[];
+    passageCount: number;
+    onAdd: (files: FileList) => void;
+    onClear: () => void;
+}> = ({ documents, passageCount, onAdd, onClear }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="px-4 py-2 bg-slate-900/60 border-b border-slate-700 flex items-center gap-2 text-xs text-slate-400">
+      <Library className="w-3.5 h-3.5 shrink-0 text-slate-500" />
+      {documents.length === 0 ? (
+        <span className="truncate">Full paper text not loaded. Drop a .txt or .md export of the paper and supplement here to answer beyond the key facts.</span>
+      ) : (
+        <span className="truncate" title={documents.map(d => d.name).join(', ')}>
+          {documents.length} document{documents.length > 1 ? 's' : ''} · {passageCount} passages indexed
+        </span>
+      )}
+      <div className="ml-auto flex items-center gap-2 shrink-0">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1 px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-slate-300 transition-colors"
+        >
+          <FileUp className="w-3 h-3" /> Load text
+        </button>
+        {documents.length > 0 && (
+          <button onClick={onClear} className="p-1 rounded hover:bg-slate-800 hover:text-rose-400 transition-colors" title="Remove loaded text">
+            <X className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        multiple
+        accept={ACCEPTED_TYPES}
+        className="hidden"
+        onChange={(e) => {
+          if (e.target.files?.length) onAdd(e.target.files);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+};
+
+// Expandable list of the passages that grounded an answer
+export const MessageSources: React.FC<{ sources: RetrievedPassage[] }> = ({ sources }) => {
+  const [open, setOpen] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  return (
+    <div className="text-xs">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 text-slate-400 hover:text-slate-200 transition-colors"
+      >
+        {open ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        Sources ({sources.length})
+      </button>
+      {open && (
+        <div className="mt-2 space-y-1">
+          {sources.map(src => (
+            <div key={src.tag} className="rounded-lg border border-slate-700 bg-slate-900/60">
+              <button
+                onClick={() => setExpanded(expanded === src.tag ? null : src.tag)}
+                className="w-full flex items-center gap-2 px-2 py-1.5 text-left text-slate-300 hover:text-white"
+              >
+                <span className="font-mono text-indigo-300">[{src.tag}]</span>
+                <span className="truncate">{src.source}{src.section ? ` · ${src.section}` : ''}</span>
+                <span className="ml-auto text-slate-500 font-mono shrink-0">{src.score.toFixed(1)}</span>
+              </button>
+              {expanded === src.tag && (
+                <p className="px-2 pb-2 text-slate-400 whitespace-pre-wrap leading-relaxed">{src.text}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
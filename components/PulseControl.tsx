@@ -1,279 +1,352 @@
-import React, { useState, useEffect, useRef } from 'react';
-import * as d3 from 'd3';
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  COMPOSITE_PULSES, CUSTOM_PULSE_COLOR, CUSTOM_PULSE_ID, DEG, PulseSegment, PulseSequence,
+  PulseErrors, loadCustomSequence, saveCustomSequence, sequenceStateFidelity, sequenceUnitary, simulateTrajectory,
+} from '../services/compositePulses';
+import { PULSE_DETUNING_LIMIT, PULSE_ERROR_LIMIT, PULSE_PHASE_ERROR_LIMIT } from '../services/assistantTools';
+import { PulseErrorSettings, PulsePreset, readPresetFromUrl } from '../services/pulsePresets';
+import { blochLength, mixedStateFidelity, simulateOpenTrajectory } from '../services/lindblad';
+import { DEFAULT_DECOHERENCE_PARAMS } from '../constants';
+import { DecoherenceParams } from '../types';
+import { Vec3, apply, blochVector, stateFromBloch } from '../services/quantum';
+import { PulseSequenceEditor } from './PulseSequenceEditor';
+import { PulseRobustnessChart } from './PulseRobustnessChart';
+import { PulsePresetBar } from './PulsePresets';
+import { BlochSphere } from './BlochSphere';
+import { LogSlider } from './LogSlider';
 
-export const PulseControl: React.FC = () => {
-  const [errorRate, setErrorRate] = useState(0); // -0.2 to 0.2
-  const svgRef = useRef<SVGSVGElement>(null);
+const formatSegments = (segments: PulseSegment[]) =>
+  segments
+    .map(seg => `${(seg.theta / DEG).toFixed(1)}°(${((((seg.phi / DEG) % 360) + 360) % 360).toFixed(1)}°)`)
+    .join(' · ');
 
-  useEffect(() => {
-    if (!svgRef.current) return;
-    const width = 500;
-    const height = 400;
-    const radius = 120;
-    const centerX = width / 2;
-    const centerY = height / 2;
+const formatDuration = (seconds: number) => {
+  if (seconds < 1e-3) return `${(seconds * 1e6).toFixed(1)} µs`;
+  if (seconds < 1) return `${(seconds * 1e3).toFixed(1)} ms`;
+  if (seconds < 120) return `${seconds.toFixed(2)} s`;
+  return `${(seconds / 60).toFixed(1)} min`;
+};
 
-    const svg = d3.select(svgRef.current);
-    svg.selectAll("*").remove();
+const formatFrequency = (hz: number) => (hz >= 1000 ? `${(hz / 1000).toFixed(hz >= 1e4 ? 0 : 1)} kHz` : `${hz.toFixed(hz >= 10 ? 0 : 1)} Hz`);
 
-    // --- 3D Projection Logic ---
-    // Project 3D sphere coords (x,y,z) to 2D svg coords
-    const project = (x: number, y: number, z: number) => {
-      // Rotate view slightly to see depth
-      const tilt = 0.4; 
-      const rot = 0.5;
-      
-      // Rotate around Y
-      const x1 = x * Math.cos(rot) - z * Math.sin(rot);
-      const z1 = x * Math.sin(rot) + z * Math.cos(rot);
-      
-      // Rotate around X (tilt)
-      const y2 = y * Math.cos(tilt) - z1 * Math.sin(tilt);
-      
-      return {
-        cx: centerX + x1,
-        cy: centerY + y2
-      };
-    };
+const SequenceStats: React.FC<{ fidelity: number; duration?: number; purity?: number }> = ({ fidelity, duration, purity }) => (
+    <span className="ml-2 font-mono text-xs text-slate-400 font-normal">
+        F = {(fidelity * 100).toFixed(3)}%
+        {duration !== undefined && <> · t = {formatDuration(duration)}</>}
+        {purity !== undefined && <> · |r| = {purity.toFixed(4)}</>}
+    </span>
+);
 
-    // Draw Sphere Wireframe
-    const drawSphere = () => {
-      // Equator
-      const equatorPath = d3.path();
-      for (let t = 0; t <= Math.PI * 2; t += 0.1) {
-        const p = project(radius * Math.cos(t), 0, radius * Math.sin(t));
-        t === 0 ? equatorPath.moveTo(p.cx, p.cy) : equatorPath.lineTo(p.cx, p.cy);
-      }
-      svg.append("path").attr("d", equatorPath.toString()).attr("stroke", "#334155").attr("fill", "none").attr("stroke-dasharray", "4");
+const ErrorSlider: React.FC<{
+    label: string;
+    value: number;
+    limit: number;
+    step: number;
+    format: (value: number) => string;
+    onChange: (value: number) => void;
+}> = ({ label, value, limit, step, format, onChange }) => (
+    <div>
+        <div className="flex justify-between items-center mb-2">
+            <label className="text-sm font-medium text-slate-300">{label}</label>
+            <span className="text-indigo-400 font-mono">{format(value)}</span>
+        </div>
+        <input
+            type="range"
+            min={-limit}
+            max={limit}
+            step={step}
+            value={value}
+            onChange={(e) => onChange(parseFloat(e.target.value))}
+            className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+        />
+    </div>
+);
 
-      // Meridians
-      const meridianPath = d3.path();
-      for (let t = 0; t <= Math.PI * 2; t += 0.1) {
-        const p = project(0, radius * Math.cos(t), radius * Math.sin(t));
-        t === 0 ? meridianPath.moveTo(p.cx, p.cy) : meridianPath.lineTo(p.cx, p.cy);
-      }
-      svg.append("path").attr("d", meridianPath.toString()).attr("stroke", "#334155").attr("fill", "none").attr("stroke-opacity", 0.5);
-      
-      // Outline
-      svg.append("circle").attr("cx", centerX).attr("cy", centerY).attr("r", radius).attr("stroke", "#1e293b").attr("fill", "rgba(15, 23, 42, 0.5)");
-      
-      // Axes
-      const north = project(0, -radius, 0);
-      const south = project(0, radius, 0);
-      svg.append("line").attr("x1", south.cx).attr("y1", south.cy).attr("x2", north.cx).attr("y2", north.cy).attr("stroke", "#475569").attr("stroke-width", 1);
-      svg.append("text").attr("x", north.cx).attr("y", north.cy - 10).text("|0⟩").attr("fill", "#94a3b8").attr("text-anchor", "middle").style("font-size", "12px");
-      svg.append("text").attr("x", south.cx).attr("y", south.cy + 20).text("|1⟩").attr("fill", "#94a3b8").attr("text-anchor", "middle").style("font-size", "12px");
-    };
+export const PulseControl: React.FC<{
+    errors: PulseErrorSettings;
+    onErrorsChange: (patch: Partial<PulseErrorSettings>) => void;
+}> = ({ errors: errorSettings, onErrorsChange }) => {
+  // A shared link opened on this page preselects its target and sequences; App applies its errors
+  const [urlPreset] = useState(readPresetFromUrl);
+  const [targetDeg, setTargetDeg] = useState(urlPreset?.targetDeg ?? 180);
+  const [selectedIds, setSelectedIds] = useState<string[]>(urlPreset?.sequenceIds ?? ['simple', 'scrofulous']);
+  const [customSegments, setCustomSegments] = useState<PulseSegment[]>(loadCustomSequence);
+  const [openSystem, setOpenSystem] = useState(false);
+  const [decoherence, setDecoherence] = useState<DecoherenceParams>(DEFAULT_DECOHERENCE_PARAMS);
+  // Initial state as Bloch-sphere polar angle θ and azimuth φ, in degrees
+  const [initialDeg, setInitialDeg] = useState({ theta: 0, phi: 0 });
 
-    drawSphere();
+  useEffect(() => {
+    saveCustomSequence(customSegments);
+  }, [customSegments]);
 
-    // --- Pulse Calculations ---
-    // Start at South Pole (0, radius, 0) -> typically |0> is North in physics, but let's assume |1> to |0> transition or vice versa.
-    // Let's say Start is North |0> (0, -radius, 0). Target is South |1> (0, radius, 0).
-    // Actually, usually Bloch sphere: |0> is Top (z=+1), |1> is Bottom (z=-1).
-    // Let's visualize a Pi pulse (Flip) from Top to Bottom.
-    
-    const startVec = { x: 0, y: -radius, z: 0 }; 
+  const sequences = useMemo<PulseSequence[]>(() => {
+    const library = COMPOSITE_PULSES
+      .filter(pulse => selectedIds.includes(pulse.id))
+      .map(pulse => ({ id: pulse.id, name: pulse.name, color: pulse.color, segments: pulse.build(targetDeg * DEG) }));
+    return selectedIds.includes(CUSTOM_PULSE_ID) && customSegments.length > 0
+      ? [...library, { id: CUSTOM_PULSE_ID, name: 'Custom', color: CUSTOM_PULSE_COLOR, segments: customSegments }]
+      : library;
+  }, [selectedIds, targetDeg, customSegments]);
 
-    // Helper: Rotate vector v around axis k by angle theta
-    const rotate = (v: {x:number, y:number, z:number}, axisAngle: number, theta: number) => {
-       // Axis in XZ plane
-       const ax = Math.cos(axisAngle);
-       const az = Math.sin(axisAngle);
-       
-       // Rodrigues rotation formula simplified for axis in XZ plane
-       // v_rot = v cos(t) + (k x v) sin(t) + k(k.v)(1-cos(t))
-       
-       const c = Math.cos(theta);
-       const s = Math.sin(theta);
-       const dot = v.x * ax + v.z * az; // k.v (since ay=0)
-       
-       // Cross product k x v
-       const crossX = -az * v.y;
-       const crossY = az * v.x - ax * v.z;
-       const crossZ = ax * v.y;
+  const { pulseErrorRate, pulseDetuning, pulsePhaseError } = errorSettings;
+  const errors = useMemo<PulseErrors>(
+    () => ({ amplitude: pulseErrorRate, detuning: pulseDetuning, phase: pulsePhaseError * DEG }),
+    [pulseErrorRate, pulseDetuning, pulsePhaseError]
+  );
 
-       return {
-         x: v.x * c + crossX * s + ax * dot * (1-c),
-         y: v.y * c + crossY * s + 0, // axis.y is 0
-         z: v.z * c + crossZ * s + az * dot * (1-c)
-       };
-    };
+  const initialState = useMemo(
+    () => stateFromBloch(initialDeg.theta * DEG, initialDeg.phi * DEG),
+    [initialDeg]
+  );
+  const initialVector = useMemo(() => blochVector(initialState), [initialState]);
 
-    // 1. SIMPLE PULSE (Red)
-    // Rotate 180 degrees (Pi) around X axis (axisAngle = 0)
-    // Error scales the angle: Pi * (1 + error)
-    const simplePoints: {cx:number, cy:number}[] = [];
-    const simpleSteps = 20;
-    const simpleTotalAngle = Math.PI * (1 + errorRate);
-    
-    let currentSimple = { ...startVec };
-    for(let i=0; i<=simpleSteps; i++) {
-        const p = project(currentSimple.x, currentSimple.y, currentSimple.z);
-        simplePoints.push(p);
-        currentSimple = rotate(startVec, 0, simpleTotalAngle * (i/simpleSteps)); // 0 is X axis
-    }
+  const trajectories = useMemo(
+    () => sequences.map(seq => {
+      const ideal = blochVector(apply(sequenceUnitary(seq.segments), initialState));
+      if (openSystem) {
+        const trajectory = simulateOpenTrajectory(seq.segments, decoherence, errors, initialVector);
+        const final = trajectory.points[trajectory.points.length - 1];
+        return {
+          ...seq,
+          points: trajectory.points,
+          segmentEnds: trajectory.segmentEnds,
+          ideal,
+          fidelity: mixedStateFidelity(final, ideal),
+          duration: trajectory.duration,
+          purity: blochLength(final),
+        };
+      }
+      const trajectory = simulateTrajectory(seq.segments, errors, initialState);
+      return {
+        ...seq,
+        points: trajectory.points,
+        segmentEnds: trajectory.segmentEnds,
+        ideal,
+        fidelity: sequenceStateFidelity(seq.segments, errors, initialState),
+      };
+    }),
+    [sequences, errors, initialState, initialVector, openSystem, decoherence]
+  );
 
-    // Draw Simple Path
-    const simplePath = d3.path();
-    simplePoints.forEach((p, i) => i===0 ? simplePath.moveTo(p.cx, p.cy) : simplePath.lineTo(p.cx, p.cy));
-    svg.append("path")
-       .attr("d", simplePath.toString())
-       .attr("stroke", "#ef4444")
-       .attr("stroke-width", 3)
-       .attr("fill", "none")
-       .attr("opacity", 0.7);
+  // Replay the animation when the sequences or the start state change, not on error tweaks
+  const playbackKey = useMemo(
+    () => JSON.stringify([sequences.map(seq => seq.segments), initialDeg]),
+    [sequences, initialDeg]
+  );
 
-    // 2. SCROFULOUS PULSE (Green)
-    // Sequence for Pi rotation:
-    // 1. Theta1 = 180 deg, Phase1 = 60 deg
-    // 2. Theta2 = 360 deg, Phase2 = 300 deg
-    // 3. Theta3 = 180 deg, Phase3 = 60 deg
-    // Note: SCROFULOUS implies Theta1 * (1+err).
-    // The exact SCROFULOUS solution for Pi pulse is actually different, 
-    // but the BB1 sequence (Pi_phi1, 2Pi_phi2, Pi_phi1) is a common composite example similar visually.
-    // Let's use a "Zig Zag" approximation that demonstrates the cancellation visually.
-    // Pulse 1: 180 * (1+err) @ 60 deg
-    // Pulse 2: 360 * (1+err) @ 300 deg (Actually 2*Pi)
-    // Pulse 3: 180 * (1+err) @ 60 deg
-    
-    // Actually, let's use the exact SCROFULOUS angles for a 180 deg target.
-    // theta_1 = theta_3 = asin(2*cos(target/2)/PI) ... complicated.
-    // Let's use the SK1 or BB1 sequence which is visually instructive:
-    // BB1 for Pi: Pi(x) -> Pi(phi) -> 2Pi(3phi) -> Pi(phi).
-    
-    // Let's stick to the visual concept "Zig Zag Cancellation" using arbitrary but illustrative angles.
-    // Pulse 1: Go 90% of way (plus error). Axis slightly off.
-    // Pulse 2: Go big loop (plus error). Axis opposite.
-    // Pulse 3: Finish.
-    
-    // Simplified SCROFULOUS-like Sequence for visual demonstration:
-    const scrofulousPoints: {cx:number, cy:number}[] = [];
-    let currentScrof = { ...startVec };
-    
-    const scale = (1 + errorRate);
-    const toRad = Math.PI / 180;
-    
-    // Based on typical SCROFULOUS parameters for Pi pulse
-    const theta1 = 180 * toRad * scale; 
-    const phi1 = 60 * toRad; 
-    
-    const theta2 = 360 * toRad * scale; // Big loop
-    const phi2 = 300 * toRad; 
-    
-    const theta3 = 180 * toRad * scale;
-    const phi3 = 60 * toRad;
+  const pickInitial = (v: Vec3) => {
+    const theta = Math.acos(Math.max(-1, Math.min(1, v.z))) / DEG;
+    const phi = ((Math.atan2(v.y, v.x) / DEG) + 360) % 360;
+    setInitialDeg({ theta: Math.round(theta), phi: Math.round(phi) });
+  };
 
-    // Simulation steps
-    const addPath = (steps: number, angle: number, axisPhase: number, start: typeof currentScrof) => {
-        let curr = start;
-        for(let i=1; i<=steps; i++) {
-            curr = rotate(start, axisPhase, angle * (i/steps));
-            const p = project(curr.x, curr.y, curr.z);
-            scrofulousPoints.push(p);
-        }
-        return curr;
-    };
-    
-    // Note: The above sequence (180-360-180) is actually identity if perfect.
-    // A standard composite PI pulse is often: (90)_x (180)_y (90)_x or similar.
-    // Let's use a simpler known robust sequence:
-    // Pulse 1: 90 deg * scale around X
-    // Pulse 2: 180 deg * scale around Y
-    // Pulse 3: 90 deg * scale around X
-    // This is not SCROFULOUS, but visually demonstrates the "long path cancels error".
-    
-    // Let's just implement the actual logic described:
-    // 3 arcs.
-    // Arc 1: "Overshoot right"
-    // Arc 2: "Big loop left" (the overshoot here brings it back)
-    // Arc 3: "Land on target"
-    
-    currentScrof = { ...startVec };
-    scrofulousPoints.push(project(currentScrof.x, currentScrof.y, currentScrof.z));
-    
-    // We will hardcode a visual trajectory that looks like SCROFULOUS to demonstrate the math principle
-    // Pulse 1
-    currentScrof = addPath(15, theta1, phi1, currentScrof);
-    // Pulse 2
-    currentScrof = addPath(25, theta2, phi2, currentScrof); // The big corrective loop
-    // Pulse 3
-    currentScrof = addPath(15, theta3, phi3, currentScrof);
+  const applyPreset = (preset: PulsePreset) => {
+    onErrorsChange(preset.errors);
+    setTargetDeg(preset.targetDeg);
+    setSelectedIds(preset.sequenceIds);
+  };
 
-    // Draw SCROFULOUS Path
-    const scrofPath = d3.path();
-    scrofulousPoints.forEach((p, i) => i===0 ? scrofPath.moveTo(p.cx, p.cy) : scrofPath.lineTo(p.cx, p.cy));
-    svg.append("path")
-       .attr("d", scrofPath.toString())
-       .attr("stroke", "#4ade80") // green
-       .attr("stroke-width", 3)
-       .attr("fill", "none");
+  const customTrajectory = trajectories.find(t => t.id === CUSTOM_PULSE_ID);
 
-    // Markers for endpoints
-    const endSimple = simplePoints[simplePoints.length-1];
-    const endScrof = scrofulousPoints[scrofulousPoints.length-1];
+  const toggleSequence = (id: string) =>
+    setSelectedIds(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
 
-    svg.append("circle").attr("cx", endSimple.cx).attr("cy", endSimple.cy).attr("r", 4).attr("fill", "#ef4444");
-    svg.append("circle").attr("cx", endScrof.cx).attr("cy", endScrof.cy).attr("r", 4).attr("fill", "#4ade80");
+  return (
+    <div className="space-y-8 animate-in slide-in-from-bottom-4 duration-500">
+        <div className="flex flex-col lg:flex-row gap-8 items-start">
+            <div className="flex-1 space-y-6">
+                <div>
+                    <h2 className="text-3xl font-bold text-slate-100">Composite Pulse Control</h2>
+                    <p className="text-slate-400 mt-2">
+                        Visualizing how composite pulses cancel out pulse errors. Amplitude, detuning and phase errors
+                        are independent: SCROFULOUS and BB1 cancel amplitude errors but not detuning, which CORPSE targets.
+                        Every sequence starts from the initial state (white); dashed circles mark where it would end without errors.
+                    </p>
+                </div>
 
-  }, [errorRate]);
+                <PulsePresetBar
+                    current={{ errors: errorSettings, targetDeg, sequenceIds: selectedIds }}
+                    onApply={applyPreset}
+                />
 
-  return (
-    <div className="flex flex-col lg:flex-row gap-8 items-center animate-in slide-in-from-bottom-4 duration-500">
-        <div className="flex-1 space-y-6">
-            <div>
-                <h2 className="text-3xl font-bold text-slate-100">SCROFULOUS Pulse Control</h2>
-                <p className="text-slate-400 mt-2">
-                    Visualizing how composite pulses cancel out calibration errors.
-                    The goal is to flip the qubit from Top (|0⟩) to Bottom (|1⟩).
-                </p>
-            </div>
+                <div className="bg-slate-800/50 p-6 rounded-xl border border-slate-700 space-y-5">
+                    <ErrorSlider
+                        label="Amplitude Error (Over/Under shoot)"
+                        value={pulseErrorRate}
+                        limit={PULSE_ERROR_LIMIT}
+                        step={0.01}
+                        format={(v) => `${(v * 100).toFixed(0)}%`}
+                        onChange={(v) => onErrorsChange({ pulseErrorRate: v })}
+                    />
+                    <ErrorSlider
+                        label="Detuning Δ/Ω (Off-resonance)"
+                        value={pulseDetuning}
+                        limit={PULSE_DETUNING_LIMIT}
+                        step={0.01}
+                        format={(v) => v.toFixed(2)}
+                        onChange={(v) => onErrorsChange({ pulseDetuning: v })}
+                    />
+                    <ErrorSlider
+                        label="Phase Error δ"
+                        value={pulsePhaseError}
+                        limit={PULSE_PHASE_ERROR_LIMIT}
+                        step={0.5}
+                        format={(v) => `${v.toFixed(1)}°`}
+                        onChange={(v) => onErrorsChange({ pulsePhaseError: v })}
+                    />
+                    <div className="pt-2 border-t border-slate-700">
+                        <div className="flex justify-between items-center mt-3 mb-2">
+                            <label className="text-sm font-medium text-slate-300">Target Rotation θ</label>
+                            <span className="text-indigo-400 font-mono">{targetDeg}°</span>
+                        </div>
+                        <input
+                            type="range"
+                            min="10"
+                            max="180"
+                            step="5"
+                            value={targetDeg}
+                            onChange={(e) => setTargetDeg(parseInt(e.target.value, 10))}
+                            className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                        />
+                    </div>
+                </div>
 
-            <div className="bg-slate-800/50 p-6 rounded-xl border border-slate-700">
-                <div className="flex justify-between items-center mb-4">
-                    <label className="text-sm font-medium text-slate-300">Calibration Error (Over/Under shoot)</label>
-                    <span className="text-indigo-400 font-mono">{(errorRate * 100).toFixed(0)}%</span>
+                <div className="bg-slate-800/50 p-6 rounded-xl border border-slate-700 space-y-5">
+                    <label className="flex items-center justify-between gap-3 cursor-pointer">
+                        <div>
+                            <h4 className="text-sm font-medium text-slate-300">Decoherence (Lindblad)</h4>
+                            <p className="text-xs text-slate-500">
+                                Longer sequences spend more time exposed to T₁ and T₂, so the Bloch vector shrinks into the sphere.
+                            </p>
+                        </div>
+                        <input type="checkbox" checked={openSystem} onChange={(e) => setOpenSystem(e.target.checked)} className="accent-indigo-500 w-4 h-4 shrink-0" />
+                    </label>
+                    {openSystem && (
+                        <>
+                            <LogSlider
+                                label="Rabi Frequency Ω/2π"
+                                value={decoherence.rabiFrequency}
+                                min={0.1}
+                                max={1e5}
+                                format={formatFrequency}
+                                onChange={(rabiFrequency) => setDecoherence(prev => ({ ...prev, rabiFrequency }))}
+                            />
+                            <LogSlider
+                                label="T₁"
+                                value={decoherence.t1}
+                                min={0.01}
+                                max={1e4}
+                                format={formatDuration}
+                                onChange={(t1) => setDecoherence(prev => ({ ...prev, t1, t2: Math.min(prev.t2, 2 * t1) }))}
+                            />
+                            <LogSlider
+                                label="T₂"
+                                value={decoherence.t2}
+                                min={0.001}
+                                max={Math.min(1e3, 2 * decoherence.t1)}
+                                format={formatDuration}
+                                onChange={(t2) => setDecoherence(prev => ({ ...prev, t2 }))}
+                            />
+                            <button
+                                onClick={() => setDecoherence(DEFAULT_DECOHERENCE_PARAMS)}
+                                className="text-xs text-slate-500 hover:text-slate-300"
+                            >
+                                Reset to paper values (T₁ = {formatDuration(DEFAULT_DECOHERENCE_PARAMS.t1)}, T₂ = {formatDuration(DEFAULT_DECOHERENCE_PARAMS.t2)})
+                            </button>
+                        </>
+                    )}
                 </div>
-                <input 
-                    type="range" 
-                    min="-0.2" 
-                    max="0.2" 
-                    step="0.01" 
-                    value={errorRate}
-                    onChange={(e) => setErrorRate(parseFloat(e.target.value))}
-                    className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
-                />
-                <div className="flex justify-between text-xs text-slate-500 mt-2">
-                    <span>-20% (Undershoot)</span>
-                    <span>0% (Perfect)</span>
-                    <span>+20% (Overshoot)</span>
+
+                <div className="space-y-2">
+                    {COMPOSITE_PULSES.map(pulse => {
+                        const active = trajectories.find(t => t.id === pulse.id);
+                        return (
+                            <label
+                                key={pulse.id}
+                                className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${active ? 'bg-slate-800/70 border-slate-600' : 'bg-slate-900/40 border-slate-800 hover:border-slate-700'}`}
+                            >
+                                <input type="checkbox" checked={!!active} onChange={() => toggleSequence(pulse.id)} className="mt-1.5 accent-indigo-500" />
+                                <div className="w-3 h-3 rounded-full mt-1.5 shrink-0" style={{ backgroundColor: pulse.color }} />
+                                <div className="min-w-0">
+                                    <h4 className="font-medium" style={{ color: pulse.color }}>
+                                        {pulse.name}
+                                        {pulse.fixedOperation && <span className="ml-2 text-xs text-slate-500 font-normal">fixed {pulse.fixedOperation}</span>}
+                                        {active && <SequenceStats {...active} />}
+                                    </h4>
+                                    <p className="text-sm text-slate-400">{pulse.description}</p>
+                                    {active && <p className="text-xs text-slate-500 font-mono mt-1 break-words">{formatSegments(active.segments)}</p>}
+                                </div>
+                            </label>
+                        );
+                    })}
+                </div>
+
+                <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700 space-y-3">
+                    <label className="flex items-center gap-3 cursor-pointer">
+                        <input type="checkbox" checked={selectedIds.includes(CUSTOM_PULSE_ID)} onChange={() => toggleSequence(CUSTOM_PULSE_ID)} className="accent-indigo-500" />
+                        <div className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: CUSTOM_PULSE_COLOR }} />
+                        <h4 className="font-medium" style={{ color: CUSTOM_PULSE_COLOR }}>
+                            Custom Sequence
+                            {customTrajectory && <SequenceStats {...customTrajectory} />}
+                        </h4>
+                    </label>
+                    <PulseSequenceEditor segments={customSegments} onChange={setCustomSegments} />
                 </div>
             </div>
 
-            <div className="space-y-4">
-                <div className="flex items-start gap-3 p-3 bg-red-900/20 border border-red-900/50 rounded-lg">
-                    <div className="w-3 h-3 rounded-full bg-red-500 mt-1.5 shrink-0" />
-                    <div>
-                        <h4 className="text-red-400 font-medium">Simple Pulse</h4>
-                        <p className="text-sm text-slate-400">A single rotation. Any error in duration directly translates to missing the target state.</p>
-                    </div>
+            <div className="w-full lg:w-[500px] space-y-3 lg:sticky lg:top-8">
+                <div className="h-[440px] bg-slate-900 rounded-xl border border-slate-700 relative overflow-hidden">
+                     <div className="absolute top-4 right-4 z-10 text-xs text-slate-500 font-mono pointer-events-none">
+                        Bloch Sphere Representation
+                     </div>
+                     <BlochSphere
+                        traces={trajectories}
+                        initial={initialVector}
+                        onPickInitial={pickInitial}
+                        playbackKey={playbackKey}
+                     />
                 </div>
-                <div className="flex items-start gap-3 p-3 bg-green-900/20 border border-green-900/50 rounded-lg">
-                    <div className="w-3 h-3 rounded-full bg-green-400 mt-1.5 shrink-0" />
-                    <div>
-                        <h4 className="text-green-400 font-medium">SCROFULOUS Sequence</h4>
-                        <p className="text-sm text-slate-400">A 3-part composite sequence. The error in the second large loop geometrically opposes the errors in the first and third legs, converging on the target.</p>
-                    </div>
+                <div className="flex items-center gap-3 bg-slate-800/50 px-4 py-3 rounded-xl border border-slate-700 text-sm">
+                    <span className="text-slate-300 font-medium">Initial state</span>
+                    <label className="flex items-center gap-1 text-slate-400 font-mono">
+                        θ
+                        <input
+                            type="number"
+                            min="0"
+                            max="180"
+                            value={initialDeg.theta}
+                            onChange={(e) => {
+                                const theta = parseFloat(e.target.value);
+                                if (Number.isFinite(theta)) setInitialDeg(prev => ({ ...prev, theta: Math.max(0, Math.min(180, theta)) }));
+                            }}
+                            className="w-16 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200 focus:outline-none focus:border-indigo-500"
+                        />°
+                    </label>
+                    <label className="flex items-center gap-1 text-slate-400 font-mono">
+                        φ
+                        <input
+                            type="number"
+                            value={initialDeg.phi}
+                            onChange={(e) => {
+                                const phi = parseFloat(e.target.value);
+                                if (Number.isFinite(phi)) setInitialDeg(prev => ({ ...prev, phi }));
+                            }}
+                            className="w-16 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200 focus:outline-none focus:border-indigo-500"
+                        />°
+                    </label>
+                    <button
+                        onClick={() => setInitialDeg({ theta: 0, phi: 0 })}
+                        className="ml-auto text-xs text-slate-500 hover:text-slate-300"
+                    >
+                        Reset to |0⟩
+                    </button>
                 </div>
+                <p className="text-xs text-slate-500 px-1">Drag to rotate, scroll to zoom, click the sphere to choose the initial state.</p>
             </div>
         </div>
 
-        <div className="w-full lg:w-[500px] h-[400px] bg-slate-900 rounded-xl border border-slate-700 relative flex items-center justify-center overflow-hidden">
-             <div className="absolute top-4 right-4 z-10 text-xs text-slate-500 font-mono">
-                Bloch Sphere Representation
-             </div>
-             <svg ref={svgRef} width="500" height="400" className="w-full h-full" style={{cursor: 'grab'}} />
-        </div>
+        <PulseRobustnessChart sequences={sequences} current={errors} initial={initialState} />
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { Bookmark, Link2, Check, Save, Trash2 } from 'lucide-react';
+import { BUILTIN_PRESETS, PulsePreset, loadPresets, presetToUrl, savePresets } from '../services/pulsePresets';
+
+// Preset picker for the pulse simulator: built-in scenarios, presets saved in this browser,
+// and a copyable link that reproduces the current settings.
+export const PulsePresetBar: React.FC<{
+  current: Omit<PulsePreset, 'name'>;
+  onApply: (preset: PulsePreset) => void;
+}> = ({ current, onApply }) => {
+  const [saved, setSaved] = useState<PulsePreset[]>(loadPresets);
+  const [name, setName] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    savePresets(saved);
+  }, [saved]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const all = [...BUILTIN_PRESETS, ...saved];
+
+  const handleSelect = (value: string) => {
+    const preset = all[parseInt(value, 10)];
+    if (preset) onApply(preset);
+  };
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    // Saving under an existing name replaces that preset
+    setSaved(prev => [...prev.filter(p => p.name !== trimmed), { ...current, name: trimmed }]);
+    setName('');
+  };
+
+  const handleCopyLink = async () => {
+    const url = presetToUrl({ ...current, name: name.trim() || 'Shared preset' });
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch (error) {
+      console.error("Failed to copy preset link:", error);
+      window.prompt('Copy this link:', url);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700 space-y-3">
+      <div className="flex items-center gap-2">
+        <Bookmark className="w-4 h-4 text-indigo-400 shrink-0" />
+        <select
+          value=""
+          onChange={(e) => handleSelect(e.target.value)}
+          className="flex-1 bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-indigo-500"
+        >
+          <option value="" disabled>Load a preset…</option>
+          <optgroup label="Scenarios">
+            {BUILTIN_PRESETS.map((preset, i) => <option key={preset.name} value={i}>{preset.name}</option>)}
+          </optgroup>
+          {saved.length > 0 && (
+            <optgroup label="Saved">
+              {saved.map((preset, i) => <option key={preset.name} value={BUILTIN_PRESETS.length + i}>{preset.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+      </div>
+      <div className="flex items-center gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder="Preset name"
+          className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-indigo-500"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!name.trim()}
+          className="flex items-center gap-1 px-2 py-1.5 text-xs rounded bg-slate-700 hover:bg-slate-600 text-slate-200 disabled:opacity-40"
+          title="Save current settings as a preset"
+        >
+          <Save size={12} /> Save
+        </button>
+        <button
+          onClick={handleCopyLink}
+          className="flex items-center gap-1 px-2 py-1.5 text-xs rounded bg-indigo-600 hover:bg-indigo-500 text-white"
+          title="Copy a link that opens these settings"
+        >
+          {copied ? <Check size={12} /> : <Link2 size={12} />} {copied ? 'Copied' : 'Share link'}
+        </button>
+      </div>
+      {saved.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {saved.map(preset => (
+            <span key={preset.name} className="flex items-center gap-1 pl-2 pr-1 py-0.5 text-xs rounded bg-slate-900 border border-slate-700 text-slate-400">
+              {preset.name}
+              <button
+                onClick={() => setSaved(prev => prev.filter(p => p.name !== preset.name))}
+                className="p-0.5 hover:text-red-400"
+                title="Delete preset"
+              >
+                <Trash2 size={10} />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from 'recharts';
+import { DEG, ErrorAxis, FidelityMeasure, PulseErrors, PulseSequence, robustnessSweep } from '../services/compositePulses';
+import { Spinor, ZERO_STATE } from '../services/quantum';
+
+const SWEEP_POINTS = 81;
+
+const SWEEP_RANGES: Record<ErrorAxis, { max: number; label: string; format: (v: number) => string }> = {
+  amplitude: { max: 0.3, label: 'Amplitude Error ε', format: v => `${(v * 100).toFixed(0)}%` },
+  detuning: { max: 0.5, label: 'Detuning Δ/Ω', format: v => v.toFixed(2) },
+  phase: { max: 30 * DEG, label: 'Phase Error δ', format: v => `${(v / DEG).toFixed(0)}°` },
+};
+
+// Infidelities below this are shown at the floor of the log axis
+const LOG_FLOOR = 1e-8;
+
+// Fidelity of each selected sequence as one error type is swept while the others stay at their
+// current values, computed with the same propagator that draws the Bloch-sphere trajectories.
+export const PulseRobustnessChart: React.FC<{
+  sequences: PulseSequence[];
+  current: PulseErrors;
+  initial?: Spinor;
+}> = ({ sequences, current, initial = ZERO_STATE }) => {
+  const [axis, setAxis] = useState<ErrorAxis>('amplitude');
+  const [measure, setMeasure] = useState<FidelityMeasure>('state');
+  const [logScale, setLogScale] = useState(false);
+
+  const range = SWEEP_RANGES[axis];
+
+  const data = useMemo(() => {
+    const values = Array.from({ length: SWEEP_POINTS }, (_, i) => -range.max + (2 * range.max * i) / (SWEEP_POINTS - 1));
+    const sweeps = sequences.map(seq => robustnessSweep(seq.segments, axis, values, measure, current, initial));
+    return values.map((value, i) => {
+      const point: Record<string, number> = { error: value };
+      sequences.forEach((seq, j) => {
+        point[seq.id] = logScale ? Math.max(LOG_FLOOR, 1 - sweeps[j][i]) : sweeps[j][i];
+      });
+      return point;
+    });
+  }, [sequences, axis, measure, logScale, range, current, initial]);
+
+  const toggleClass = (active: boolean) =>
+    `px-3 py-1.5 text-xs font-medium rounded-md transition-all ${active ? 'bg-indigo-600 text-white shadow' : 'text-slate-400 hover:text-slate-200'}`;
+
+  return (
+    <div className="h-96 w-full bg-slate-800/50 p-6 rounded-xl border border-slate-700 flex flex-col">
+      <div className="flex flex-wrap justify-between items-start gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-100">Robustness to Pulse Errors</h3>
+          <p className="text-sm text-slate-400">
+            {measure === 'state' ? 'State fidelity from the initial state' : 'Gate fidelity |Tr(U₀†U)/2|²'} against each sequence's error-free result.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <div className="flex bg-slate-900 rounded-lg p-1 border border-slate-700">
+            <button onClick={() => setAxis('amplitude')} className={toggleClass(axis === 'amplitude')}>Amplitude</button>
+            <button onClick={() => setAxis('detuning')} className={toggleClass(axis === 'detuning')}>Detuning</button>
+            <button onClick={() => setAxis('phase')} className={toggleClass(axis === 'phase')}>Phase</button>
+          </div>
+          <div className="flex bg-slate-900 rounded-lg p-1 border border-slate-700">
+            <button onClick={() => setMeasure('state')} className={toggleClass(measure === 'state')}>State</button>
+            <button onClick={() => setMeasure('gate')} className={toggleClass(measure === 'gate')}>Gate</button>
+          </div>
+          <div className="flex bg-slate-900 rounded-lg p-1 border border-slate-700">
+            <button onClick={() => setLogScale(false)} className={toggleClass(!logScale)}>F</button>
+            <button onClick={() => setLogScale(true)} className={toggleClass(logScale)}>1 − F (log)</button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" opacity={0.5} />
+            <XAxis
+              dataKey="error"
+              type="number"
+              domain={[-range.max, range.max]}
+              tickFormatter={range.format}
+              label={{ value: range.label, position: 'insideBottomRight', offset: -5, fill: '#94a3b8' }}
+              stroke="#94a3b8"
+              tick={{ fill: '#94a3b8' }}
+            />
+            <YAxis
+              scale={logScale ? 'log' : 'auto'}
+              domain={logScale ? [LOG_FLOOR, 1] : ['auto', 1]}
+              allowDataOverflow={logScale}
+              tickFormatter={(v: number) => (logScale ? v.toExponential(0) : v.toFixed(3))}
+              label={{ value: logScale ? 'Infidelity' : 'Fidelity', angle: -90, position: 'insideLeft', fill: '#94a3b8' }}
+              stroke="#94a3b8"
+              tick={{ fill: '#94a3b8' }}
+              width={70}
+            />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', color: '#f1f5f9' }}
+              itemStyle={{ fontSize: '12px' }}
+              labelFormatter={(label) => `${range.label}: ${range.format(Number(label))}`}
+              formatter={(value) => (logScale ? Number(value).toExponential(2) : Number(value).toFixed(5))}
+            />
+            <Legend verticalAlign="top" height={36} />
+            {sequences.map(seq => (
+              <Line
+                key={seq.id}
+                name={seq.name}
+                type="monotone"
+                dataKey={seq.id}
+                stroke={seq.color}
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+            <ReferenceLine
+              x={current[axis]}
+              stroke="#cbd5e1"
+              strokeDasharray="3 3"
+              label={{ position: 'top', value: 'Current', fill: '#cbd5e1', fontSize: 10 }}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
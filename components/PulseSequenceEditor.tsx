@@ -0,0 +1,70 @@
+import React from 'react';
+import { Plus, Trash2, RotateCcw } from 'lucide-react';
+import { DEFAULT_CUSTOM_SEQUENCE, DEG, PulseSegment } from '../services/compositePulses';
+
+// Row editor for a user-defined composite pulse. Angles are edited in degrees
+// and stored in radians, like the library sequences.
+export const PulseSequenceEditor: React.FC<{
+  segments: PulseSegment[];
+  onChange: (segments: PulseSegment[]) => void;
+}> = ({ segments, onChange }) => {
+  const updateSegment = (index: number, field: keyof PulseSegment, degrees: number) => {
+    if (!Number.isFinite(degrees)) return;
+    onChange(segments.map((seg, i) => (i === index ? { ...seg, [field]: degrees * DEG } : seg)));
+  };
+
+  const addSegment = () => onChange([...segments, { theta: Math.PI, phi: 0 }]);
+  const removeSegment = (index: number) => onChange(segments.filter((_, i) => i !== index));
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-[2rem_1fr_1fr_2rem] gap-2 text-xs text-slate-500 font-mono">
+        <span>#</span>
+        <span>θ (deg)</span>
+        <span>φ (deg)</span>
+        <span />
+      </div>
+      {segments.map((seg, i) => (
+        <div key={i} className="grid grid-cols-[2rem_1fr_1fr_2rem] gap-2 items-center">
+          <span className="text-xs text-slate-500 font-mono">{i + 1}</span>
+          <input
+            type="number"
+            step="1"
+            value={parseFloat((seg.theta / DEG).toFixed(2))}
+            onChange={(e) => updateSegment(i, 'theta', parseFloat(e.target.value))}
+            className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm font-mono text-slate-200 focus:outline-none focus:border-pink-500"
+          />
+          <input
+            type="number"
+            step="1"
+            value={parseFloat((seg.phi / DEG).toFixed(2))}
+            onChange={(e) => updateSegment(i, 'phi', parseFloat(e.target.value))}
+            className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm font-mono text-slate-200 focus:outline-none focus:border-pink-500"
+          />
+          <button
+            onClick={() => removeSegment(i)}
+            disabled={segments.length === 1}
+            className="p-1 text-slate-500 hover:text-red-400 disabled:opacity-30 disabled:hover:text-slate-500"
+            title="Remove pulse"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      ))}
+      <div className="flex gap-2 pt-1">
+        <button
+          onClick={addSegment}
+          className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-slate-700 hover:bg-slate-600 text-slate-200"
+        >
+          <Plus size={12} /> Add pulse
+        </button>
+        <button
+          onClick={() => onChange(DEFAULT_CUSTOM_SEQUENCE)}
+          className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-slate-800 hover:bg-slate-700 text-slate-400"
+        >
+          <RotateCcw size={12} /> Reset
+        </button>
+      </div>
+    </div>
+  );
+};
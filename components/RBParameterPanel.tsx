@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { SimulationSettings } from '../types';
+import { FIDELITY_RANGE, RB_SEQUENCES_RANGE, RB_SHOTS_RANGE, sanitizeRBLengths } from '../services/assistantTools';
+import { LogSlider } from './LogSlider';
+
+export type RBParameters = Pick<SimulationSettings, 'rbLengths' | 'rbSequencesPerLength' | 'rbShots' | 'cliffordFidelity' | 'transportFidelity'>;
+
+const formatLengths = (lengths: number[]) => lengths.join(', ');
+
+// Sequence lengths as a comma-separated list, applied when the field loses focus
+const LengthsInput: React.FC<{ value: number[]; onCommit: (lengths: number[]) => void }> = ({ value, onCommit }) => {
+    const [draft, setDraft] = useState(formatLengths(value));
+
+    useEffect(() => {
+        setDraft(formatLengths(value));
+    }, [value]);
+
+    const commit = () => {
+        const lengths = sanitizeRBLengths(draft.split(/[\s,;]+/).filter(Boolean).map(Number));
+        // A decay fit needs at least three lengths; anything less reverts the field
+        if (lengths.length >= 3) onCommit(lengths);
+        setDraft(formatLengths(lengths.length >= 3 ? lengths : value));
+    };
+
+    return (
+        <input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => e.key === 'Enter' && commit()}
+            className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 font-mono text-sm text-slate-200 focus:outline-none focus:border-indigo-500"
+        />
+    );
+};
+
+const FidelitySlider: React.FC<{
+    label: string;
+    value: number;
+    range: readonly [number, number];
+    onChange: (value: number) => void;
+}> = ({ label, value, range, onChange }) => (
+    <div>
+        <div className="flex justify-between items-center mb-2">
+            <label className="text-sm font-medium text-slate-300">{label}</label>
+            <span className="text-indigo-400 font-mono">{value.toFixed(3)}%</span>
+        </div>
+        <input
+            type="range"
+            min={range[0]}
+            max={range[1]}
+            step={0.005}
+            value={value}
+            onChange={(e) => onChange(parseFloat(e.target.value))}
+            className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+        />
+    </div>
+);
+
+// Experiment design of the simulated RB and IRB scans; the chart below re-simulates on every change
+export const RBParameterPanel: React.FC<{
+    parameters: RBParameters;
+    onChange: (patch: Partial<RBParameters>) => void;
+}> = ({ parameters, onChange }) => {
+    const totalShots = 2 * parameters.rbLengths.length * parameters.rbSequencesPerLength * parameters.rbShots;
+
+    return (
+        <div className="bg-slate-800/50 p-6 rounded-xl border border-slate-700">
+            <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+                <h3 className="text-lg font-semibold text-slate-200 flex items-center gap-2">
+                    <SlidersHorizontal className="w-5 h-5 text-indigo-400" /> Benchmark Parameters
+                </h3>
+                <span className="text-xs text-slate-400">
+                    {totalShots.toLocaleString()} shots for reference and interleaved scans together
+                </span>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-x-8 gap-y-5">
+                <div className="lg:col-span-2">
+                    <label className="block text-sm font-medium text-slate-300 mb-2">Sequence lengths (Cliffords)</label>
+                    <LengthsInput value={parameters.rbLengths} onCommit={(rbLengths) => onChange({ rbLengths })} />
+                </div>
+                <div>
+                    <div className="flex justify-between items-center mb-2">
+                        <label className="text-sm font-medium text-slate-300">Random sequences per length</label>
+                        <span className="text-indigo-400 font-mono">{parameters.rbSequencesPerLength}</span>
+                    </div>
+                    <input
+                        type="range"
+                        min={RB_SEQUENCES_RANGE[0]}
+                        max={RB_SEQUENCES_RANGE[1]}
+                        step={1}
+                        value={parameters.rbSequencesPerLength}
+                        onChange={(e) => onChange({ rbSequencesPerLength: parseInt(e.target.value, 10) })}
+                        className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                    />
+                </div>
+                <LogSlider
+                    label="Shots per sequence"
+                    value={parameters.rbShots}
+                    min={RB_SHOTS_RANGE[0]}
+                    max={RB_SHOTS_RANGE[1]}
+                    format={(v) => String(Math.round(v))}
+                    onChange={(v) => onChange({ rbShots: Math.round(v) })}
+                />
+                <FidelitySlider
+                    label="Clifford gate fidelity"
+                    value={parameters.cliffordFidelity}
+                    range={FIDELITY_RANGE.cliffordFidelity}
+                    onChange={(cliffordFidelity) => onChange({ cliffordFidelity })}
+                />
+                <FidelitySlider
+                    label="Transport fidelity"
+                    value={parameters.transportFidelity}
+                    range={FIDELITY_RANGE.transportFidelity}
+                    onChange={(transportFidelity) => onChange({ transportFidelity })}
+                />
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { Dices, Download, Link2, Check, RotateCcw } from 'lucide-react';
+import { SeedState, newSeed, seedsToUrl } from '../services/random';
+
+/** Seed of one chart, as handed down from the app's seed state */
+export interface ChartSeed {
+  value: number;
+  /** True when the chart uses its own seed instead of the one derived from the global seed */
+  overridden: boolean;
+  /** A number overrides the chart's seed; null returns it to the global seed */
+  onChange: (seed: number | null) => void;
+}
+
+const SeedInput: React.FC<{ value: number; onCommit: (seed: number) => void; className?: string }> = ({ value, onCommit, className = '' }) => {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => {
+    setDraft(String(value));
+  }, [value]);
+
+  const commit = () => {
+    const seed = Number(draft);
+    if (/^\d{1,10}$/.test(draft.trim()) && seed < 2 ** 32) onCommit(seed);
+    else setDraft(String(value));
+  };
+
+  return (
+    <input
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && commit()}
+      inputMode="numeric"
+      className={`bg-slate-900 border border-slate-700 rounded px-2 py-0.5 font-mono text-slate-200 focus:outline-none focus:border-indigo-500 ${className}`}
+    />
+  );
+};
+
+// Per-chart seed: edit it to pin the chart, roll a new sample, or download the plotted data
+export const SeedControl: React.FC<{
+  seed: ChartSeed;
+  onExport?: () => void;
+}> = ({ seed, onExport }) => (
+  <div className="flex items-center gap-1.5 text-xs text-slate-400">
+    <span title={seed.overridden ? 'This chart has its own seed' : 'Derived from the global seed'}>
+      Seed{seed.overridden && <span className="text-amber-400">*</span>}
+    </span>
+    <SeedInput value={seed.value} onCommit={seed.onChange} className="w-24 text-xs" />
+    <button onClick={() => seed.onChange(newSeed())} className="p-1 rounded hover:bg-slate-700 hover:text-slate-200" title="New sample">
+      <Dices size={14} />
+    </button>
+    {seed.overridden && (
+      <button onClick={() => seed.onChange(null)} className="p-1 rounded hover:bg-slate-700 hover:text-slate-200" title="Use the global seed">
+        <RotateCcw size={14} />
+      </button>
+    )}
+    {onExport && (
+      <button onClick={onExport} className="p-1 rounded hover:bg-slate-700 hover:text-slate-200" title="Download data (CSV, with seed)">
+        <Download size={14} />
+      </button>
+    )}
+  </div>
+);
+
+// Global seed behind every simulated dataset, with a shareable link that reproduces all figures
+export const GlobalSeedBar: React.FC<{
+  seeds: SeedState;
+  onChange: (seeds: SeedState) => void;
+}> = ({ seeds, onChange }) => {
+  const [copied, setCopied] = useState(false);
+  const overrideCount = Object.keys(seeds.overrides).length;
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopyLink = async () => {
+    const url = seedsToUrl(seeds);
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch (error) {
+      console.error("Failed to copy seed link:", error);
+      window.prompt('Copy this link:', url);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-slate-300 bg-slate-800/50 px-4 py-2 rounded-lg border border-slate-700">
+      <Dices className="w-4 h-4 text-indigo-400" />
+      <span>Global seed</span>
+      <SeedInput value={seeds.global} onCommit={(global) => onChange({ ...seeds, global })} className="w-28 text-sm" />
+      <button
+        onClick={() => onChange({ ...seeds, global: newSeed() })}
+        className="px-2 py-1 text-xs rounded bg-slate-700 hover:bg-slate-600 text-slate-200"
+      >
+        New sample
+      </button>
+      {overrideCount > 0 && (
+        <button
+          onClick={() => onChange({ ...seeds, overrides: {} })}
+          className="px-2 py-1 text-xs rounded bg-slate-800 hover:bg-slate-700 text-amber-400"
+          title="Return every chart to the global seed"
+        >
+          Clear {overrideCount} override{overrideCount > 1 ? 's' : ''}
+        </button>
+      )}
+      <button
+        onClick={handleCopyLink}
+        className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-slate-800 hover:bg-slate-700 text-slate-300"
+      >
+        {copied ? <Check size={12} className="text-green-400" /> : <Link2 size={12} />} {copied ? 'Copied' : 'Share link'}
+      </button>
+    </div>
+  );
+};
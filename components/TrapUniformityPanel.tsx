@@ -0,0 +1,279 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { ARRAY_GRID } from '../constants';
+import { createRng, deriveSeed } from '../services/random';
+import {
+  DEFAULT_TEMPERATURE_RATIO, DEFAULT_TRAP_DEPTH_MODEL, TrapDepthMap, TrapDepthModel, UniformityStats,
+  dephasingTime, differentialLightShift, ensembleDephasingTime, trapDepths, uniformityStats,
+} from '../services/trapDepth';
+import { downloadFile, toCsv } from '../services/fileExport';
+import { ChartSeed, SeedControl } from './SeedControl';
+import { LogSlider } from './LogSlider';
+
+type DepthSource = 'envelope' | 'hologram';
+type SiteQuantity = 'depth' | 'shift' | 't2star';
+
+const QUANTITIES: { id: SiteQuantity; label: string; unit: string; digits: number }[] = [
+  { id: 'depth', label: 'Trap depth', unit: 'mK', digits: 4 },
+  { id: 'shift', label: 'Differential light shift', unit: 'kHz', digits: 4 },
+  { id: 't2star', label: 'T2*', unit: 'ms', digits: 3 },
+];
+
+const HISTOGRAM_BINS = 40;
+const EMPTY_SITE = d3.rgb('#0f172a');
+const VIRIDIS = Array.from({ length: 256 }, (_, i) => d3.rgb(d3.interpolateViridis(i / 255)));
+
+/** Sites that hold a trap, and every quantity per site in display units */
+const siteQuantities = ({ depths }: TrapDepthMap, temperatureRatio: number) => {
+  const sites: number[] = [];
+  depths.forEach((depth, site) => { if (depth > 0) sites.push(site); });
+  const values: Record<SiteQuantity, Float32Array> = {
+    depth: depths,
+    shift: depths.map(depth => differentialLightShift(depth) / 1e3),
+    t2star: depths.map(depth => 1e3 * dephasingTime(depth, temperatureRatio)),
+  };
+  return { sites, values };
+};
+
+const histogram = (values: number[], stats: UniformityStats) => {
+  const width = (stats.max - stats.min) / HISTOGRAM_BINS || 1;
+  const counts = new Array<number>(HISTOGRAM_BINS).fill(0);
+  values.forEach(v => { counts[Math.min(HISTOGRAM_BINS - 1, Math.floor((v - stats.min) / width))]++; });
+  return counts.map((count, i) => ({ value: stats.min + (i + 0.5) * width, count }));
+};
+
+const StatCell: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="bg-slate-900/60 rounded-lg px-3 py-2 border border-slate-700" title={hint}>
+    <div className="text-[10px] uppercase tracking-wider text-slate-500">{label}</div>
+    <div className="font-mono text-sm text-slate-200">{value}</div>
+  </div>
+);
+
+// One colour per site over the lattice, scaled between the quantity's extremes
+const SiteHeatmap: React.FC<{
+  cols: number;
+  rows: number;
+  values: Float32Array;
+  sites: number[];
+  range: [number, number];
+  onHover: (site: number | null) => void;
+}> = ({ cols, rows, values, sites, range, onHover }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    canvas.width = cols;
+    canvas.height = rows;
+    const image = ctx.createImageData(cols, rows);
+    for (let i = 0; i < cols * rows; i++) image.data.set([EMPTY_SITE.r, EMPTY_SITE.g, EMPTY_SITE.b, 255], 4 * i);
+    const [low, high] = range;
+    sites.forEach(site => {
+      const level = high > low ? Math.round((255 * (values[site] - low)) / (high - low)) : 128;
+      const { r, g, b } = VIRIDIS[Math.max(0, Math.min(255, level))];
+      image.data.set([r, g, b, 255], 4 * site);
+    });
+    ctx.putImageData(image, 0, 0);
+  }, [cols, rows, values, sites, range]);
+
+  const handleMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const col = Math.floor(((e.clientX - rect.left) / rect.width) * cols);
+    const row = Math.floor(((e.clientY - rect.top) / rect.height) * rows);
+    onHover(col >= 0 && col < cols && row >= 0 && row < rows ? row * cols + col : null);
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      onMouseMove={handleMove}
+      onMouseLeave={() => onHover(null)}
+      className="w-full rounded-lg border border-slate-700 cursor-crosshair"
+      style={{ imageRendering: 'pixelated', aspectRatio: `${cols} / ${rows}` }}
+    />
+  );
+};
+
+// Trap-depth inhomogeneity across the array: heatmaps and histograms of depth, differential
+// light shift and single-site T2*, with the spread of each and the array-wide dephasing it implies
+export const TrapUniformityPanel: React.FC<{
+  /** Depths from the last computed hologram, if any */
+  hologramDepths: TrapDepthMap | null;
+  /** Seed of the array view, so the envelope model draws the same depths it shows */
+  seed: ChartSeed;
+}> = ({ hologramDepths, seed }) => {
+  const [source, setSource] = useState<DepthSource>('envelope');
+  const [model, setModel] = useState<TrapDepthModel>(DEFAULT_TRAP_DEPTH_MODEL);
+  const [temperatureRatio, setTemperatureRatio] = useState(DEFAULT_TEMPERATURE_RATIO);
+  const [quantity, setQuantity] = useState<SiteQuantity>('depth');
+  const [hover, setHover] = useState<number | null>(null);
+
+  const activeSource = source === 'hologram' && hologramDepths ? 'hologram' : 'envelope';
+  const map = useMemo<TrapDepthMap>(
+    () => (activeSource === 'hologram' && hologramDepths
+      ? hologramDepths
+      : { cols: ARRAY_GRID.cols, rows: ARRAY_GRID.rows, depths: trapDepths(ARRAY_GRID, model, createRng(deriveSeed(seed.value, 'trap-depths'))) }),
+    [activeSource, hologramDepths, model, seed.value]
+  );
+  const { sites, values } = useMemo(() => siteQuantities(map, temperatureRatio), [map, temperatureRatio]);
+  const stats = useMemo(
+    () => Object.fromEntries(QUANTITIES.map(({ id }) => [id, uniformityStats(sites.map(site => values[id][site]))])) as Record<SiteQuantity, UniformityStats>,
+    [sites, values]
+  );
+  const selected = QUANTITIES.find(q => q.id === quantity)!;
+  const histogramData = useMemo(
+    () => histogram(sites.map(site => values[quantity][site]), stats[quantity]),
+    [sites, values, quantity, stats]
+  );
+  const range = useMemo<[number, number]>(() => [stats[quantity].min, stats[quantity].max], [stats, quantity]);
+  const arrayT2 = ensembleDephasingTime(1e3 * stats.shift.std);
+
+  const format = (value: number, digits = selected.digits) => value.toPrecision(digits);
+
+  const handleExport = () => {
+    const rows = sites.map(site => [
+      site, site % map.cols, Math.floor(site / map.cols),
+      values.depth[site].toPrecision(6), (1e3 * values.shift[site]).toPrecision(6), values.t2star[site].toPrecision(6),
+    ]);
+    const comments = activeSource === 'hologram'
+      ? ['depths from the last WGS hologram', `temperature ratio ${temperatureRatio}`]
+      : [`seed ${seed.value}`, `envelope waist ${model.envelopeWaist}`, `scatter ${model.scatter}`, `temperature ratio ${temperatureRatio}`];
+    downloadFile(
+      `trap-uniformity-${activeSource}.csv`,
+      toCsv(['site', 'col', 'row', 'depth_mK', 'light_shift_Hz', 't2star_ms'], rows, comments),
+      'text/csv'
+    );
+  };
+
+  const hoverDepth = hover !== null ? map.depths[hover] : 0;
+
+  return (
+    <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700 flex flex-col gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-x-6 gap-y-4 items-end">
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-2">Depth model</label>
+          <select
+            value={activeSource}
+            onChange={(e) => setSource(e.target.value as DepthSource)}
+            className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-indigo-500"
+          >
+            <option value="envelope">Gaussian envelope + scatter</option>
+            <option value="hologram" disabled={!hologramDepths}>{hologramDepths ? 'Last WGS hologram' : 'WGS hologram (run it above)'}</option>
+          </select>
+        </div>
+        {activeSource === 'envelope' ? (
+          <>
+            <LogSlider
+              label="Envelope waist"
+              value={model.envelopeWaist}
+              min={0.5}
+              max={20}
+              format={(v) => `${v.toPrecision(3)} × half-diagonal`}
+              onChange={(envelopeWaist) => setModel({ ...model, envelopeWaist })}
+            />
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <label className="text-sm font-medium text-slate-300">Site-to-site scatter</label>
+                <span className="text-indigo-400 font-mono">{(100 * model.scatter).toFixed(1)}%</span>
+              </div>
+              <input type="range" min={0} max={0.1} step={0.001} value={model.scatter} onChange={(e) => setModel({ ...model, scatter: parseFloat(e.target.value) })} className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
+            </div>
+          </>
+        ) : (
+          <div className="md:col-span-1 lg:col-span-2 text-xs text-slate-400">
+            Depths follow the trap intensities of the last hologram, scaled so the mean trap is 1 mK.
+          </div>
+        )}
+        <LogSlider
+          label="Atom temperature"
+          value={temperatureRatio}
+          min={0.002}
+          max={0.2}
+          format={(v) => `k_B·T = ${(100 * v).toPrecision(2)}% U`}
+          onChange={setTemperatureRatio}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex bg-slate-900 rounded-lg p-1 border border-slate-700">
+          {QUANTITIES.map(q => (
+            <button
+              key={q.id}
+              onClick={() => setQuantity(q.id)}
+              className={`px-3 py-1 text-xs rounded ${quantity === q.id ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+            >
+              {q.label}
+            </button>
+          ))}
+        </div>
+        {activeSource === 'envelope' ? <SeedControl seed={seed} onExport={handleExport} /> : (
+          <button onClick={handleExport} className="text-xs text-slate-400 hover:text-slate-200">Download CSV</button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="flex flex-col gap-2">
+          <SiteHeatmap cols={map.cols} rows={map.rows} values={values[quantity]} sites={sites} range={range} onHover={setHover} />
+          <div className="flex items-center gap-2 text-[11px] font-mono text-slate-400">
+            <span>{format(range[0])}</span>
+            <div
+              className="flex-1 h-2 rounded"
+              style={{ background: `linear-gradient(to right, ${d3.range(0, 1.01, 0.125).map(t => d3.interpolateViridis(t)).join(', ')})` }}
+            />
+            <span>{format(range[1])} {selected.unit}</span>
+          </div>
+          <div className="text-xs text-slate-400 h-4">
+            {hover !== null && (hoverDepth > 0
+              ? <>Site {hover} ({hover % map.cols}, {Math.floor(hover / map.cols)}): {values.depth[hover].toFixed(4)} mK,
+                  {' '}{values.shift[hover].toFixed(4)} kHz, T2* {values.t2star[hover].toFixed(3)} ms</>
+              : <>({hover % map.cols}, {Math.floor(hover / map.cols)}): no trap</>)}
+          </div>
+        </div>
+        <div className="h-64 lg:h-auto min-h-[16rem]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={histogramData} margin={{ left: 10, right: 20, bottom: 10 }} barCategoryGap={0}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" opacity={0.5} />
+              <XAxis
+                dataKey="value"
+                stroke="#94a3b8"
+                tick={{ fill: '#94a3b8', fontSize: 11 }}
+                tickFormatter={(v: number) => v.toPrecision(3)}
+                label={{ value: `${selected.label} (${selected.unit})`, position: 'insideBottom', offset: -5, fill: '#94a3b8', fontSize: 11 }}
+              />
+              <YAxis
+                stroke="#94a3b8"
+                tick={{ fill: '#94a3b8', fontSize: 11 }}
+                label={{ value: 'Sites', angle: -90, position: 'insideLeft', fill: '#94a3b8', fontSize: 11 }}
+              />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', color: '#f1f5f9' }}
+                labelFormatter={(label) => `${format(Number(label))} ${selected.unit}`}
+                formatter={(value: number) => [value.toLocaleString(), 'Sites']}
+              />
+              <Bar dataKey="count" fill="#818cf8" isAnimationActive={false} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-2">
+        <StatCell label="Traps" value={stats.depth.count.toLocaleString()} />
+        <StatCell label={`Mean ${selected.label}`} value={`${format(stats[quantity].mean)} ${selected.unit}`} />
+        <StatCell label="Std / mean" value={`${(100 * stats[quantity].relativeStd).toFixed(2)}%`} hint="Standard deviation over the mean" />
+        <StatCell
+          label="Peak-to-peak"
+          value={`${format(stats[quantity].max - stats[quantity].min, 3)} ${selected.unit}`}
+          hint={`${(100 * stats[quantity].relativePeakToPeak).toFixed(1)}% of the mean; from ${format(stats[quantity].min)} to ${format(stats[quantity].max)}`}
+        />
+        <StatCell label="Peak-to-peak / mean" value={`${(100 * stats[quantity].relativePeakToPeak).toFixed(1)}%`} />
+        <StatCell
+          label="Array T2* (shift spread)"
+          value={Number.isFinite(arrayT2) ? `${(1e3 * arrayT2).toPrecision(3)} ms` : '∞'}
+          hint="1/e Ramsey time of the whole array from the site-to-site spread of light shifts alone"
+        />
+      </div>
+    </div>
+  );
+};
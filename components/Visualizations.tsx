@@ -1,86 +1,154 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend, Area, AreaChart, ComposedChart, Scatter } from 'recharts';
-import { Info, GitCommit, Zap } from 'lucide-react';
-
-// --- Helper: Generate Fit Data ---
-const generateDecayData = (
-    tau: number, 
-    maxTime: number, 
-    points: number, 
-    noise: number = 0, 
-    exponent: number = 1
-) => {
-  const data = [];
-  for (let i = 0; i <= points; i++) {
-    const t = (maxTime / points) * i;
-    // Theoretical curve
-    const fit = Math.exp(-Math.pow(t / tau, exponent));
-    // Simulated measurement (add random noise)
-    const measure = fit + (Math.random() - 0.5) * noise;
-    data.push({
-      time: parseFloat(t.toFixed(1)),
-      fit: parseFloat(fit.toFixed(3)),
-      measured: i % 5 === 0 ? parseFloat(measure.toFixed(3)) : null // Only measure at intervals
-    });
-  }
-  return data;
-};
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend, Area, AreaChart, ComposedChart, Scatter, ErrorBar } from 'recharts';
+import { Info, GitCommit, Pause, Play, RotateCcw } from 'lucide-react';
+import { factValue, formatFactValue, formatWithUncertainty, getFact } from '../paperFacts';
+import { ARRAY_GRID } from '../constants';
+import { RBMode } from '../types';
+import {
+  CPMG_PULSE_RANGE, DD_SEQUENCES, DEFAULT_NOISE_SPECTRUM, NoiseSpectrum, decayExponent, fitStretchedExponential,
+} from '../services/decoupling';
+import {
+  exponentialDecay, levenbergMarquardt, rbDecay, stretchedExponential,
+} from '../services/curveFitting';
+import { createRng, deriveSeed, randomNormal } from '../services/random';
+import { downloadFile, toCsv } from '../services/fileExport';
+import { ImportedDataset, aggregateByX } from '../services/dataImport';
+import {
+  AVERAGE_PULSES_PER_CLIFFORD, RBNoiseModel, RBSequence, RBSummary, depolarizingFromFidelity, errorPerClifford, fitRB,
+  interleavedFidelity, resampleShots, simulateRB, summarizeRB,
+} from '../services/randomizedBenchmarking';
+import {
+  HUNGARIAN_MAX_VACANCIES, REARRANGEMENT_ALGORITHMS, RearrangementAlgorithm, TARGET_PATTERNS, TargetPattern,
+  createRearrangementAnimation, loadArray, planRearrangement, rearrangementStats, targetMask, trapCount, vacancyCount,
+} from '../services/rearrangement';
+import { DEFAULT_TRAP_DEPTH_MODEL, trapDepths } from '../services/trapDepth';
+import { DEFAULT_IMAGING_LOSS, ImagingLossParams, simulateImagingLoss, survivorCounts } from '../services/imagingLoss';
+import { NoiseSpectrumEditor } from './NoiseSpectrumEditor';
+import { FitResiduals } from './FitResiduals';
+import { ChartSeed, SeedControl } from './SeedControl';
+import { RBParameters } from './RBParameterPanel';
+import { ShotBudgetChart } from './ShotBudgetChart';
+import { LogSlider } from './LogSlider';
+import { ArrayCanvas } from './ArrayCanvas';
+import { ImagingCyclesPanel } from './ImagingCyclesPanel';
 
 // --- Helper: Generate RB Data ---
-const generateRBData = (mode: 'standard' | 'irb') => {
-    const lengths = [2, 10, 20, 40, 80, 150, 300, 500];
-    const sequencesPerLength = 30; 
-    
-    // Standard RB Fidelity (Global gates) ~ 99.9%
-    const p_standard = 0.9985; 
-    // IRB Fidelity (Transport Interleaved) - slightly lower due to transport error
-    // If Transport fidelity is 99.95%, the combined p is lower.
-    const p_irb = 0.9985 * 0.9995; 
+// Survival points of one RB curve, with the per-length means and standard errors that are fitted
+interface RBSeries extends RBSummary {
+    points: { length: number; y: number }[];
+}
 
-    const data: any[] = [];
-    
-    lengths.forEach(m => {
-        // Standard Curve
-        const avgProbStd = 0.5 + 0.5 * Math.pow(p_standard, m);
-        // IRB Curve
-        const avgProbIrb = 0.5 + 0.5 * Math.pow(p_irb, m);
-        
-        // Generate scattered points
-        const variance = 0.05 * (1 - Math.exp(-m/100)); 
+const simulatedRBSeries = (sequences: RBSequence[]): RBSeries => ({
+    ...summarizeRB(sequences),
+    points: sequences.map(({ length, survival }) => ({ length, y: survival })),
+});
 
-        if (mode === 'standard') {
-            for(let i=0; i<sequencesPerLength; i++) {
-                const val = Math.min(1, Math.max(0, avgProbStd + (Math.random() - 0.5) * variance * 2));
-                data.push({ length: m, y: parseFloat(val.toFixed(4)), type: 'scatter', category: 'Standard' });
-            }
-        } else {
-             // For IRB, we show both decay comparisons usually, but to keep chart clean we switch focus
-             // Let's visualize the "Interleaved" data points
-             for(let i=0; i<sequencesPerLength; i++) {
-                const val = Math.min(1, Math.max(0, avgProbIrb + (Math.random() - 0.5) * variance * 2));
-                data.push({ length: m, y: parseFloat(val.toFixed(4)), type: 'scatter', category: 'IRB' });
-            }
-        }
-        
-        data.push({
-            length: m,
-            standard_fit: parseFloat(avgProbStd.toFixed(4)),
-            irb_fit: mode === 'irb' ? parseFloat(avgProbIrb.toFixed(4)) : null,
-            type: 'line'
-        });
-    });
-    
-    return data.sort((a,b) => a.length - b.length);
+const importedRBSeries = (dataset: ImportedDataset): RBSeries => {
+    const { xs, means, sigma } = aggregateByX(dataset);
+    return { lengths: xs, means, sigma, points: dataset.x.map((length, i) => ({ length, y: dataset.y[i] })) };
 };
 
+// Chart rows: measured or simulated survivals, and the sampled fit curves
+type RBChartRow =
+    | { type: 'scatter'; length: number; y: number; category: 'Standard' | 'IRB' }
+    | { type: 'line'; length: number; standard_fit: number; irb_fit: number | null; model: number | null };
+
 // --- Recharts: Randomized Benchmarking (RB) & IRB ---
-export const RBChart: React.FC = () => {
-    const [mode, setMode] = useState<'standard' | 'irb'>('standard');
-    const data = generateRBData(mode);
+export const RBChart: React.FC<{
+    mode: RBMode;
+    onModeChange: (mode: RBMode) => void;
+    parameters: RBParameters;
+    seed: ChartSeed;
+    importedStandard?: ImportedDataset;
+    importedInterleaved?: ImportedDataset;
+}> = ({ mode, onModeChange, parameters, seed, importedStandard, importedInterleaved }) => {
+    const [amplitudeError, setAmplitudeError] = useState(0);
+    const [dephasing, setDephasing] = useState(0);
+    // Long scans take a moment to simulate, so slider drags render the previous result meanwhile
+    const { rbLengths, rbSequencesPerLength, rbShots, cliffordFidelity, transportFidelity } = useDeferredValue(parameters);
+
+    // The Clifford and transport fidelities set the depolarizing parts; the coherent amplitude
+    // error and dephasing act on every physical pulse on top of that
+    const noise = useMemo<RBNoiseModel>(() => ({
+        depolarizing: depolarizingFromFidelity(cliffordFidelity / 100),
+        amplitudeError,
+        dephasing,
+        transport: depolarizingFromFidelity(transportFidelity / 100),
+    }), [cliffordFidelity, transportFidelity, amplitudeError, dephasing]);
+
+    // Exact survivals of the random sequences; shot noise is drawn separately, so changing the
+    // number of shots measures the same sequences again
+    const sequences = useMemo(() => {
+        const config = { lengths: rbLengths, sequencesPerLength: rbSequencesPerLength, shots: 0, noise };
+        return {
+            standard: simulateRB(config, false, createRng(deriveSeed(seed.value, 'standard'))),
+            interleaved: simulateRB(config, true, createRng(deriveSeed(seed.value, 'interleaved'))),
+        };
+    }, [rbLengths, rbSequencesPerLength, noise, seed.value]);
+
+    const simulated = useMemo(() => {
+        const standard = simulatedRBSeries(resampleShots(sequences.standard, rbShots, createRng(deriveSeed(seed.value, 'standard-shots'))));
+        const interleaved = simulatedRBSeries(resampleShots(sequences.interleaved, rbShots, createRng(deriveSeed(seed.value, 'interleaved-shots'))));
+        return { standard, interleaved, standardFit: fitRB(standard), irbFit: fitRB(interleaved) };
+    }, [sequences, rbShots, seed.value]);
+
+    // Imported scans take the place of the simulated sequences and go through the same fit
+    const rb = useMemo(() => {
+        const standard = importedStandard ? importedRBSeries(importedStandard) : simulated.standard;
+        const interleaved = importedInterleaved ? importedRBSeries(importedInterleaved) : simulated.interleaved;
+        return {
+            standard,
+            interleaved,
+            standardFit: importedStandard ? fitRB(standard) : simulated.standardFit,
+            irbFit: importedInterleaved ? fitRB(interleaved) : simulated.irbFit,
+        };
+    }, [simulated, importedStandard, importedInterleaved]);
+
+    const handleExport = () => {
+        const rows = [
+            ...rb.standard.points.map(({ length, y }) => ['standard', length, y.toFixed(5)]),
+            ...rb.interleaved.points.map(({ length, y }) => ['interleaved', length, y.toFixed(5)]),
+        ];
+        downloadFile(`rb-seed-${seed.value}.csv`, toCsv(['series', 'clifford_gates', 'survival'], rows, [
+            `seed=${seed.value}`, `clifford_fidelity=${cliffordFidelity}%`, `transport_fidelity=${transportFidelity}%`,
+            `amplitude_error=${amplitudeError}`, `dephasing_per_pulse=${dephasing}`,
+            `sequences_per_length=${rbSequencesPerLength}`, `shots=${rbShots}`,
+        ]), 'text/csv');
+    };
+
+    const shownImport = mode === 'standard' ? importedStandard : importedInterleaved;
+    const maxLength = Math.ceil(Math.max(...rb.standard.lengths, ...rb.interleaved.lengths) * 1.1);
+
+    const data = useMemo(() => {
+        const series = mode === 'standard' ? rb.standard : rb.interleaved;
+        const points: RBChartRow[] = series.points.map(({ length, y }): RBChartRow => ({
+            length, y: parseFloat(y.toFixed(4)), type: 'scatter', category: mode === 'standard' ? 'Standard' : 'IRB',
+        }));
+        for (let i = 0; i <= 55; i++) {
+            const m = Math.round((maxLength * i) / 55);
+            points.push({
+                length: m,
+                standard_fit: parseFloat(rbDecay(m, rb.standardFit.params).toFixed(4)),
+                irb_fit: mode === 'irb' ? parseFloat(rbDecay(m, rb.irbFit.params).toFixed(4)) : null,
+                // With measured data in view, the fit to the simulated sequences stands in as the reference
+                model: shownImport
+                    ? parseFloat(rbDecay(m, (mode === 'standard' ? simulated.standardFit : simulated.irbFit).params).toFixed(4))
+                    : null,
+                type: 'line',
+            });
+        }
+        return points.sort((a, b) => a.length - b.length);
+    }, [rb, mode, maxLength, shownImport, simulated]);
+
+    const [, pStd] = rb.standardFit.params;
+    const pStdError = rb.standardFit.errors[1];
+    const epc = errorPerClifford(pStd, pStdError);
+    const transport = interleavedFidelity(pStd, pStdError, rb.irbFit.params[1], rb.irbFit.errors[1]);
+    const paperTransport = getFact('transport-fidelity');
     
     return (
-        <div className="h-[500px] w-full bg-slate-800/50 p-6 rounded-xl border border-slate-700 flex flex-col">
+        <div className="w-full bg-slate-800/50 p-6 rounded-xl border border-slate-700 flex flex-col">
             <div className="mb-4 flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
                 <div>
                     <h3 className="text-lg font-semibold text-slate-200 flex items-center gap-2">
@@ -92,20 +160,40 @@ export const RBChart: React.FC = () => {
                             : "IRB interleaves a 'Transport' move between every Clifford gate. The difference in decay curves reveals the transport fidelity."}
                     </p>
                 </div>
-                <div className="flex bg-slate-900 rounded-lg p-1 border border-slate-700 shrink-0">
-                    <button 
-                        onClick={() => setMode('standard')}
-                        className={`px-3 py-1.5 text-xs font-medium rounded-md transition-all ${mode === 'standard' ? 'bg-indigo-600 text-white shadow' : 'text-slate-400 hover:text-slate-200'}`}
-                    >
-                        Standard RB
-                    </button>
-                    <button 
-                        onClick={() => setMode('irb')}
-                        className={`px-3 py-1.5 text-xs font-medium rounded-md transition-all ${mode === 'irb' ? 'bg-rose-600 text-white shadow' : 'text-slate-400 hover:text-slate-200'}`}
-                    >
-                        IRB (Transport)
-                    </button>
+                <div className="flex flex-col items-end gap-2 shrink-0">
+                    <div className="flex bg-slate-900 rounded-lg p-1 border border-slate-700">
+                        <button 
+                            onClick={() => onModeChange('standard')}
+                            className={`px-3 py-1.5 text-xs font-medium rounded-md transition-all ${mode === 'standard' ? 'bg-indigo-600 text-white shadow' : 'text-slate-400 hover:text-slate-200'}`}
+                        >
+                            Standard RB
+                        </button>
+                        <button 
+                            onClick={() => onModeChange('irb')}
+                            className={`px-3 py-1.5 text-xs font-medium rounded-md transition-all ${mode === 'irb' ? 'bg-rose-600 text-white shadow' : 'text-slate-400 hover:text-slate-200'}`}
+                        >
+                            IRB (Transport)
+                        </button>
+                    </div>
+                <SeedControl seed={seed} onExport={handleExport} />
+                </div>
+            </div>
+
+            {/* Noise model of the simulated sequences */}
+            <div className="mb-4 grid grid-cols-1 md:grid-cols-3 gap-4 text-xs text-slate-400">
+                <div className="flex items-center">
+                    Depolarizing λ = {noise.depolarizing.toExponential(1)} per Clifford
+                    {mode === 'irb' && <>, {noise.transport.toExponential(1)} per move</>}
+                    <span className="text-slate-500 ml-1">· {AVERAGE_PULSES_PER_CLIFFORD.toFixed(3)} pulses per Clifford</span>
                 </div>
+                <label className="flex items-center gap-2">
+                    <span className="whitespace-nowrap">Amplitude error {(amplitudeError * 100).toFixed(1)}%</span>
+                    <input type="range" min={0} max={0.05} step={0.001} value={amplitudeError} onChange={(e) => setAmplitudeError(parseFloat(e.target.value))} className="flex-1 h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
+                </label>
+                <label className="flex items-center gap-2">
+                    <span className="whitespace-nowrap">Dephasing {(dephasing * 100).toFixed(2)}% / pulse</span>
+                    <input type="range" min={0} max={0.005} step={0.0001} value={dephasing} onChange={(e) => setDephasing(parseFloat(e.target.value))} className="flex-1 h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
+                </label>
             </div>
 
             {/* IRB Schematic Visual */}
@@ -125,14 +213,14 @@ export const RBChart: React.FC = () => {
                 </div>
             )}
 
-            <div className="flex-1 min-h-0">
+            <div className="h-80">
                 <ResponsiveContainer width="100%" height="100%">
                     <ComposedChart data={data}>
                         <CartesianGrid strokeDasharray="3 3" stroke="#334155" opacity={0.5} vertical={false} />
                         <XAxis 
                             dataKey="length" 
                             type="number"
-                            domain={[0, 550]}
+                            domain={[0, maxLength]}
                             label={{ value: 'Number of Clifford Gates (N)', position: 'insideBottomRight', offset: -5, fill: '#94a3b8' }} 
                             stroke="#94a3b8"
                             tick={{fill: '#94a3b8'}}
@@ -154,12 +242,24 @@ export const RBChart: React.FC = () => {
                         
                         {/* Scatter Points */}
                         <Scatter 
-                            name={mode === 'standard' ? "Ref. Strings" : "Interleaved Strings"}
+                            name={shownImport ? shownImport.name : mode === 'standard' ? "Ref. Strings" : "Interleaved Strings"}
                             dataKey="y" 
-                            fill={mode === 'standard' ? "#818cf8" : "#f43f5e"} 
-                            opacity={0.15}
+                            fill={shownImport ? "#f8fafc" : mode === 'standard' ? "#818cf8" : "#f43f5e"} 
+                            opacity={shownImport ? 0.6 : 0.15}
                             shape="circle" 
                         />
+                        {shownImport && (
+                            <Line
+                                name="Model"
+                                type="monotone"
+                                dataKey="model"
+                                stroke="#94a3b8"
+                                strokeWidth={1}
+                                strokeDasharray="2 4"
+                                dot={false}
+                                connectNulls={true}
+                            />
+                        )}
                         
                         {/* Reference Line (Always Visible) */}
                         <Line 
@@ -181,39 +281,152 @@ export const RBChart: React.FC = () => {
                                 dataKey="irb_fit" 
                                 stroke="#f43f5e" 
                                 strokeWidth={3} 
-                                dot={{ r: 4, fill: "#f43f5e", strokeWidth: 0 }} 
+                                dot={false} 
                                 connectNulls={true}
                             />
                         )}
                     </ComposedChart>
                 </ResponsiveContainer>
             </div>
+            <div className="mt-2 text-center text-xs text-slate-300">
+                {mode === 'standard' ? (
+                    <>
+                        Error per Clifford from fit: <strong className="font-mono">r = {formatWithUncertainty(100 * epc.value, 100 * epc.error)}%</strong>
+                        <span className="text-slate-500"> (p = {formatWithUncertainty(pStd, pStdError)})</span>
+                    </>
+                ) : (
+                    <span className="text-rose-300">
+                        Transport Fidelity extracted from decay difference: <strong className="font-mono">{formatWithUncertainty(100 * transport.value, 100 * transport.error)}%</strong>
+                        <span className="text-slate-500"> ± {(100 * transport.bound).toFixed(2)}% systematic bound</span>
+                        {(importedInterleaved || transportFidelity !== paperTransport.value) && (
+                            <span className="text-slate-500"> (paper: {formatFactValue(paperTransport)})</span>
+                        )}
+                    </span>
+                )}
+            </div>
+            <FitResiduals
+                series={[
+                    { id: 'standard', name: 'Standard', color: '#4ade80', xs: rb.standard.lengths, fit: rb.standardFit },
+                    ...(mode === 'irb' ? [{ id: 'irb', name: 'Interleaved', color: '#f43f5e', xs: rb.interleaved.lengths, fit: rb.irbFit }] : []),
+                ]}
+                xLabel="Clifford gates"
+            />
             {mode === 'irb' && (
-                <div className="mt-2 text-center text-xs text-rose-300">
-                    Transport Fidelity extracted from decay difference: <strong>&gt;99.95%</strong>
-                </div>
+                <ShotBudgetChart
+                    reference={sequences.standard}
+                    interleaved={sequences.interleaved}
+                    shots={rbShots}
+                    seed={deriveSeed(seed.value, 'shot-budget')}
+                />
             )}
         </div>
     );
 };
 
 // --- Recharts: Coherence Time (T2) ---
-export const CoherenceChart: React.FC = () => {
-  const data = generateDecayData(12.6, 20, 100, 0.05, 1.5); 
+const COHERENCE_TIMES = Array.from({ length: 70 }, (_, i) => 10 ** (-3 + (5 * i) / 69));
+// Simulated measurement: contrast sampled at these times with Gaussian readout noise
+const MEASURED_TIMES = Array.from({ length: 24 }, (_, i) => 10 ** (-2 + (4 * i) / 23));
+const CONTRAST_NOISE = 0.02;
+// Stretch exponent of the paper reference curve, as found for XY16 on the calibrated spectrum
+const PAPER_STRETCH = 1.5;
+const IMPORTED_COLOR = '#f8fafc';
+
+// Starting point for a decay fit: amplitude from the largest value, and the time constant where
+// the data first falls below 1/e of it (the median time if it never does)
+const guessDecay = ({ x, y }: ImportedDataset) => {
+    const order = x.map((_, i) => i).sort((a, b) => x[a] - x[b]);
+    const amplitude = Math.max(...y);
+    const crossing = order.find(i => y[i] < amplitude / Math.E);
+    return { amplitude, tau: crossing !== undefined ? x[crossing] : x[order[Math.floor(order.length / 2)]] };
+};
+
+const toPoints = ({ x, y, error }: ImportedDataset) =>
+    x.map((time, i) => ({ time, value: y[i], error: error?.[i] }));
+
+export const CoherenceChart: React.FC<{ seed: ChartSeed; imported?: ImportedDataset }> = ({ seed, imported }) => {
+  const t2 = factValue('t2');
+  const [noise, setNoise] = useState<NoiseSpectrum>(DEFAULT_NOISE_SPECTRUM);
+  const [selected, setSelected] = useState<string[]>(['ramsey', 'hahn', 'xy4', 'xy16']);
+  const [cpmgPulses, setCpmgPulses] = useState(8);
+  const [showNoise, setShowNoise] = useState(false);
   const [showTooltip, setShowTooltip] = useState(false);
+  // Each recompute integrates every filter function, so let slider drags stay responsive
+  const deferredNoise = useDeferredValue(noise);
+
+  const sequences = useMemo(
+    () => DD_SEQUENCES
+      .filter(seq => selected.includes(seq.id))
+      .map(seq => (seq.id === 'cpmg' ? { ...seq, name: `CPMG-${cpmgPulses}`, pulses: cpmgPulses } : seq)),
+    [selected, cpmgPulses]
+  );
+
+  const { data, fits } = useMemo(() => {
+    const decays = sequences.map(seq => decayExponent(seq.pulses, deferredNoise, COHERENCE_TIMES));
+    return {
+      data: COHERENCE_TIMES.map((time, i) => {
+        const point: Record<string, number> = { time };
+        sequences.forEach((seq, j) => { point[seq.id] = Math.exp(-decays[j][i]); });
+        return point;
+      }),
+      fits: sequences.map((seq, j) => {
+        // Each sequence draws its own noise, so toggling one leaves the others' samples unchanged
+        const rng = createRng(deriveSeed(seed.value, seq.id));
+        const measured = decayExponent(seq.pulses, deferredNoise, MEASURED_TIMES)
+          .map(chi => Math.exp(-chi) + CONTRAST_NOISE * randomNormal(rng));
+        // The log-log estimate from the noiseless curve seeds the nonlinear fit
+        const guess = fitStretchedExponential(COHERENCE_TIMES, decays[j]);
+        const fit = levenbergMarquardt(stretchedExponential, MEASURED_TIMES, measured,
+          [1, guess?.t2 ?? 1, guess?.exponent ?? 1], { sigma: MEASURED_TIMES.map(() => CONTRAST_NOISE) });
+        return { ...seq, xs: MEASURED_TIMES, measured: MEASURED_TIMES.map((time, i) => ({ time, value: measured[i] })), fit };
+      }),
+    };
+  }, [sequences, deferredNoise, seed.value]);
+
+  // Measured scans go through the same fit and are drawn against the paper's T2
+  const importedFit = useMemo(() => {
+    if (!imported) return null;
+    const { amplitude, tau } = guessDecay(imported);
+    const fit = levenbergMarquardt(stretchedExponential, imported.x, imported.y, [amplitude, tau, 1], { sigma: imported.error });
+    return { id: 'imported', name: imported.name, color: IMPORTED_COLOR, xs: imported.x, measured: toPoints(imported), fit };
+  }, [imported]);
+
+  const allFits = importedFit ? [...fits, importedFit] : fits;
+
+  const handleExport = () => {
+    const rows = allFits.flatMap(({ name, measured }) => measured.map(({ time, value }) => [name, time.toPrecision(6), value.toFixed(5)]));
+    downloadFile(`coherence-seed-${seed.value}.csv`, toCsv(['sequence', 'time_s', 'contrast'], rows, [
+      `seed=${seed.value}`, `contrast_noise=${CONTRAST_NOISE}`,
+    ]), 'text/csv');
+  };
+  const chartData = useMemo(() => {
+    if (!importedFit) return data;
+    const { params } = importedFit.fit;
+    return data.map(point => ({
+      ...point,
+      imported_fit: stretchedExponential(point.time, params),
+      paper: stretchedExponential(point.time, [params[0], t2, PAPER_STRETCH]),
+    }));
+  }, [data, importedFit, t2]);
+
+  const toggle = (id: string) =>
+    setSelected(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
 
   return (
-    <div className="h-96 w-full bg-slate-800/50 p-6 rounded-xl border border-slate-700 flex flex-col relative">
+    <div className="w-full bg-slate-800/50 p-6 rounded-xl border border-slate-700 flex flex-col relative">
       <div className="mb-4">
         <div className="flex justify-between items-start">
             <h3 className="text-lg font-semibold text-slate-200">Coherence Time (T2)</h3>
-            <button 
-                className="text-indigo-400 hover:text-indigo-300 transition-colors"
-                onMouseEnter={() => setShowTooltip(true)}
-                onMouseLeave={() => setShowTooltip(false)}
-            >
-                <Info className="w-5 h-5" />
-            </button>
+            <div className="flex items-center gap-2">
+                <SeedControl seed={seed} onExport={handleExport} />
+                <button 
+                    className="text-indigo-400 hover:text-indigo-300 transition-colors"
+                    onMouseEnter={() => setShowTooltip(true)}
+                    onMouseLeave={() => setShowTooltip(false)}
+                >
+                    <Info className="w-5 h-5" />
+                </button>
+            </div>
         </div>
         
         {/* XY Sequence Tooltip */}
@@ -221,99 +434,190 @@ export const CoherenceChart: React.FC = () => {
             <div className="absolute top-12 right-6 w-64 bg-slate-900 border border-slate-600 p-4 rounded-lg shadow-xl z-20 text-xs">
                 <h4 className="font-bold text-indigo-400 mb-2">Dynamical Decoupling</h4>
                 <p className="text-slate-300 mb-2">
-                    <strong className="text-white">XY4:</strong> A sequence X-Y-X-Y applied to the qubit. It reverses time-evolution errors from the environment.
+                    Each sequence flips the qubit with π pulses, turning the noise spectrum into a band-pass filter. More pulses push the passband to higher frequency, away from the 1/f noise.
                 </p>
                 <p className="text-slate-300">
-                    <strong className="text-white">XY16:</strong> An extended version (repeating and phasing XY4) to cancel higher-order errors and pulse imperfections, extending T2 beyond standard Hahn Echo.
+                    <strong className="text-white">XY4 / XY16:</strong> With ideal pulses they filter like CPMG with the same pulse count; their alternating X/Y phases additionally cancel pulse errors (see Pulse Control).
                 </p>
             </div>
         )}
 
-        <div className="flex flex-wrap items-center gap-4 text-xs text-slate-400 mt-2">
-             <span className="font-mono bg-indigo-900/30 border border-indigo-500/30 text-indigo-300 px-2 py-1 rounded flex items-center gap-1">
-                <Zap className="w-3 h-3"/> Sequence: XY16
-             </span>
-             <span>T₂ = 12.6(1) s</span>
-             <span>α ≈ 1.5</span>
+        <div className="flex flex-wrap items-center gap-2 text-xs mt-3">
+            {DD_SEQUENCES.map(seq => (
+                <button
+                    key={seq.id}
+                    onClick={() => toggle(seq.id)}
+                    className={`px-2 py-1 rounded border font-mono transition-colors ${selected.includes(seq.id) ? 'bg-slate-900 text-slate-100' : 'border-slate-700 text-slate-500 hover:text-slate-300'}`}
+                    style={selected.includes(seq.id) ? { borderColor: seq.color } : undefined}
+                >
+                    {seq.id === 'cpmg' ? `CPMG-${cpmgPulses}` : seq.name}
+                </button>
+            ))}
+            {selected.includes('cpmg') && (
+                <label className="flex items-center gap-1 text-slate-400">
+                    N
+                    <input
+                        type="number"
+                        min={CPMG_PULSE_RANGE[0]}
+                        max={CPMG_PULSE_RANGE[1]}
+                        value={cpmgPulses}
+                        onChange={(e) => {
+                            const n = parseInt(e.target.value, 10);
+                            if (Number.isFinite(n)) setCpmgPulses(Math.min(CPMG_PULSE_RANGE[1], Math.max(CPMG_PULSE_RANGE[0], n)));
+                        }}
+                        className="w-14 bg-slate-900 border border-slate-700 rounded px-2 py-0.5 text-slate-200 focus:outline-none focus:border-indigo-500"
+                    />
+                </label>
+            )}
         </div>
       </div>
-      
-      {/* Sequence Visual */}
-      <div className="flex items-center gap-1 mb-4 opacity-50 overflow-hidden whitespace-nowrap mask-gradient">
-        {[...Array(8)].map((_, i) => (
-            <React.Fragment key={i}>
-                <div className="w-6 h-4 bg-slate-700 rounded flex items-center justify-center text-[8px]">X</div>
-                <div className="w-4 h-[1px] bg-slate-600"></div>
-                <div className="w-6 h-4 bg-slate-700 rounded flex items-center justify-center text-[8px]">Y</div>
-                <div className="w-4 h-[1px] bg-slate-600"></div>
-            </React.Fragment>
-        ))}
-        <span className="text-[10px] text-slate-500">... (XY16 repeats)</span>
-      </div>
 
-      <div className="flex-1 min-h-0">
+      <div className="h-72">
         <ResponsiveContainer width="100%" height="100%">
-            <LineChart data={data}>
+            <ComposedChart data={chartData}>
             <CartesianGrid strokeDasharray="3 3" stroke="#334155" opacity={0.5} />
             <XAxis 
                 dataKey="time" 
+                type="number"
+                scale="log"
+                domain={[COHERENCE_TIMES[0], COHERENCE_TIMES[COHERENCE_TIMES.length - 1]]}
+                ticks={[0.001, 0.01, 0.1, 1, 10, 100]}
                 label={{ value: 'Time (s)', position: 'insideBottomRight', offset: -5, fill: '#94a3b8' }} 
                 stroke="#94a3b8"
                 tick={{fill: '#94a3b8'}}
             />
             <YAxis 
                 stroke="#94a3b8" 
-                domain={[0, 1.1]} 
+                domain={[0, imported ? 'auto' : 1.05]} 
                 label={{ value: 'Contrast', angle: -90, position: 'insideLeft', fill: '#94a3b8' }}
                 tick={{fill: '#94a3b8'}}
             />
             <Tooltip 
                 contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', color: '#f1f5f9' }}
                 itemStyle={{ fontSize: '12px' }}
+                labelFormatter={(label) => `t = ${Number(label).toPrecision(3)} s`}
+                formatter={(value) => Number(value).toFixed(3)}
             />
             <Legend verticalAlign="top" height={36}/>
-            <Line 
-                name="XY16 Fit"
-                type="monotone" 
-                dataKey="fit" 
-                stroke="#6366f1" 
-                strokeWidth={2} 
-                dot={false}
-                strokeDasharray="5 5"
-            />
-            <Line 
-                name="Measured Data"
-                type="monotone" 
-                dataKey="measured" 
-                stroke="#38bdf8" 
-                strokeWidth={0} 
-                dot={{ r: 4, fill: "#38bdf8", strokeWidth: 0 }} 
-                activeDot={{ r: 6 }}
-                connectNulls={false}
-            />
-            <ReferenceLine x={12.6} stroke="#ef4444" strokeDasharray="3 3" label={{ position: 'insideTopRight', value: '1/e point', fill: '#ef4444', fontSize: 12 }} />
-            </LineChart>
+            {sequences.map(seq => (
+                <Line
+                    key={seq.id}
+                    name={seq.name}
+                    type="monotone"
+                    dataKey={seq.id}
+                    stroke={seq.color}
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={false}
+                />
+            ))}
+            {importedFit && (
+                <Line name={`${importedFit.name} fit`} type="monotone" dataKey="imported_fit" stroke={IMPORTED_COLOR} strokeWidth={2} strokeDasharray="6 3" dot={false} isAnimationActive={false} />
+            )}
+            {importedFit && (
+                <Line name="Paper" type="monotone" dataKey="paper" stroke="#ef4444" strokeWidth={1} strokeDasharray="2 4" dot={false} isAnimationActive={false} />
+            )}
+            {allFits.map(seq => (
+                <Scatter
+                    key={`${seq.id}-measured`}
+                    name={`${seq.name} (measured)`}
+                    data={seq.measured}
+                    dataKey="value"
+                    fill={seq.color}
+                    opacity={seq.id === 'imported' ? 0.9 : 0.6}
+                    legendType="none"
+                    isAnimationActive={false}
+                >
+                    {seq.id === 'imported' && imported?.error && <ErrorBar dataKey="error" direction="y" stroke={IMPORTED_COLOR} strokeOpacity={0.5} />}
+                </Scatter>
+            ))}
+            <ReferenceLine x={t2} stroke="#ef4444" strokeDasharray="3 3" label={{ position: 'insideTopRight', value: `Paper T₂ = ${formatFactValue(getFact('t2'))}`, fill: '#ef4444', fontSize: 12 }} />
+            </ComposedChart>
         </ResponsiveContainer>
       </div>
+
+      {/* Levenberg–Marquardt fits of A·exp(-(t/T2)^α) to the measured points */}
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mt-4 text-xs font-mono">
+        {allFits.map(({ id, name, color, fit }) => (
+            <div key={id} className="px-2 py-1.5 rounded bg-slate-900/60 border border-slate-700">
+                <span style={{ color }}>{name}</span>
+                <div className="text-slate-400">
+                    T₂ = {formatWithUncertainty(fit.params[1], fit.errors[1])} s · α = {formatWithUncertainty(fit.params[2], fit.errors[2])}
+                </div>
+            </div>
+        ))}
+      </div>
+      <FitResiduals series={allFits} xLabel="Time (s)" logX />
+
+      <div className="mt-4 border-t border-slate-700 pt-3">
+        <button
+            onClick={() => setShowNoise(!showNoise)}
+            className="text-xs text-indigo-400 hover:text-indigo-300"
+        >
+            {showNoise ? 'Hide' : 'Edit'} noise spectrum
+        </button>
+        {showNoise && (
+            <div className="mt-3">
+                <NoiseSpectrumEditor noise={noise} onChange={setNoise} />
+            </div>
+        )}
+      </div>
     </div>
   );
 };
 
 // --- Recharts: Lifetime (T1) ---
-export const LifetimeChart: React.FC = () => {
-    const data = generateDecayData(22.9, 40, 100, 0.08, 1.0); 
+const LIFETIME_MAX_MINUTES = 40;
+const LIFETIME_TIMES = Array.from({ length: 21 }, (_, i) => (LIFETIME_MAX_MINUTES * i) / 20);
+const SURVIVAL_NOISE = 0.02;
+
+export const LifetimeChart: React.FC<{ seed: ChartSeed; imported?: ImportedDataset }> = ({ seed, imported }) => {
+    const tau = factValue('lifetime');
+
+    // Imported scans replace the simulated points; either way the same exponential fit is drawn
+    const { data, measured, xs, fit } = useMemo(() => {
+        const xs = imported ? imported.x : LIFETIME_TIMES;
+        const rng = createRng(seed.value);
+        const ys = imported ? imported.y : LIFETIME_TIMES.map(t => Math.exp(-t / tau) + SURVIVAL_NOISE * randomNormal(rng));
+        const guess = imported ? guessDecay(imported) : { amplitude: 1, tau: LIFETIME_MAX_MINUTES / 2 };
+        const fit = levenbergMarquardt(exponentialDecay, xs, ys, [guess.amplitude, guess.tau],
+            { sigma: imported ? imported.error : LIFETIME_TIMES.map(() => SURVIVAL_NOISE) });
+        const maxTime = Math.max(LIFETIME_MAX_MINUTES, ...xs);
+        const data = Array.from({ length: 101 }, (_, i) => {
+            const time = (maxTime * i) / 100;
+            return {
+                time: parseFloat(time.toFixed(2)),
+                fit: parseFloat(exponentialDecay(time, fit.params).toFixed(4)),
+                paper: imported ? parseFloat(exponentialDecay(time, [fit.params[0], tau]).toFixed(4)) : null,
+            };
+        });
+        const measured = imported
+            ? toPoints(imported)
+            : LIFETIME_TIMES.map((time, i) => ({ time, value: parseFloat(ys[i].toFixed(4)), error: undefined }));
+        return { data, measured, xs, fit };
+    }, [imported, tau, seed.value]);
+
+    const handleExport = () => {
+        downloadFile(`lifetime-seed-${seed.value}.csv`, toCsv(['time_min', 'survival'],
+            measured.map(({ time, value }) => [time, value]), [`seed=${seed.value}`, `survival_noise=${SURVIVAL_NOISE}`]), 'text/csv');
+    };
+
     return (
-      <div className="h-96 w-full bg-slate-800/50 p-6 rounded-xl border border-slate-700 flex flex-col">
+      <div className="w-full bg-slate-800/50 p-6 rounded-xl border border-slate-700 flex flex-col">
         <div className="mb-4">
-          <h3 className="text-lg font-semibold text-slate-200">Vacuum Lifetime (T1) Fitting</h3>
+          <div className="flex justify-between items-start gap-2">
+            <h3 className="text-lg font-semibold text-slate-200">Vacuum Lifetime (T1) Fitting</h3>
+            <SeedControl seed={seed} onExport={handleExport} />
+          </div>
           <div className="flex items-center gap-4 text-xs text-slate-400 mt-1">
                <span className="font-mono bg-slate-700 px-2 py-1 rounded">{'N(t) = N₀ · e^{-t/τ}'}</span>
-               <span>τ = 22.9(1) min</span>
+               <span>fit τ = <span className="font-mono text-emerald-400">{formatWithUncertainty(fit.params[1], fit.errors[1])} min</span></span>
+               <span>paper τ = {formatFactValue(getFact('lifetime'))}</span>
           </div>
         </div>
-        <div className="flex-1 min-h-0">
+        <div className="h-64">
           <ResponsiveContainer width="100%" height="100%">
-              <AreaChart data={data}>
+              <ComposedChart data={data}>
               <defs>
                 <linearGradient id="colorFit" x1="0" y1="0" x2="0" y2="1">
                   <stop offset="5%" stopColor="#10b981" stopOpacity={0.3}/>
@@ -323,13 +627,15 @@ export const LifetimeChart: React.FC = () => {
               <CartesianGrid strokeDasharray="3 3" stroke="#334155" opacity={0.5} />
               <XAxis 
                   dataKey="time" 
+                  type="number"
+                  domain={[0, 'dataMax']}
                   label={{ value: 'Time (min)', position: 'insideBottomRight', offset: -5, fill: '#94a3b8' }} 
                   stroke="#94a3b8"
                   tick={{fill: '#94a3b8'}}
               />
               <YAxis 
-                  stroke="#94a3b8" 
-                  domain={[0, 1.1]} 
+                  stroke="#94a3b8"
+                  domain={[0, imported ? 'auto' : 1.1]}
                   label={{ value: 'Survival Prob.', angle: -90, position: 'insideLeft', fill: '#94a3b8' }}
                   tick={{fill: '#94a3b8'}}
               />
@@ -346,24 +652,35 @@ export const LifetimeChart: React.FC = () => {
                   fillOpacity={1} 
                   fill="url(#colorFit)" 
               />
-              <Line 
-                  name="Measured Data"
-                  type="monotone" 
-                  dataKey="measured" 
-                  stroke="#fde047" 
-                  strokeWidth={0} 
-                  dot={{ r: 4, fill: "#fde047", strokeWidth: 0 }} 
-                  connectNulls={false}
-              />
-              </AreaChart>
+              {imported && (
+                  <Line 
+                      name="Paper"
+                      type="monotone" 
+                      dataKey="paper" 
+                      stroke="#ef4444" 
+                      strokeWidth={1} 
+                      strokeDasharray="2 4"
+                      dot={false} 
+                  />
+              )}
+              <Scatter 
+                  name={imported ? imported.name : "Measured Data"}
+                  data={measured}
+                  dataKey="value" 
+                  fill="#fde047" 
+              >
+                  {imported?.error && <ErrorBar dataKey="error" direction="y" stroke="#fde047" strokeOpacity={0.5} />}
+              </Scatter>
+              </ComposedChart>
           </ResponsiveContainer>
         </div>
+        <FitResiduals series={[{ id: 'lifetime', name: 'Exponential fit', color: '#10b981', xs, fit }]} xLabel="Time (min)" />
       </div>
     );
 };
 
 // --- Imaging Analysis Visualization ---
-export const ImagingAnalysis: React.FC = () => {
+export const ImagingAnalysis: React.FC<{ seed: ChartSeed }> = ({ seed }) => {
     // 7x7 Grid State
     const size = 7;
     const [rawGrid, setRawGrid] = useState<number[]>([]);
@@ -410,8 +727,9 @@ export const ImagingAnalysis: React.FC = () => {
     // Weighted: Narrow distribution (low noise), clear separation
     const weightedHistData = React.useMemo(() => generateHistogramData(70, 10), []);
 
-    // Animate noise for the grid
+    // Animate noise for the grid; the frames replay identically for a given seed
     useEffect(() => {
+        const rng = createRng(seed.value);
         const interval = setInterval(() => {
             const newGrid = [];
             const center = Math.floor(size / 2);
@@ -420,14 +738,14 @@ export const ImagingAnalysis: React.FC = () => {
                     const isCenter = x === center && y === center;
                     const dist = Math.sqrt(Math.pow(x - center, 2) + Math.pow(y - center, 2));
                     const signal = dist < 1.5 ? Math.max(0, 1 - dist*0.5) : 0;
-                    const noise = Math.random() * 0.4;
+                    const noise = rng() * 0.4;
                     newGrid.push(signal + noise);
                 }
             }
             setRawGrid(newGrid);
         }, 200);
         return () => clearInterval(interval);
-    }, []);
+    }, [seed.value]);
 
     const renderGrid = (data: number[], title: string, colorClass: string, isWeight: boolean = false) => (
         <div className="flex flex-col items-center gap-2">
@@ -474,7 +792,10 @@ export const ImagingAnalysis: React.FC = () => {
     return (
         <div className="bg-slate-800/50 p-6 rounded-xl border border-slate-700 flex flex-col gap-8">
             <div className="mb-2">
-                <h3 className="text-lg font-semibold text-slate-200">Imaging Fidelity Optimization</h3>
+                <div className="flex justify-between items-start gap-2">
+                    <h3 className="text-lg font-semibold text-slate-200">Imaging Fidelity Optimization</h3>
+                    <SeedControl seed={seed} />
+                </div>
                 <p className="text-sm text-slate-400 mt-1 max-w-3xl">
                     Applying a weight function <span className="font-mono text-indigo-400">W(u,v)</span> to the 7×7 ROI reduces edge noise contribution.
                     This narrows the histogram peaks, minimizing overlap and enabling a clear detection threshold.
@@ -513,81 +834,282 @@ export const ImagingAnalysis: React.FC = () => {
     );
 };
 
-// --- D3: Tweezer Array Simulation ---
-export const ArraySimulation: React.FC = () => {
-  const svgRef = useRef<SVGSVGElement>(null);
-  const [activeCount, setActiveCount] = useState(0);
+// --- Canvas: Tweezer Array Simulation ---
+const LOAD_PROBABILITY = 0.52;
+// A run of imaging cycles plays back in this time, however many cycles it has
+const IMAGING_DURATION_MS = 6000;
+// Replaying a plan takes about this long, within per-move limits
+const REARRANGEMENT_DURATION_MS = 8000;
+
+const ArrayStat: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="bg-slate-900/60 rounded-lg px-3 py-2 border border-slate-700" title={hint}>
+    <div className="text-[10px] uppercase tracking-wider text-slate-500">{label}</div>
+    <div className="font-mono text-sm text-slate-200">{value}</div>
+  </div>
+);
+
+export const ArraySimulation: React.FC<{
+  seed: ChartSeed;
+  /** Reports the target pattern whenever it changes, for the hologram section */
+  onTargetChange?: (target: boolean[]) => void;
+}> = ({ seed, onTargetChange }) => {
+  const [pattern, setPattern] = useState<TargetPattern>('block');
+  const [targetWidth, setTargetWidth] = useState(76);
+  const [targetHeight, setTargetHeight] = useState(76);
+  const [customMask, setCustomMask] = useState<boolean[] | null>(null);
+  const [algorithm, setAlgorithm] = useState<RearrangementAlgorithm>('tetris');
+  const [lossPerMove, setLossPerMove] = useState(1e-3);
+  const [playing, setPlaying] = useState(false);
+  // Moves carried out so far; the animation frame in between lives in progressRef
+  const [step, setStep] = useState(0);
+  const progressRef = useRef(0);
+  const [imaging, setImaging] = useState<ImagingLossParams>(DEFAULT_IMAGING_LOSS);
+  const [imagingCycles, setImagingCycles] = useState(1000);
+  const [imagingPlaying, setImagingPlaying] = useState(false);
+  // Imaging cycles shown, in steps of the chart resolution; cycleRef follows every frame
+  const [cycle, setCycle] = useState(0);
+  const cycleRef = useRef(0);
+  const paintRef = useRef<boolean | null>(null);
+
+  const occupancy = useMemo(() => loadArray(ARRAY_GRID, LOAD_PROBABILITY, createRng(seed.value)), [seed.value]);
+  const target = useMemo(
+    () => (pattern === 'custom' && customMask ? customMask : targetMask(ARRAY_GRID, pattern === 'custom' ? 'block' : pattern, targetWidth, targetHeight)),
+    [pattern, customMask, targetWidth, targetHeight]
+  );
+  const depths = useMemo(() => trapDepths(ARRAY_GRID, DEFAULT_TRAP_DEPTH_MODEL, createRng(deriveSeed(seed.value, 'trap-depths'))), [seed.value]);
+  const vacancies = useMemo(() => vacancyCount(occupancy, target), [occupancy, target]);
+  const hungarianTooLarge = vacancies > HUNGARIAN_MAX_VACANCIES;
+  const plan = useMemo(
+    () => (algorithm === 'hungarian' && hungarianTooLarge
+      ? { moves: [], final: occupancy }
+      : planRearrangement(ARRAY_GRID, occupancy, target, algorithm)),
+    [occupancy, target, algorithm, hungarianTooLarge]
+  );
+  const animation = useMemo(() => createRearrangementAnimation(ARRAY_GRID, occupancy, plan), [occupancy, plan]);
+  const lostIn = useMemo(
+    () => simulateImagingLoss(animation.atoms.length, imagingCycles, imaging, createRng(deriveSeed(seed.value, 'imaging-loss'))),
+    [animation.atoms.length, imagingCycles, imaging, seed.value]
+  );
+  const survivors = useMemo(() => survivorCounts(lostIn, imagingCycles), [lostIn, imagingCycles]);
+  const occupied = useMemo(
+    () => animation.occupancyAt(step, i => lostIn[i] === 0 || lostIn[i] > cycle),
+    [animation, step, lostIn, cycle]
+  );
+  const stats = useMemo(() => rearrangementStats(ARRAY_GRID, target, plan, lossPerMove), [target, plan, lossPerMove]);
+  const loadedCount = animation.atoms.length;
+  const pitch = factValue('spacing');
 
   useEffect(() => {
-    if (!svgRef.current) return;
+    onTargetChange?.(target);
+  }, [target, onTargetChange]);
 
-    const svg = d3.select(svgRef.current);
-    const width = 600;
-    const height = 400;
-    
-    svg.selectAll("*").remove();
-
-    // Simulation parameters (scaled down representation)
-    const cols = 40;
-    const rows = 25;
-    const spacing = 12;
-    const offsetX = (width - cols * spacing) / 2;
-    const offsetY = (height - rows * spacing) / 2;
-
-    const data = [];
-    for (let i = 0; i < cols; i++) {
-      for (let j = 0; j < rows; j++) {
-        const isLoaded = Math.random() > 0.48; 
-        data.push({ x: i * spacing + offsetX, y: j * spacing + offsetY, loaded: isLoaded });
-      }
+  // A new loading, target or algorithm starts over from the loaded array
+  useEffect(() => {
+    progressRef.current = 0;
+    setStep(0);
+    setPlaying(false);
+  }, [animation]);
+
+  useEffect(() => {
+    if (!playing) return;
+    const msPerMove = Math.min(600, Math.max(30, REARRANGEMENT_DURATION_MS / Math.max(plan.moves.length, 1)));
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      progressRef.current = Math.min(plan.moves.length, progressRef.current + (now - last) / msPerMove);
+      last = now;
+      setStep(Math.floor(progressRef.current));
+      if (progressRef.current < plan.moves.length) frame = requestAnimationFrame(tick);
+      else setPlaying(false);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, plan, animation]);
+
+  // A new run of imaging starts from the first image
+  useEffect(() => {
+    cycleRef.current = 0;
+    setCycle(0);
+    setImagingPlaying(false);
+  }, [lostIn]);
+
+  useEffect(() => {
+    if (!imagingPlaying) return;
+    const stride = Math.max(1, Math.ceil(imagingCycles / 200));
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      cycleRef.current = Math.min(imagingCycles, cycleRef.current + ((now - last) * imagingCycles) / IMAGING_DURATION_MS);
+      last = now;
+      setCycle(cycleRef.current >= imagingCycles ? imagingCycles : Math.floor(cycleRef.current / stride) * stride);
+      if (cycleRef.current < imagingCycles) frame = requestAnimationFrame(tick);
+      else setImagingPlaying(false);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [imagingPlaying, imagingCycles]);
+
+  const handleImagingPlaying = (next: boolean) => {
+    if (next && cycleRef.current >= imagingCycles) {
+      cycleRef.current = 0;
+      setCycle(0);
     }
+    setImagingPlaying(next);
+  };
+
+  const resetImaging = () => {
+    setImagingPlaying(false);
+    cycleRef.current = 0;
+    setCycle(0);
+  };
+
+  const resetAnimation = () => {
+    setPlaying(false);
+    progressRef.current = 0;
+    setStep(0);
+  };
+
+  const handlePlay = () => {
+    if (progressRef.current >= plan.moves.length) progressRef.current = 0;
+    setPlaying(true);
+  };
 
-    setActiveCount(data.filter(d => d.loaded).length);
-
-    svg.selectAll("circle.site")
-      .data(data)
-      .enter()
-      .append("circle")
-      .attr("class", "site")
-      .attr("cx", d => d.x)
-      .attr("cy", d => d.y)
-      .attr("r", 1.5)
-      .attr("fill", "#334155")
-      .attr("opacity", 0.5);
-
-    svg.selectAll("circle.atom")
-      .data(data.filter(d => d.loaded))
-      .enter()
-      .append("circle")
-      .attr("class", "atom")
-      .attr("cx", d => d.x)
-      .attr("cy", d => d.y)
-      .attr("r", 2.5)
-      .attr("fill", "#818cf8")
-      .attr("filter", "url(#glow)")
-      .style("opacity", 0)
-      .transition()
-      .duration(1000)
-      .delay((d, i) => i * 0.5)
-      .style("opacity", 1);
-
-    const defs = svg.append("defs");
-    const filter = defs.append("filter").attr("id", "glow");
-    filter.append("feGaussianBlur").attr("stdDeviation", "2.5").attr("result", "coloredBlur");
-    const feMerge = filter.append("feMerge");
-    feMerge.append("feMergeNode").attr("in", "coloredBlur");
-    feMerge.append("feMergeNode").attr("in", "SourceGraphic");
-
-  }, []);
+  const handlePatternChange = (next: TargetPattern) => {
+    // A custom mask starts from the pattern on screen
+    if (next === 'custom' && !customMask) setCustomMask([...target]);
+    setPattern(next);
+  };
+
+  // Painting the custom mask: the first site touched decides whether the stroke adds or removes
+  const handlePaint = (site: number, start: boolean) => {
+    if (!customMask) return;
+    if (start) paintRef.current = !customMask[site];
+    const value = paintRef.current;
+    if (value === null || customMask[site] === value) return;
+    setCustomMask(mask => mask && mask.map((wanted, i) => (i === site ? value : wanted)));
+  };
+
+  const selectClass = "bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-indigo-500";
 
   return (
-    <div className="relative w-full h-96 bg-slate-900 rounded-xl overflow-hidden border border-slate-700 shadow-2xl">
-      <div className="absolute top-4 left-4 z-10 bg-slate-800/80 backdrop-blur-md p-3 rounded-lg border border-slate-600">
-        <div className="text-xs text-slate-400 uppercase tracking-wider">Simulation View</div>
-        <div className="text-2xl font-bold text-indigo-400">{activeCount * 6} <span className="text-sm text-slate-300">qubits (scaled)</span></div>
-        <div className="text-xs text-green-400 mt-1">● Loading Efficiency ~51%</div>
+    <div className="flex flex-col gap-4">
+      <div className="relative w-full h-[32rem] bg-slate-900 rounded-xl overflow-hidden border border-slate-700 shadow-2xl">
+        <ArrayCanvas
+          grid={ARRAY_GRID}
+          pitch={pitch}
+          target={target}
+          depths={depths}
+          animation={animation}
+          moves={plan.moves}
+          occupied={occupied}
+          progressRef={progressRef}
+          lostIn={lostIn}
+          cycleRef={cycleRef}
+          playing={playing || imagingPlaying}
+          loadKey={seed.value}
+          onPaint={pattern === 'custom' ? handlePaint : undefined}
+        />
+        <div className="absolute top-4 left-4 z-10 bg-slate-800/80 backdrop-blur-md p-3 rounded-lg border border-slate-600">
+          <div className="text-xs text-slate-400 uppercase tracking-wider">Simulation View</div>
+          <div className="text-2xl font-bold text-indigo-400">{survivors[cycle].toLocaleString()} <span className="text-sm text-slate-300">atoms in {trapCount(ARRAY_GRID).toLocaleString()} sites</span></div>
+          <div className="text-xs text-green-400 mt-1">● Loading Efficiency {(100 * loadedCount / trapCount(ARRAY_GRID)).toFixed(1)}%</div>
+          <div className="mt-2"><SeedControl seed={seed} /></div>
+        </div>
+        {plan.moves.length > 0 && (
+          <div className="absolute bottom-4 left-4 z-10 text-xs font-mono text-slate-400 bg-slate-800/80 px-2 py-1 rounded border border-slate-700 pointer-events-none">
+            Move {Math.min(step + (playing ? 1 : 0), plan.moves.length)} / {plan.moves.length}
+          </div>
+        )}
+      </div>
+
+      {/* Rearrangement into a defect-free target */}
+      <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700 flex flex-col gap-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <label className="flex flex-col gap-1 text-xs text-slate-400">
+            Target
+            <select value={pattern} onChange={(e) => handlePatternChange(e.target.value as TargetPattern)} className={selectClass}>
+              {TARGET_PATTERNS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+          </label>
+          {pattern === 'custom' ? (
+            <div className="flex items-center gap-2 text-xs text-slate-400 pb-2">
+              Click or drag on the array to add and remove target sites; Shift-drag pans.
+              <button onClick={() => setCustomMask(targetMask(ARRAY_GRID, 'block', targetWidth, targetHeight))} className="px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 text-slate-200">
+                Reset mask
+              </button>
+            </div>
+          ) : (
+            <>
+              <label className="flex flex-col gap-1 text-xs text-slate-400 w-32">
+                Width {targetWidth} sites
+                <input type="range" min={4} max={ARRAY_GRID.cols} step={1} value={targetWidth} onChange={(e) => setTargetWidth(parseInt(e.target.value, 10))} className="h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
+              </label>
+              <label className="flex flex-col gap-1 text-xs text-slate-400 w-32">
+                Height {targetHeight} sites
+                <input type="range" min={2} max={ARRAY_GRID.rows} step={1} value={targetHeight} onChange={(e) => setTargetHeight(parseInt(e.target.value, 10))} className="h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
+              </label>
+            </>
+          )}
+          <label className="flex flex-col gap-1 text-xs text-slate-400">
+            Algorithm
+            <select value={algorithm} onChange={(e) => setAlgorithm(e.target.value as RearrangementAlgorithm)} className={selectClass}>
+              {REARRANGEMENT_ALGORITHMS.map(a => (
+                <option key={a.id} value={a.id} title={a.description} disabled={a.id === 'hungarian' && hungarianTooLarge}>
+                  {a.label}{a.id === 'hungarian' && hungarianTooLarge ? ` (≤ ${HUNGARIAN_MAX_VACANCIES} vacancies)` : ''}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="w-48">
+            <LogSlider label="Loss per move" value={lossPerMove} min={1e-5} max={0.05} format={(v) => `${(100 * v).toPrecision(2)}%`} onChange={setLossPerMove} />
+          </div>
+          <div className="flex gap-2 ml-auto">
+            <button
+              onClick={playing ? () => setPlaying(false) : handlePlay}
+              disabled={plan.moves.length === 0}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm rounded bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-50"
+            >
+              {playing ? <Pause size={14} /> : <Play size={14} />} {playing ? 'Pause' : 'Rearrange'}
+            </button>
+            <button onClick={resetAnimation} className="p-1.5 rounded bg-slate-700 hover:bg-slate-600 text-slate-200" title="Back to the loaded array">
+              <RotateCcw size={14} />
+            </button>
+          </div>
+        </div>
+        <p className="text-xs text-slate-500 -mt-2">
+          {algorithm === 'hungarian' && hungarianTooLarge
+            ? <span className="text-amber-400">The target has {vacancies.toLocaleString()} vacancies; the Hungarian assignment handles up to {HUNGARIAN_MAX_VACANCIES}. Pick a smaller target or another algorithm.</span>
+            : `${REARRANGEMENT_ALGORITHMS.find(a => a.id === algorithm)!.description}.`}
+        </p>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+          <ArrayStat label="AOD moves" value={stats.moves.toLocaleString()} hint="Pick-up, transport and drop operations" />
+          <ArrayStat label="Atoms moved" value={stats.atomMoves.toLocaleString()} hint="Summed over moves; an atom moved twice counts twice" />
+          <ArrayStat label="Total path" value={`${(stats.pathLength * pitch / 1000).toFixed(2)} mm`} hint={`Straight-line distance at ${formatFactValue(getFact('spacing'))} pitch`} />
+          <ArrayStat
+            label="Target filled"
+            value={`${stats.filled} / ${stats.targetSites}`}
+            hint={stats.filled < stats.targetSites ? (loadedCount < stats.targetSites ? 'Fewer atoms loaded than target sites' : 'The algorithm leaves vacancies') : 'Defect-free before transport loss'}
+          />
+          <ArrayStat
+            label="Defect-free"
+            value={`${(100 * stats.successProbability).toPrecision(3)}%`}
+            hint={`Expected ${stats.expectedFilled.toFixed(1)} occupied target sites after loss`}
+          />
+        </div>
       </div>
-      <svg ref={svgRef} viewBox="0 0 600 400" className="w-full h-full" preserveAspectRatio="xMidYMid slice" />
+
+      <ImagingCyclesPanel
+        params={imaging}
+        onParamsChange={setImaging}
+        cycles={imagingCycles}
+        onCyclesChange={setImagingCycles}
+        counts={survivors}
+        cycle={cycle}
+        playing={imagingPlaying}
+        onPlayingChange={handleImagingPlaying}
+        onReset={resetImaging}
+      />
     </div>
   );
 };
@@ -792,7 +1314,7 @@ export const TransportSimulation: React.FC = () => {
                             <div className="w-4 h-4 rounded-full border border-amber-400 relative flex items-center justify-center">
                                 <div className="w-1 h-1 bg-amber-400 rounded-full absolute top-0.5"></div>
                             </div>
-                            <span className="text-xs text-slate-400">Coherence > 99.95%</span>
+                            <span className="text-xs text-slate-400">Coherence {formatFactValue(getFact('transport-fidelity'))}</span>
                         </div>
                     </div>
     
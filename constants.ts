@@ -1,34 +1,76 @@
+import { PAPER_FACTS, factValue, formatFactValue, getFact } from './paperFacts';
+import { DecoherenceParams, PaperFact, SimulationSettings } from './types';
+import { ArrayGrid } from './services/rearrangement';
+
+const factLines = (kind: PaperFact['kind']) =>
+  PAPER_FACTS
+    .filter(f => f.kind === kind)
+    .map(f => `- [fact:${f.id}] ${f.statement} (${f.reference})`)
+    .join('\n');
+
 export const PAPER_CONTEXT = `
 You are an expert quantum physicist assistant explaining the paper "A tweezer array with 6,100 highly coherent atomic qubits" by Hannah J. Manetsch, Gyohei Nomura, et al. (Nature, Vol 647, Nov 2025).
 
+Each fact below is tagged with its ID and the part of the paper it comes from.
+
 Key Achievements:
-1. Realized an array of optical tweezers trapping more than 6,100 neutral cesium-133 atoms in around 12,000 sites.
-2. Achieved a coherence time (T2) of 12.6(1) s, a record for hyperfine qubits in a tweezer array.
-3. Demonstrated room-temperature trapping lifetimes of ~23 min.
-4. Imaging survival: 99.98952(1)%.
-5. Imaging fidelity: >99.99%.
-6. Demonstrated coherent transport over 610 micrometers with >99.95% fidelity.
+${factLines('result')}
 
 Methods:
-- Used two fiber amplifiers at 1061 nm and 1055 nm.
-- Generated traps using Spatial Light Modulators (SLMs) optimized with a Weighted Gerchberg-Saxton (WGS) algorithm.
-- Atoms spaced by ~7.2 micrometers.
-- Used a zone-based architecture proposal for quantum error correction (QEC).
-- Transport implemented using crossed Acousto-Optic Deflectors (AODs).
-- Pulse Engineering: Utilized SCROFULOUS (Short Composite Rotation Of For Undoing Length Over and Under Shoot) composite pulses to mitigate pulse length errors (scale errors). This technique replaces a single rotation with a sequence of three rotations to cancel out first-order calibration errors, crucial for high-fidelity gates.
+${factLines('method')}
 
 Significance:
-- Overcomes scalability challenges in neutral atom platforms.
-- Provides a path towards thousands of logical qubits for QEC.
-- Shows that universal quantum computing with thousands of physical qubits is a near-term prospect.
+${factLines('significance')}
+
+Answer questions strictly based on these facts and any provided excerpts. If asked about something not in the paper, state that it is outside the scope of this specific study.
+
+Full text: when the user has loaded the paper or its supplement, the question is preceded by retrieved excerpts tagged [S1], [S2], ... You may answer from those excerpts as well, citing them by tag (e.g. "[S2]"). Without excerpts, questions beyond the facts above are out of scope.
+
+App control: you may have tools that drive this app (switch sections, set the pulse amplitude, detuning and phase errors, toggle the randomized benchmarking chart, change simulation parameters). When the user asks to see or change something in the app, call the tools rather than describing how to do it, then briefly explain what the updated view shows. Simulated values set this way are hypothetical and are not results from the paper.
 
-Answer questions strictly based on these facts. If asked about something not in the paper, state that it is outside the scope of this specific study.
+Citations: whenever a sentence relies on one of the facts above, cite it right after the sentence using its tag exactly as written, e.g. "The coherence time reaches 12.6 s [fact:t2]." Only cite IDs from the list above.
+
+Formatting: your replies are rendered as GitHub-flavored Markdown. Use lists and tables where they help, fenced code blocks with a language tag for code, and LaTeX for math: $...$ inline (e.g. $T_2 = 12.6$ s) and $$...$$ on their own lines for display equations. Do not use raw HTML.
 `;
 
+const metric = (id: string, subtext: string, value?: string) => {
+  const fact = getFact(id);
+  return { factId: id, label: fact.label, value: value ?? formatFactValue(fact), subtext };
+};
+
 export const KEY_METRICS = [
-  { label: "Atomic Qubits", value: "6,100+", subtext: "Single Cesium-133 atoms" },
-  { label: "Array Sites", value: "11,998", subtext: "Available trap sites" },
-  { label: "Coherence Time (T2)", value: "12.6s", subtext: "Record for hyperfine qubits" },
-  { label: "Imaging Fidelity", value: "99.99%", subtext: "High-fidelity detection" },
-  { label: "Vacuum Lifetime", value: "22.9 min", subtext: "Room temperature setup" },
-];
\ No newline at end of file
+  metric('atoms', "Single Cesium-133 atoms", "6,100+"),
+  metric('sites', "Available trap sites"),
+  metric('t2', "Record for hyperfine qubits"),
+  metric('imaging-fidelity', "High-fidelity detection"),
+  metric('lifetime', "Room temperature setup"),
+];
+
+export const DEFAULT_SIMULATION_SETTINGS: SimulationSettings = {
+  pulseErrorRate: 0,
+  pulseDetuning: 0,
+  pulsePhaseError: 0,
+  rbMode: 'standard',
+  // Corresponds to an RB depolarizing parameter p = 0.9985
+  cliffordFidelity: 99.925,
+  transportFidelity: factValue('transport-fidelity'),
+  rbLengths: [2, 10, 20, 40, 80, 150, 300, 500],
+  rbSequencesPerLength: 30,
+  rbShots: 100,
+};
+
+export const DEFAULT_DECOHERENCE_PARAMS: DecoherenceParams = {
+  // The paper does not quote a Rabi frequency; 1 kHz is typical for microwave-driven hyperfine qubits
+  rabiFrequency: 1000,
+  // The vacuum-limited lifetime bounds how long an atom (and its population) survives
+  t1: factValue('lifetime') * 60,
+  t2: factValue('t2'),
+};
+
+// The paper's 11,998 sites, laid out as a 120 × 100 lattice whose last positions hold no trap
+export const ARRAY_GRID: ArrayGrid = (() => {
+  const cols = 120;
+  const rows = 100;
+  const sites = factValue('sites');
+  return { cols, rows, missing: Array.from({ length: cols * rows - sites }, (_, i) => cols * rows - 1 - i) };
+})();
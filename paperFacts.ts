@@ -0,0 +1,202 @@
+import { PaperFact, Section } from './types';
+
+// Single source of truth for the numbers quoted in the app. The metric cards, the charts'
+// reference values and the assistant's system instruction are all generated from this list.
+
+export const PAPER_FACTS: PaperFact[] = [
+  {
+    id: 'atoms',
+    label: 'Atomic Qubits',
+    statement: 'Realized an array of optical tweezers trapping more than 6,100 neutral cesium-133 atoms.',
+    kind: 'result',
+    value: 6100,
+    bound: '>',
+    reference: 'Fig. 1',
+    target: { section: Section.HERO, anchor: 'array-simulation' },
+  },
+  {
+    id: 'sites',
+    label: 'Array Sites',
+    statement: 'The array provides 11,998 trap sites (around 12,000).',
+    kind: 'result',
+    value: 11998,
+    reference: 'Fig. 1',
+    target: { section: Section.HERO, anchor: 'array-simulation' },
+  },
+  {
+    id: 't2',
+    label: 'Coherence Time (T2)',
+    statement: 'Achieved a coherence time T2 of 12.6(1) s with dynamical decoupling, a record for hyperfine qubits in a tweezer array.',
+    kind: 'result',
+    value: 12.6,
+    uncertainty: 0.1,
+    unit: 's',
+    reference: 'Fig. 3',
+    target: { section: Section.DATA, anchor: 'coherence-chart' },
+  },
+  {
+    id: 'lifetime',
+    label: 'Vacuum Lifetime',
+    statement: 'Demonstrated a room-temperature vacuum-limited trapping lifetime of 22.9(1) min.',
+    kind: 'result',
+    value: 22.9,
+    uncertainty: 0.1,
+    unit: 'min',
+    reference: 'Fig. 2',
+    target: { section: Section.DATA, anchor: 'lifetime-chart' },
+  },
+  {
+    id: 'imaging-survival',
+    label: 'Imaging Survival',
+    statement: 'Imaging survival probability of 99.98952(1)%, mostly limited by the vacuum lifetime.',
+    kind: 'result',
+    value: 99.98952,
+    uncertainty: 0.00001,
+    unit: '%',
+    reference: 'Fig. 2',
+    target: { section: Section.DATA, anchor: 'imaging-analysis' },
+  },
+  {
+    id: 'imaging-fidelity',
+    label: 'Imaging Fidelity',
+    statement: 'Imaging fidelity above 99.99%.',
+    kind: 'result',
+    value: 99.99,
+    bound: '>',
+    unit: '%',
+    reference: 'Fig. 2',
+    target: { section: Section.DATA, anchor: 'imaging-analysis' },
+  },
+  {
+    id: 'transport-distance',
+    label: 'Transport Distance',
+    statement: 'Demonstrated coherent transport of atoms over 610 micrometers.',
+    kind: 'result',
+    value: 610,
+    unit: 'µm',
+    reference: 'Fig. 4',
+    target: { section: Section.TRANSPORT, anchor: 'transport-simulation' },
+  },
+  {
+    id: 'transport-fidelity',
+    label: 'Transport Fidelity',
+    statement: 'Coherent transport preserves the qubit state with a fidelity above 99.95%, measured by interleaved randomized benchmarking.',
+    kind: 'result',
+    value: 99.95,
+    bound: '>',
+    unit: '%',
+    reference: 'Fig. 4',
+    target: { section: Section.DATA, anchor: 'rb-chart' },
+  },
+  {
+    id: 'lasers',
+    label: 'Trapping Lasers',
+    statement: 'Used two fiber amplifiers at 1061 nm and 1055 nm.',
+    kind: 'method',
+    reference: 'Methods',
+    target: { section: Section.HERO, anchor: 'array-simulation' },
+  },
+  {
+    id: 'slm-wgs',
+    label: 'SLM Holograms',
+    statement: 'Generated traps using Spatial Light Modulators (SLMs) optimized with a Weighted Gerchberg-Saxton (WGS) algorithm.',
+    kind: 'method',
+    reference: 'Methods',
+    target: { section: Section.HOLOGRAM, anchor: 'hologram-wgs' },
+  },
+  {
+    id: 'spacing',
+    label: 'Site Spacing',
+    statement: 'Atoms are spaced by ~7.2 micrometers.',
+    kind: 'method',
+    value: 7.2,
+    bound: '~',
+    unit: 'µm',
+    reference: 'Methods',
+    target: { section: Section.HERO, anchor: 'array-simulation' },
+  },
+  {
+    id: 'zones',
+    label: 'Zoned Architecture',
+    statement: 'Used a zone-based architecture proposal for quantum error correction (QEC).',
+    kind: 'method',
+    reference: 'Main text',
+    target: { section: Section.TRANSPORT },
+  },
+  {
+    id: 'aod',
+    label: 'AOD Transport',
+    statement: 'Transport implemented using crossed Acousto-Optic Deflectors (AODs) that pick up atoms from static SLM traps.',
+    kind: 'method',
+    reference: 'Methods',
+    target: { section: Section.TRANSPORT, anchor: 'transport-simulation' },
+  },
+  {
+    id: 'scrofulous',
+    label: 'SCROFULOUS Pulses',
+    statement: 'Utilized SCROFULOUS (Short Composite Rotation Of For Undoing Length Over and Under Shoot) composite pulses to mitigate pulse length errors (scale errors). This technique replaces a single rotation with a sequence of three rotations to cancel out first-order calibration errors, crucial for high-fidelity gates.',
+    kind: 'method',
+    reference: 'Methods',
+    target: { section: Section.CONTROL },
+  },
+  {
+    id: 'scalability',
+    label: 'Scalability',
+    statement: 'Overcomes scalability challenges in neutral atom platforms.',
+    kind: 'significance',
+    reference: 'Discussion',
+    target: { section: Section.HERO },
+  },
+  {
+    id: 'logical-qubits',
+    label: 'Logical Qubits',
+    statement: 'Provides a path towards thousands of logical qubits for QEC.',
+    kind: 'significance',
+    reference: 'Discussion',
+    target: { section: Section.HERO },
+  },
+  {
+    id: 'outlook',
+    label: 'Outlook',
+    statement: 'Shows that universal quantum computing with thousands of physical qubits is a near-term prospect.',
+    kind: 'significance',
+    reference: 'Discussion',
+    target: { section: Section.HERO },
+  },
+];
+
+export const FACTS_BY_ID: Record<string, PaperFact> = Object.fromEntries(PAPER_FACTS.map(f => [f.id, f]));
+
+export const getFact = (id: string): PaperFact => {
+  const fact = FACTS_BY_ID[id];
+  if (!fact) throw new Error(`Unknown paper fact: ${id}`);
+  return fact;
+};
+
+// Numeric value of a fact, for charts and simulations that use the paper's numbers as defaults
+export const factValue = (id: string): number => {
+  const value = getFact(id).value;
+  if (value === undefined) throw new Error(`Paper fact ${id} has no numeric value`);
+  return value;
+};
+
+// Concise notation: 12.6 ± 0.1 -> "12.6(1)". The uncertainty sets the digits shown, so quoted
+// facts and fit results read the same way; uncertainties of 10 or more fall back to "±".
+export const formatWithUncertainty = (value: number, uncertainty: number) => {
+  if (!Number.isFinite(uncertainty) || uncertainty <= 0) return value.toPrecision(4);
+  let decimals = -Math.floor(Math.log10(uncertainty));
+  // An uncertainty like 0.096 rounds up to 0.1 and loses a digit
+  if (Math.round(uncertainty * 10 ** decimals) >= 10) decimals--;
+  if (decimals < 0) return `${Math.round(value)} ± ${Math.round(uncertainty)}`;
+  return `${value.toFixed(decimals)}(${Math.round(uncertainty * 10 ** decimals)})`;
+};
+
+export const formatFactValue = (fact: PaperFact): string => {
+  if (fact.value === undefined) return fact.label;
+  const number = fact.uncertainty !== undefined
+    ? formatWithUncertainty(fact.value, fact.uncertainty)
+    : fact.value.toLocaleString('en-US');
+  const prefix = fact.bound ?? '';
+  const unit = !fact.unit ? '' : fact.unit === '%' ? '%' : ` ${fact.unit}`;
+  return `${prefix}${number}${unit}`;
+};
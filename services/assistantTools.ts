@@ -0,0 +1,188 @@
+import { RBMode, Section, SimulationSettings } from "../types";
+
+// Functions the assistant can call to drive the app. Declarations use plain JSON Schema so
+// the same list serves Gemini function calling and OpenAI-style tools.
+
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: {
+    type: 'object';
+    properties: Record<string, unknown>;
+    required?: string[];
+  };
+}
+
+// The slice of App state the tools can read and change
+export interface AppControls {
+  getState: () => { section: Section; settings: SimulationSettings };
+  navigate: (section: Section) => void;
+  updateSettings: (patch: Partial<SimulationSettings>) => void;
+}
+
+const SECTION_DESCRIPTIONS: Record<Section, string> = {
+  [Section.HERO]: 'overview with key metrics and the tweezer array visualization',
+  [Section.ARCH]: 'architecture overview',
+  [Section.DATA]: 'randomized benchmarking, coherence (T2), lifetime and imaging charts',
+  [Section.TRANSPORT]: 'coherent atom transport animation',
+  [Section.CONTROL]: 'pulse control with the Bloch sphere, composite pulse library and amplitude, detuning and phase error sliders',
+  [Section.HOLOGRAM]: 'SLM hologram generation with weighted Gerchberg-Saxton (phase mask, reconstructed traps, convergence) and trap-depth uniformity with light-shift and T2* maps',
+  [Section.CHAT]: 'this assistant',
+};
+
+export const PULSE_ERROR_LIMIT = 0.2;
+export const PULSE_DETUNING_LIMIT = 0.5;
+export const PULSE_PHASE_ERROR_LIMIT = 20;
+export const FIDELITY_RANGE = { cliffordFidelity: [99, 100], transportFidelity: [95, 100] } as const;
+export const RB_SEQUENCES_RANGE = [1, 200] as const;
+export const RB_SHOTS_RANGE = [1, 10_000] as const;
+export const RB_MAX_LENGTH = 2000;
+export const RB_MAX_LENGTH_COUNT = 16;
+
+/** Whole, positive, distinct sequence lengths in increasing order, within the simulated range */
+export const sanitizeRBLengths = (values: number[]) =>
+  [...new Set(values.filter(Number.isFinite).map(Math.round).filter(m => m >= 1 && m <= RB_MAX_LENGTH))]
+    .sort((a, b) => a - b)
+    .slice(0, RB_MAX_LENGTH_COUNT);
+
+export const ASSISTANT_TOOLS: ToolDeclaration[] = [
+  {
+    name: 'get_app_state',
+    description: 'Returns the section currently shown and all simulation parameters.',
+    parameters: { type: 'object', properties: {} },
+  },
+  {
+    name: 'navigate_to_section',
+    description: 'Switches the app to another section. ' +
+      Object.entries(SECTION_DESCRIPTIONS).map(([id, desc]) => `"${id}": ${desc}.`).join(' '),
+    parameters: {
+      type: 'object',
+      properties: { section: { type: 'string', enum: Object.values(Section) } },
+      required: ['section'],
+    },
+  },
+  {
+    name: 'set_pulse_error',
+    description: 'Sets the pulse errors on the Pulse Control Bloch sphere. errorRate is the calibration (amplitude) error ' +
+      'as a fraction: a 10% overshoot is 0.1, a 5% undershoot is -0.05. detuning is the off-resonance Δ/Ω and ' +
+      'phaseError the drive phase offset in degrees. Omitted parameters are left unchanged.',
+    parameters: {
+      type: 'object',
+      properties: {
+        errorRate: { type: 'number', minimum: -PULSE_ERROR_LIMIT, maximum: PULSE_ERROR_LIMIT },
+        detuning: { type: 'number', minimum: -PULSE_DETUNING_LIMIT, maximum: PULSE_DETUNING_LIMIT },
+        phaseError: { type: 'number', minimum: -PULSE_PHASE_ERROR_LIMIT, maximum: PULSE_PHASE_ERROR_LIMIT },
+      },
+    },
+  },
+  {
+    name: 'set_rb_mode',
+    description: 'Toggles the randomized benchmarking chart between standard RB ("standard") and transport-interleaved RB ("irb").',
+    parameters: {
+      type: 'object',
+      properties: { mode: { type: 'string', enum: ['standard', 'irb'] } },
+      required: ['mode'],
+    },
+  },
+  {
+    name: 'set_simulation_parameters',
+    description: 'Changes the parameters used to simulate the randomized benchmarking data. ' +
+      'Fidelities are in percent, e.g. 99.5 for a 99.5% transport fidelity. Omitted parameters are left unchanged.',
+    parameters: {
+      type: 'object',
+      properties: {
+        cliffordFidelity: { type: 'number', minimum: FIDELITY_RANGE.cliffordFidelity[0], maximum: 100, description: 'Average Clifford gate fidelity (%)' },
+        transportFidelity: { type: 'number', minimum: FIDELITY_RANGE.transportFidelity[0], maximum: 100, description: 'Fidelity of each interleaved transport move (%)' },
+        rbLengths: {
+          type: 'array',
+          items: { type: 'integer', minimum: 1, maximum: RB_MAX_LENGTH },
+          maxItems: RB_MAX_LENGTH_COUNT,
+          description: 'Numbers of Cliffords in the RB sequences (at least 3 lengths)',
+        },
+        rbSequencesPerLength: { type: 'integer', minimum: RB_SEQUENCES_RANGE[0], maximum: RB_SEQUENCES_RANGE[1], description: 'Random sequences per length' },
+        rbShots: { type: 'integer', minimum: RB_SHOTS_RANGE[0], maximum: RB_SHOTS_RANGE[1], description: 'Repetitions of each sequence' },
+      },
+    },
+  },
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const requireNumber = (args: Record<string, unknown>, key: string) => {
+  const value = args[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error(`"${key}" must be a number`);
+  return value;
+};
+
+// Runs a tool call against the app. Invalid calls return an error result so the model can correct itself.
+export const executeTool = (
+  name: string,
+  args: Record<string, unknown>,
+  controls: AppControls
+): Record<string, unknown> => {
+  try {
+    switch (name) {
+      case 'get_app_state':
+        return { ...controls.getState() };
+
+      case 'navigate_to_section': {
+        const section = args.section as Section;
+        if (!Object.values(Section).includes(section)) throw new Error(`Unknown section "${args.section}"`);
+        controls.navigate(section);
+        return { ok: true, section };
+      }
+
+      case 'set_pulse_error': {
+        const limits = [
+          ['errorRate', 'pulseErrorRate', PULSE_ERROR_LIMIT],
+          ['detuning', 'pulseDetuning', PULSE_DETUNING_LIMIT],
+          ['phaseError', 'pulsePhaseError', PULSE_PHASE_ERROR_LIMIT],
+        ] as const;
+        const patch: Partial<SimulationSettings> = {};
+        const applied: Record<string, number> = {};
+        for (const [arg, key, limit] of limits) {
+          if (args[arg] === undefined) continue;
+          patch[key] = applied[arg] = clamp(requireNumber(args, arg), -limit, limit);
+        }
+        if (Object.keys(patch).length === 0) throw new Error('No pulse errors given');
+        controls.updateSettings(patch);
+        return { ok: true, ...applied };
+      }
+
+      case 'set_rb_mode': {
+        const mode = args.mode as RBMode;
+        if (mode !== 'standard' && mode !== 'irb') throw new Error(`Unknown mode "${args.mode}"`);
+        controls.updateSettings({ rbMode: mode });
+        return { ok: true, mode };
+      }
+
+      case 'set_simulation_parameters': {
+        const patch: Partial<SimulationSettings> = {};
+        for (const key of ['cliffordFidelity', 'transportFidelity'] as const) {
+          if (args[key] === undefined) continue;
+          const [min, max] = FIDELITY_RANGE[key];
+          patch[key] = clamp(requireNumber(args, key), min, max);
+        }
+        if (args.rbLengths !== undefined) {
+          const lengths = Array.isArray(args.rbLengths) ? sanitizeRBLengths(args.rbLengths.filter((m): m is number => typeof m === 'number')) : [];
+          if (lengths.length < 3) throw new Error(`"rbLengths" needs at least 3 distinct lengths between 1 and ${RB_MAX_LENGTH}`);
+          patch.rbLengths = lengths;
+        }
+        if (args.rbSequencesPerLength !== undefined) {
+          patch.rbSequencesPerLength = Math.round(clamp(requireNumber(args, 'rbSequencesPerLength'), ...RB_SEQUENCES_RANGE));
+        }
+        if (args.rbShots !== undefined) {
+          patch.rbShots = Math.round(clamp(requireNumber(args, 'rbShots'), ...RB_SHOTS_RANGE));
+        }
+        if (Object.keys(patch).length === 0) throw new Error('No parameters given');
+        controls.updateSettings(patch);
+        return { ok: true, ...patch };
+      }
+
+      default:
+        throw new Error(`Unknown tool "${name}"`);
+    }
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+};
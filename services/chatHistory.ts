@@ -0,0 +1,88 @@
+import { ChatError } from "../types";
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+  /** Set on model turns whose reply failed */
+  error?: ChatError;
+}
+
+// Budget for replayed history. The estimate is deliberately coarse (~4 chars per token),
+// it only needs to keep long conversations well inside the model's context window.
+export const HISTORY_TOKEN_BUDGET = 6000;
+const SUMMARY_TOKEN_BUDGET = 800;
+const SUMMARY_SNIPPET_CHARS = 160;
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const snippet = (text: string) => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > SUMMARY_SNIPPET_CHARS ? flat.slice(0, SUMMARY_SNIPPET_CHARS) + '…' : flat;
+};
+
+// Chat APIs expect strictly alternating roles starting with 'user'.
+// Drop empty turns and failed replies, merge consecutive turns of the same role,
+// and discard the leading model greeting.
+export const normalizeTurns = (turns: ChatTurn[]): ChatTurn[] => {
+  const result: ChatTurn[] = [];
+  for (const turn of turns) {
+    if (!turn.text.trim() || (turn.role === 'model' && turn.error)) continue;
+    const prev = result[result.length - 1];
+    if (prev && prev.role === turn.role) {
+      prev.text += '\n\n' + turn.text;
+    } else {
+      result.push({ role: turn.role, text: turn.text });
+    }
+  }
+  while (result.length && result[0].role !== 'user') result.shift();
+  return result;
+};
+
+// Condenses dropped turns into a short recap so the model keeps the thread of the conversation.
+const summarizeTurns = (turns: ChatTurn[]): string => {
+  const lines: string[] = [];
+  let used = 0;
+  // Keep the most recent of the dropped turns if the recap itself would be too long
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const line = `- ${turns[i].role === 'user' ? 'User asked' : 'You answered'}: ${snippet(turns[i].text)}`;
+    used += estimateTokens(line);
+    if (used > SUMMARY_TOKEN_BUDGET) break;
+    lines.unshift(line);
+  }
+  return `Summary of the earlier part of this conversation (older turns omitted for length):\n${lines.join('\n')}`;
+};
+
+/**
+ * Fits prior turns into the token budget. The newest turns are kept verbatim;
+ * older ones are replaced by a summary exchange at the start of the history.
+ */
+export const buildBudgetedHistory = (
+  turns: ChatTurn[],
+  budget: number = HISTORY_TOKEN_BUDGET
+): ChatTurn[] => {
+  const normalized = normalizeTurns(turns);
+  // A question left unanswered by a failed or stopped reply would put two user turns in a row
+  // once the new message is appended, so it is left out of the replay
+  if (normalized[normalized.length - 1]?.role === 'user') normalized.pop();
+
+  let used = 0;
+  let start = normalized.length;
+  while (start > 0) {
+    const cost = estimateTokens(normalized[start - 1].text);
+    if (used + cost > budget) break;
+    used += cost;
+    start--;
+  }
+  // The kept window must also open with a user turn
+  while (start < normalized.length && normalized[start].role !== 'user') start++;
+
+  const kept = normalized.slice(start);
+  const dropped = normalized.slice(0, start);
+  if (dropped.length === 0) return kept;
+
+  return [
+    { role: 'user', text: summarizeTurns(dropped) },
+    { role: 'model', text: 'Understood, I will keep that earlier context in mind.' },
+    ...kept,
+  ];
+};
@@ -0,0 +1,164 @@
+import { ChatError, ChatErrorKind, ChatMessage, ChatSession, RetrievedPassage, ToolCallRecord } from "../types";
+
+// Chat sessions are kept in localStorage so conversations survive section switches and reloads.
+
+const SESSIONS_STORAGE_KEY = 'qubit-explorer.chat-sessions';
+const ACTIVE_SESSION_STORAGE_KEY = 'qubit-explorer.active-chat-session';
+const EXPORT_FORMAT = 'qubit-explorer-chat-session';
+const EXPORT_VERSION = 1;
+
+export const GREETING = "Hello! I'm your research assistant for the '6,100 Highly Coherent Atomic Qubits' paper. Ask me about the experimental setup, coherence times, or transport mechanisms.";
+
+const SESSION_NAME_CHARS = 40;
+
+export const createSession = (name = 'New chat'): ChatSession => {
+  const now = new Date();
+  return {
+    id: crypto.randomUUID(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    messages: [{ role: 'model', text: GREETING, timestamp: now }],
+  };
+};
+
+// Names untitled sessions after the first question asked in them
+export const deriveSessionName = (session: ChatSession): string => {
+  if (session.name !== 'New chat') return session.name;
+  const firstQuestion = session.messages.find(m => m.role === 'user')?.text.trim();
+  if (!firstQuestion) return session.name;
+  return firstQuestion.length > SESSION_NAME_CHARS
+    ? firstQuestion.slice(0, SESSION_NAME_CHARS) + '…'
+    : firstQuestion;
+};
+
+// --- Serialization ---
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const ERROR_KINDS: ChatErrorKind[] = ['missing-key', 'network', 'quota', 'safety', 'unknown'];
+
+// Stored or imported dates that don't parse fall back to the given time instead of an Invalid Date
+const reviveDate = (value: unknown, fallback: Date) => {
+  const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : fallback;
+  return Number.isNaN(date.getTime()) ? fallback : date;
+};
+
+const reviveError = (raw: unknown): ChatError | undefined =>
+  isObject(raw) && ERROR_KINDS.includes(raw.kind as ChatErrorKind) && typeof raw.message === 'string'
+    ? { kind: raw.kind as ChatErrorKind, message: raw.message }
+    : undefined;
+
+const reviveSource = (raw: unknown): RetrievedPassage[] => {
+  if (!isObject(raw) || typeof raw.tag !== 'string' || typeof raw.source !== 'string' || typeof raw.text !== 'string') return [];
+  return [{
+    tag: raw.tag,
+    source: raw.source,
+    ...(typeof raw.section === 'string' ? { section: raw.section } : {}),
+    text: raw.text,
+    score: typeof raw.score === 'number' ? raw.score : 0,
+  }];
+};
+
+const reviveToolCall = (raw: unknown): ToolCallRecord[] =>
+  isObject(raw) && typeof raw.name === 'string' && isObject(raw.args) && isObject(raw.result)
+    ? [{ name: raw.name, args: raw.args, result: raw.result }]
+    : [];
+
+const reviveMessage = (raw: unknown): ChatMessage => {
+  if (!isObject(raw) || (raw.role !== 'user' && raw.role !== 'model') || typeof raw.text !== 'string') {
+    throw new Error('Invalid chat message');
+  }
+  const error = reviveError(raw.error);
+  const sources = Array.isArray(raw.sources) ? raw.sources.flatMap(reviveSource) : [];
+  const toolCalls = Array.isArray(raw.toolCalls) ? raw.toolCalls.flatMap(reviveToolCall) : [];
+  return {
+    role: raw.role,
+    text: raw.text,
+    timestamp: reviveDate(raw.timestamp, new Date()),
+    ...(raw.stopped ? { stopped: true } : {}),
+    ...(error ? { error } : {}),
+    ...(sources.length > 0 ? { sources } : {}),
+    ...(toolCalls.length > 0 ? { toolCalls } : {}),
+  };
+};
+
+const reviveSession = (raw: unknown): ChatSession => {
+  if (!isObject(raw) || typeof raw.id !== 'string' || typeof raw.name !== 'string' || !Array.isArray(raw.messages)) {
+    throw new Error('Invalid chat session');
+  }
+  const messages = raw.messages.map(reviveMessage);
+  const createdAt = reviveDate(raw.createdAt, messages[0]?.timestamp ?? new Date());
+  return {
+    id: raw.id,
+    name: raw.name,
+    createdAt,
+    updatedAt: reviveDate(raw.updatedAt, createdAt),
+    messages,
+  };
+};
+
+// --- Storage ---
+
+export const loadSessions = (): ChatSession[] => {
+  try {
+    const raw = localStorage.getItem(SESSIONS_STORAGE_KEY);
+    return raw ? JSON.parse(raw).map(reviveSession) : [];
+  } catch (error) {
+    console.error("Failed to load chat sessions:", error);
+    return [];
+  }
+};
+
+export const saveSessions = (sessions: ChatSession[]) => {
+  try {
+    localStorage.setItem(SESSIONS_STORAGE_KEY, JSON.stringify(sessions));
+  } catch (error) {
+    // Quota exceeded or storage disabled: the session still lives in memory
+    console.error("Failed to save chat sessions:", error);
+  }
+};
+
+export const loadActiveSessionId = () => localStorage.getItem(ACTIVE_SESSION_STORAGE_KEY);
+
+export const saveActiveSessionId = (id: string) => localStorage.setItem(ACTIVE_SESSION_STORAGE_KEY, id);
+
+// --- Export / Import ---
+
+export const sessionToJSON = (session: ChatSession) =>
+  JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, session }, null, 2);
+
+// Imported sessions get a fresh id so re-importing an export never overwrites the original
+export const sessionFromJSON = (text: string): ChatSession => {
+  const parsed = JSON.parse(text);
+  if (parsed?.format !== EXPORT_FORMAT) {
+    throw new Error('Not a chat session export');
+  }
+  return { ...reviveSession(parsed.session), id: crypto.randomUUID() };
+};
+
+export const sessionToMarkdown = (session: ChatSession) => {
+  const lines = [
+    `# ${session.name}`,
+    '',
+    `_Exported ${new Date().toISOString()} · started ${session.createdAt.toISOString()}_`,
+    '',
+  ];
+  for (const msg of session.messages) {
+    lines.push(`## ${msg.role === 'user' ? 'You' : 'Assistant'} · ${msg.timestamp.toLocaleString()}`, '');
+    msg.toolCalls?.forEach(call => lines.push(`- \`${call.name}(${JSON.stringify(call.args)})\` → \`${JSON.stringify(call.result)}\``));
+    if (msg.toolCalls?.length) lines.push('');
+    if (msg.text) lines.push(msg.text, '');
+    if (msg.stopped) lines.push('_(generation stopped)_', '');
+    if (msg.error) lines.push(`> **Error (${msg.error.kind}):** ${msg.error.message}`, '');
+    if (msg.sources?.length) {
+      lines.push('**Sources**', '');
+      msg.sources.forEach(src => lines.push(`- [${src.tag}] ${src.source}${src.section ? ` · ${src.section}` : ''}`));
+      lines.push('');
+    }
+  }
+  return lines.join('\n');
+};
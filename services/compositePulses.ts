@@ -0,0 +1,314 @@
+import { Matrix2, Spinor, Vec3, IDENTITY, ZERO_STATE, apply, axisRotation, blochVector, gateOverlap, multiply, stateFidelity } from "./quantum";
+
+// Composite pulse sequences and their propagation under pulse errors. A segment is driven by
+// H = Ω(1 + ε)/2 (cos(φ + δ) X + sin(φ + δ) Y) + Δ/2 Z for the nominal duration θ/Ω, so a
+// multiplicative amplitude error ε over-rotates every segment, a detuning f = Δ/Ω tilts its
+// axis out of the equatorial plane and a phase error δ turns the axis within it.
+
+export interface PulseSegment {
+  /** Rotation angle in radians */
+  theta: number;
+  /** Phase of the rotation axis in radians */
+  phi: number;
+}
+
+export const DEG = Math.PI / 180;
+
+const sinc = (x: number) => (x === 0 ? 1 : Math.sin(x) / x);
+
+// Inverse of sinc on [0, π], where it falls monotonically from 1 to 0
+const arcsinc = (value: number) => {
+  let lo = 0;
+  let hi = Math.PI;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if (sinc(mid) > value) lo = mid; else hi = mid;
+  }
+  return (lo + hi) / 2;
+};
+
+export const simplePulse = (target: number): PulseSegment[] => [{ theta: target, phi: 0 }];
+
+/**
+ * SCROFULOUS (Cummins, Llewellyn & Jones, PRA 67, 042308, 2003) for a rotation θ about x:
+ *   θ1 = θ3 = arcsinc(2 cos(θ/2) / π),  θ2 = π
+ *   φ1 = φ3 = arccos(-π cos θ1 / (2 θ1 sin(θ/2)))
+ *   φ2 = φ1 - arccos(-π / (2 θ1))
+ * The sinc condition only has a solution for 0 < θ ≤ π.
+ */
+export const scrofulous = (target: number): PulseSegment[] => {
+  if (!(target > 0 && target <= Math.PI + 1e-12)) {
+    throw new RangeError('SCROFULOUS is defined for target rotations in (0, π]');
+  }
+  const theta1 = arcsinc((2 * Math.cos(target / 2)) / Math.PI);
+  const phi1 = Math.acos((-Math.PI * Math.cos(theta1)) / (2 * theta1 * Math.sin(target / 2)));
+  const phi2 = phi1 - Math.acos(-Math.PI / (2 * theta1));
+  return [
+    { theta: theta1, phi: phi1 },
+    { theta: Math.PI, phi: phi2 },
+    { theta: theta1, phi: phi1 },
+  ];
+};
+
+/** Systematic errors shared by every segment of a sequence */
+export interface PulseErrors {
+  /** Fractional amplitude (Rabi frequency) error ε */
+  amplitude: number;
+  /** Detuning as a fraction of the Rabi frequency, f = Δ/Ω */
+  detuning: number;
+  /** Phase offset δ of the drive in radians */
+  phase: number;
+}
+
+export const NO_PULSE_ERRORS: PulseErrors = { amplitude: 0, detuning: 0, phase: 0 };
+
+// H = ½ B·σ in units of the nominal Rabi frequency
+const segmentField = (seg: PulseSegment, errors: PulseErrors): Vec3 => {
+  const drive = 1 + errors.amplitude;
+  const phi = seg.phi + errors.phase;
+  return { x: drive * Math.cos(phi), y: drive * Math.sin(phi), z: errors.detuning };
+};
+
+/** exp(-i H t) over the nominal duration t = θ/Ω is a rotation by |B|θ about B/|B| */
+export const segmentRotation = (seg: PulseSegment, errors: PulseErrors) => {
+  const field = segmentField(seg, errors);
+  const norm = Math.hypot(field.x, field.y, field.z);
+  return {
+    angle: seg.theta * norm,
+    axis: norm === 0 ? { x: 1, y: 0, z: 0 } : { x: field.x / norm, y: field.y / norm, z: field.z / norm },
+  };
+};
+
+/** Total unitary of a sequence (segments applied left to right) */
+export const sequenceUnitary = (segments: PulseSegment[], errors: PulseErrors = NO_PULSE_ERRORS): Matrix2 =>
+  segments.reduce<Matrix2>((total, seg) => {
+    const { angle, axis } = segmentRotation(seg, errors);
+    return multiply(axisRotation(angle, axis), total);
+  }, IDENTITY);
+
+export interface Trajectory {
+  /** Bloch vectors along the path, starting with the initial state */
+  points: Vec3[];
+  /** Index into `points` where each segment ends */
+  segmentEnds: number[];
+  finalState: Spinor;
+}
+
+// Samples the state along each segment so the Bloch-sphere view can draw the actual path
+export const simulateTrajectory = (
+  segments: PulseSegment[],
+  errors: PulseErrors = NO_PULSE_ERRORS,
+  initial: Spinor = ZERO_STATE,
+  stepsPerRadian: number = 8
+): Trajectory => {
+  const points: Vec3[] = [blochVector(initial)];
+  const segmentEnds: number[] = [];
+  let state = initial;
+
+  for (const seg of segments) {
+    const { angle, axis } = segmentRotation(seg, errors);
+    const steps = Math.max(2, Math.ceil(Math.abs(angle) * stepsPerRadian));
+    const step = axisRotation(angle / steps, axis);
+    for (let i = 0; i < steps; i++) {
+      state = apply(step, state);
+      points.push(blochVector(state));
+    }
+    segmentEnds.push(points.length - 1);
+  }
+
+  return { points, segmentEnds, finalState: state };
+};
+
+/**
+ * Fidelity of the sequence's output with that of the same sequence without errors. Every
+ * library sequence implements its ideal operation when error-free, so this also works for
+ * fixed operations (Knill, XY family) and user-defined sequences.
+ */
+export const sequenceStateFidelity = (
+  segments: PulseSegment[],
+  errors: PulseErrors,
+  initial: Spinor = ZERO_STATE
+) => stateFidelity(
+  apply(sequenceUnitary(segments), initial),
+  apply(sequenceUnitary(segments, errors), initial)
+);
+
+/** State-independent counterpart: |Tr(U₀†U)/2|² against the error-free sequence */
+export const sequenceGateFidelity = (segments: PulseSegment[], errors: PulseErrors) =>
+  gateOverlap(sequenceUnitary(segments), sequenceUnitary(segments, errors)) ** 2;
+
+// --- Robustness sweeps ---
+
+export type ErrorAxis = keyof PulseErrors;
+export type FidelityMeasure = 'state' | 'gate';
+
+/** Fidelity at each value of one error type, with the other errors held at `base` */
+export const robustnessSweep = (
+  segments: PulseSegment[],
+  axis: ErrorAxis,
+  values: number[],
+  measure: FidelityMeasure,
+  base: PulseErrors = NO_PULSE_ERRORS,
+  initial: Spinor = ZERO_STATE
+) => values.map(value => {
+  const errors = { ...base, [axis]: value };
+  return measure === 'state' ? sequenceStateFidelity(segments, errors, initial) : sequenceGateFidelity(segments, errors);
+});
+
+// --- Library ---
+
+export interface CompositePulse {
+  id: string;
+  name: string;
+  /** Overlay color on the Bloch sphere */
+  color: string;
+  description: string;
+  /** Set for sequences that implement one fixed operation and ignore the target rotation */
+  fixedOperation?: string;
+  build: (target: number) => PulseSegment[];
+}
+
+const piPulses = (phasesDeg: number[]): PulseSegment[] =>
+  phasesDeg.map(phase => ({ theta: Math.PI, phi: phase * DEG }));
+
+const XY8_PHASES = [0, 90, 0, 90, 90, 0, 90, 0];
+
+export const COMPOSITE_PULSES: CompositePulse[] = [
+  {
+    id: 'simple',
+    name: 'Simple Pulse',
+    color: '#ef4444',
+    description: 'A single rotation. Any error in duration directly translates to missing the target state.',
+    build: simplePulse,
+  },
+  {
+    id: 'scrofulous',
+    name: 'SCROFULOUS',
+    color: '#4ade80',
+    description: 'Three rotations θ₁(φ₁) · π(φ₂) · θ₁(φ₁) with angles solved from the target, cancelling amplitude errors to first order.',
+    build: scrofulous,
+  },
+  {
+    // Wimperis, J. Magn. Reson. A 109, 221 (1994)
+    id: 'bb1',
+    name: 'BB1',
+    color: '#38bdf8',
+    description: 'The target rotation followed by π(φ) · 2π(3φ) · π(φ) with φ = arccos(−θ/4π). Cancels amplitude errors to second order.',
+    build: target => {
+      const phi = Math.acos(-target / (4 * Math.PI));
+      return [
+        { theta: target, phi: 0 },
+        { theta: Math.PI, phi },
+        { theta: 2 * Math.PI, phi: 3 * phi },
+        { theta: Math.PI, phi },
+      ];
+    },
+  },
+  {
+    // Brown, Harrow & Chuang, PRA 70, 052318 (2004)
+    id: 'sk1',
+    name: 'SK1',
+    color: '#facc15',
+    description: 'Solovay–Kitaev sequence: the target rotation followed by 2π(−φ) · 2π(φ) with φ = arccos(−θ/4π). First-order amplitude correction.',
+    build: target => {
+      const phi = Math.acos(-target / (4 * Math.PI));
+      return [
+        { theta: target, phi: 0 },
+        { theta: 2 * Math.PI, phi: -phi },
+        { theta: 2 * Math.PI, phi },
+      ];
+    },
+  },
+  {
+    // Cummins & Jones, New J. Phys. 2, 6 (2000)
+    id: 'corpse',
+    name: 'CORPSE',
+    color: '#fb923c',
+    description: 'Three rotations about x, −x, x designed to cancel off-resonance errors. It does not correct amplitude errors.',
+    build: target => {
+      const k = Math.asin(Math.sin(target / 2) / 2);
+      return [
+        { theta: 2 * Math.PI + target / 2 - k, phi: 0 },
+        { theta: 2 * Math.PI - 2 * k, phi: Math.PI },
+        { theta: target / 2 - k, phi: 0 },
+      ];
+    },
+  },
+  {
+    // Ryan, Hodges & Cory, PRL 105, 200402 (2010)
+    id: 'knill',
+    name: 'Knill',
+    color: '#c084fc',
+    description: 'Five π pulses with phases 30°, 0°, 90°, 0°, 30°. Reduces sensitivity to both amplitude and detuning errors.',
+    fixedOperation: 'π',
+    build: () => piPulses([30, 0, 90, 0, 30]),
+  },
+  {
+    id: 'xy4',
+    name: 'XY-4',
+    color: '#2dd4bf',
+    description: 'π pulses alternating between x and y. Pulse errors partly cancel over the cycle.',
+    fixedOperation: 'identity',
+    build: () => piPulses([0, 90, 0, 90]),
+  },
+  {
+    id: 'xy8',
+    name: 'XY-8',
+    color: '#94a3b8',
+    description: 'XY-4 followed by its time-reversed copy, cancelling the residual errors of XY-4.',
+    fixedOperation: 'identity',
+    build: () => piPulses(XY8_PHASES),
+  },
+  {
+    id: 'xy16',
+    name: 'XY-16',
+    color: '#f9a8d4',
+    description: 'XY-8 followed by XY-8 with all phases inverted.',
+    fixedOperation: 'identity',
+    build: () => piPulses([...XY8_PHASES, ...XY8_PHASES.map(phase => phase + 180)]),
+  },
+];
+
+/** A built sequence as shown in the pulse views */
+export interface PulseSequence {
+  id: string;
+  name: string;
+  color: string;
+  segments: PulseSegment[];
+}
+
+export const CUSTOM_PULSE_ID = 'custom';
+export const CUSTOM_PULSE_COLOR = '#f472b6';
+
+// --- Persistence of the user-defined sequence ---
+
+const CUSTOM_SEQUENCE_STORAGE_KEY = 'qubit-explorer.custom-pulse-sequence';
+
+export const DEFAULT_CUSTOM_SEQUENCE: PulseSegment[] = [
+  { theta: Math.PI / 2, phi: 0 },
+  { theta: Math.PI, phi: Math.PI / 2 },
+  { theta: Math.PI / 2, phi: 0 },
+];
+
+export const loadCustomSequence = (): PulseSegment[] => {
+  try {
+    const raw = localStorage.getItem(CUSTOM_SEQUENCE_STORAGE_KEY);
+    if (!raw) return DEFAULT_CUSTOM_SEQUENCE;
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return DEFAULT_CUSTOM_SEQUENCE;
+    return parsed.filter(
+      (seg): seg is PulseSegment => Number.isFinite(seg?.theta) && Number.isFinite(seg?.phi)
+    );
+  } catch (error) {
+    console.error("Failed to load custom pulse sequence:", error);
+    return DEFAULT_CUSTOM_SEQUENCE;
+  }
+};
+
+export const saveCustomSequence = (segments: PulseSegment[]) => {
+  try {
+    localStorage.setItem(CUSTOM_SEQUENCE_STORAGE_KEY, JSON.stringify(segments));
+  } catch (error) {
+    console.error("Failed to save custom pulse sequence:", error);
+  }
+};
@@ -0,0 +1,139 @@
+// Nonlinear least-squares fitting (Levenberg–Marquardt) for the decay charts. The fitter works on
+// plain parameter arrays; the models below name their parameters so results can be read back.
+
+export type FitModel = (x: number, params: number[]) => number;
+
+export interface FitResult {
+  params: number[];
+  /** One-sigma standard errors from the covariance matrix */
+  errors: number[];
+  chiSquared: number;
+  /** Degrees of freedom: points minus free parameters */
+  dof: number;
+  reducedChiSquared: number;
+  /** (measured − model) / σ at each point, using the estimated σ for unweighted fits */
+  residuals: number[];
+  /** False when no σ was given: χ² is then in the data's units and σ is estimated as √(χ²/ν) */
+  weighted: boolean;
+  converged: boolean;
+  iterations: number;
+}
+
+export interface FitOptions {
+  /** Per-point standard deviations. Without them errors are scaled by the reduced χ² */
+  sigma?: number[];
+  maxIterations?: number;
+}
+
+const MAX_ITERATIONS = 200;
+const CONVERGENCE_TOLERANCE = 1e-10;
+
+// Gauss–Jordan inverse with partial pivoting; null when the matrix is singular
+const invert = (matrix: number[][]): number[][] | null => {
+  const n = matrix.length;
+  const a = matrix.map((row, i) => [...row, ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    if (!(Math.abs(a[pivot][col]) > 1e-300)) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    const scale = a[col][col];
+    for (let j = 0; j < 2 * n; j++) a[col][j] /= scale;
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = a[row][col];
+      if (factor !== 0) for (let j = 0; j < 2 * n; j++) a[row][j] -= factor * a[col][j];
+    }
+  }
+  return a.map(row => row.slice(n));
+};
+
+/**
+ * Minimizes Σ((yᵢ − f(xᵢ; p)) / σᵢ)² starting from `initial`. The Jacobian is taken by forward
+ * differences and the damping follows Marquardt's scaling by the diagonal of JᵀJ.
+ */
+export const levenbergMarquardt = (
+  model: FitModel,
+  xs: number[],
+  ys: number[],
+  initial: number[],
+  { sigma, maxIterations = MAX_ITERATIONS }: FitOptions = {}
+): FitResult => {
+  const weights = xs.map((_, i) => 1 / (sigma?.[i] ?? 1));
+  const residualsAt = (params: number[]) => xs.map((x, i) => (ys[i] - model(x, params)) * weights[i]);
+  const chiOf = (r: number[]) => r.reduce((sum, v) => sum + v * v, 0);
+
+  const jacobianAt = (params: number[], base: number[]) =>
+    params.map((p, j) => {
+      const h = 1e-7 * Math.max(Math.abs(p), 1e-7);
+      const shifted = params.map((q, k) => (k === j ? q + h : q));
+      // Residuals are (y − f)/σ, so ∂f/∂p = −∂r/∂p
+      return residualsAt(shifted).map((r, i) => (base[i] - r) / h);
+    });
+
+  const normalMatrix = (columns: number[][]) =>
+    columns.map(a => columns.map(b => a.reduce((sum, v, i) => sum + v * b[i], 0)));
+
+  let params = [...initial];
+  let residuals = residualsAt(params);
+  let chi = chiOf(residuals);
+  let lambda = 1e-3;
+  let converged = false;
+  let iterations = 0;
+
+  while (iterations < maxIterations && !converged) {
+    iterations++;
+    const columns = jacobianAt(params, residuals);
+    const jtj = normalMatrix(columns);
+    const gradient = columns.map(col => col.reduce((sum, v, i) => sum + v * residuals[i], 0));
+
+    let improved = false;
+    while (lambda < 1e12) {
+      const damped = jtj.map((row, i) => row.map((v, j) => (i === j ? v * (1 + lambda) : v)));
+      const inverse = invert(damped);
+      if (!inverse) { lambda *= 10; continue; }
+      const step = inverse.map(row => row.reduce((sum, v, j) => sum + v * gradient[j], 0));
+      const candidate = params.map((p, i) => p + step[i]);
+      const candidateResiduals = residualsAt(candidate);
+      const candidateChi = chiOf(candidateResiduals);
+      // NaN from a model evaluated outside its domain is rejected like any uphill step
+      if (candidateChi < chi) {
+        converged = (chi - candidateChi) <= CONVERGENCE_TOLERANCE * Math.max(chi, 1e-300);
+        params = candidate;
+        residuals = candidateResiduals;
+        chi = candidateChi;
+        lambda = Math.max(lambda / 10, 1e-12);
+        improved = true;
+        break;
+      }
+      lambda *= 10;
+    }
+    // No downhill step at any damping: already at the minimum to machine precision
+    if (!improved) converged = true;
+  }
+
+  const dof = xs.length - params.length;
+  const reducedChiSquared = dof > 0 ? chi / dof : NaN;
+  const covariance = invert(normalMatrix(jacobianAt(params, residuals)));
+  const scale = sigma ? 1 : reducedChiSquared;
+  const errors = params.map((_, i) => (covariance ? Math.sqrt(Math.abs(covariance[i][i]) * scale) : NaN));
+  const estimatedSigma = Math.sqrt(scale);
+
+  return {
+    params, errors, chiSquared: chi, dof, reducedChiSquared,
+    residuals: sigma ? residuals : residuals.map(r => r / estimatedSigma),
+    weighted: Boolean(sigma), converged, iterations,
+  };
+};
+
+// --- Models ---
+
+/** A·exp(−(t/τ)^α), parameters [A, τ, α] */
+export const stretchedExponential: FitModel = (t, [amplitude, tau, alpha]) =>
+  amplitude * Math.exp(-Math.pow(t / tau, alpha));
+
+/** A·exp(−t/τ), parameters [A, τ] */
+export const exponentialDecay: FitModel = (t, [amplitude, tau]) => amplitude * Math.exp(-t / tau);
+
+/** A·p^m + B, parameters [A, p, B] */
+export const rbDecay: FitModel = (m, [amplitude, p, offset]) => amplitude * Math.pow(p, m) + offset;
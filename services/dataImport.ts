@@ -0,0 +1,223 @@
+// Reads experimental scans from CSV, JSON or HDF5 files into numeric columns, and maps the
+// chosen columns onto the x / value / error series that the decay charts fit.
+
+export interface DataTable {
+  fileName: string;
+  columns: string[];
+  /** Row-major cells; anything that is not a number becomes NaN */
+  rows: number[][];
+}
+
+/** Chart that an imported series is plotted in */
+export type DatasetTarget = 'coherence' | 'lifetime' | 'rb-standard' | 'rb-interleaved';
+
+export const DATASET_TARGETS: { id: DatasetTarget; label: string; xLabel: string; units: { label: string; scale: number }[] }[] = [
+  { id: 'coherence', label: 'Coherence (T2)', xLabel: 'Time', units: [{ label: 's', scale: 1 }, { label: 'ms', scale: 1e-3 }, { label: 'µs', scale: 1e-6 }] },
+  { id: 'lifetime', label: 'Lifetime (T1)', xLabel: 'Time', units: [{ label: 'min', scale: 1 }, { label: 's', scale: 1 / 60 }] },
+  { id: 'rb-standard', label: 'RB reference', xLabel: 'Clifford gates', units: [{ label: 'gates', scale: 1 }] },
+  { id: 'rb-interleaved', label: 'RB interleaved (transport)', xLabel: 'Clifford gates', units: [{ label: 'gates', scale: 1 }] },
+];
+
+export interface ColumnMapping {
+  x: number;
+  y: number;
+  /** Column of one-sigma errors on y, or null when the file has none */
+  error: number | null;
+  /** Multiplies x into the chart's unit */
+  xScale: number;
+}
+
+export interface ImportedDataset {
+  target: DatasetTarget;
+  name: string;
+  x: number[];
+  y: number[];
+  error?: number[];
+}
+
+// --- Parsers ---
+
+const toNumber = (cell: unknown) => {
+  if (typeof cell === 'number') return cell;
+  if (typeof cell !== 'string' || cell.trim() === '') return NaN;
+  const value = Number(cell.trim());
+  return Number.isFinite(value) ? value : NaN;
+};
+
+const MISSING_VALUE = /^[+-]?(nan|inf(inity)?|na|null)$/i;
+
+export const parseCsv = (text: string, fileName: string): DataTable => {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+  if (lines.length === 0) throw new Error('The file contains no data rows.');
+
+  const delimiter = [',', '\t', ';'].find(d => lines[0].includes(d));
+  const split = (line: string) =>
+    (delimiter ? line.split(delimiter) : line.split(/\s+/)).map(cell => cell.trim().replace(/^"(.*)"$/, '$1'));
+
+  const first = split(lines[0]);
+  // A data row may have blanks or NaN markers, so only a row without any numeric cell is a header
+  const hasHeader = first.some(cell => cell !== '')
+    && first.every(cell => cell === '' || (Number.isNaN(toNumber(cell)) && !MISSING_VALUE.test(cell)));
+  const columns = hasHeader ? first : first.map((_, i) => `Column ${i + 1}`);
+  const rows = (hasHeader ? lines.slice(1) : lines).map(line => {
+    const cells = split(line);
+    return columns.map((_, i) => toNumber(cells[i]));
+  });
+  return { fileName, columns, rows };
+};
+
+/** Accepts an array of records, an object of equal-length arrays, or an array of arrays */
+export const parseJson = (text: string, fileName: string): DataTable => {
+  const data: unknown = JSON.parse(text);
+
+  if (Array.isArray(data) && data.length > 0 && Array.isArray(data[0])) {
+    const width = Math.max(...data.map(row => (Array.isArray(row) ? row.length : 0)));
+    const columns = Array.from({ length: width }, (_, i) => `Column ${i + 1}`);
+    return { fileName, columns, rows: data.map(row => columns.map((_, i) => toNumber(Array.isArray(row) ? row[i] : undefined))) };
+  }
+
+  if (Array.isArray(data) && data.length > 0 && typeof data[0] === 'object' && data[0] !== null) {
+    const columns = [...new Set(data.flatMap(row => (row && typeof row === 'object' ? Object.keys(row) : [])))];
+    return {
+      fileName,
+      columns,
+      rows: data.map(row => columns.map(key => toNumber((row as Record<string, unknown>)?.[key]))),
+    };
+  }
+
+  if (data && typeof data === 'object' && !Array.isArray(data)) {
+    const series = Object.entries(data).filter((entry): entry is [string, unknown[]] => Array.isArray(entry[1]));
+    if (series.length > 0) {
+      const length = Math.max(...series.map(([, values]) => values.length));
+      return {
+        fileName,
+        columns: series.map(([key]) => key),
+        rows: Array.from({ length }, (_, i) => series.map(([, values]) => toNumber(values[i]))),
+      };
+    }
+  }
+
+  throw new Error('Expected an array of records, an object of arrays, or an array of rows.');
+};
+
+const isNumericArray = (value: unknown): value is ArrayLike<number | bigint> =>
+  ArrayBuffer.isView(value) && !(value instanceof DataView);
+
+/**
+ * Collects the numeric datasets of an HDF5 file. 1-D datasets become columns and 2-D datasets
+ * contribute one column per entry along their second axis; the columns sharing the most common
+ * length form the table. The WASM reader is loaded on first use.
+ */
+export const parseHdf5 = async (buffer: ArrayBuffer, fileName: string): Promise<DataTable> => {
+  const h5wasm = await import('h5wasm');
+  const { FS } = await h5wasm.ready;
+  const path = `/import-${Date.now()}.h5`;
+  FS.writeFile(path, new Uint8Array(buffer));
+  const file = new h5wasm.File(path, 'r');
+
+  try {
+    const series: { name: string; values: number[] }[] = [];
+    for (const datasetPath of file.paths()) {
+      const entity = file.get(datasetPath);
+      if (!(entity instanceof h5wasm.Dataset)) continue;
+      const shape = entity.shape ?? [];
+      const value = entity.value;
+      if (!isNumericArray(value) || shape.length === 0 || shape.length > 2) continue;
+      const flat = Array.from(value, Number);
+      if (shape.length === 1) {
+        series.push({ name: datasetPath, values: flat });
+      } else {
+        const [rows, width] = shape;
+        for (let j = 0; j < width; j++) {
+          series.push({ name: `${datasetPath}[${j}]`, values: Array.from({ length: rows }, (_, i) => flat[i * width + j]) });
+        }
+      }
+    }
+    if (series.length === 0) throw new Error('No numeric 1-D or 2-D datasets found in the HDF5 file.');
+
+    const counts = new Map<number, number>();
+    series.forEach(s => counts.set(s.values.length, (counts.get(s.values.length) ?? 0) + 1));
+    const length = [...counts.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0][0];
+    const columns = series.filter(s => s.values.length === length);
+    return {
+      fileName,
+      columns: columns.map(s => s.name),
+      rows: Array.from({ length }, (_, i) => columns.map(s => s.values[i])),
+    };
+  } finally {
+    file.close();
+    FS.unlink(path);
+  }
+};
+
+export const readDataFile = async (file: File): Promise<DataTable> => {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  if (['csv', 'tsv', 'txt', 'dat'].includes(extension)) return parseCsv(await file.text(), file.name);
+  if (extension === 'json') return parseJson(await file.text(), file.name);
+  if (['h5', 'hdf5', 'he5', 'nxs'].includes(extension)) return parseHdf5(await file.arrayBuffer(), file.name);
+  throw new Error(`Unsupported file type ".${extension}". Use CSV, JSON or HDF5.`);
+};
+
+// --- Column mapping ---
+
+const COLUMN_HINTS = {
+  x: /^(t|time|delay|tau|wait|hold|length|len|m|n|depth|clifford|gates?|seq\w*len\w*)($|[\s_([-])/i,
+  error: /(err|sigma|std|unc|sem)/i,
+};
+
+/** First guess at the mapping from the column names: x by name, error by name, y the next column */
+export const guessMapping = (table: DataTable): ColumnMapping => {
+  const name = (i: number) => table.columns[i].split('/').pop() ?? '';
+  const indices = table.columns.map((_, i) => i);
+  const x = indices.find(i => COLUMN_HINTS.x.test(name(i))) ?? 0;
+  const error = indices.find(i => i !== x && COLUMN_HINTS.error.test(name(i))) ?? null;
+  const y = indices.find(i => i !== x && i !== error) ?? x;
+  return { x, y, error, xScale: 1 };
+};
+
+/** Rows with finite x and y (and a positive error, when mapped) become the imported series */
+export const applyMapping = (table: DataTable, mapping: ColumnMapping, target: DatasetTarget): ImportedDataset => {
+  const x: number[] = [];
+  const y: number[] = [];
+  const error: number[] = [];
+  for (const row of table.rows) {
+    const xv = row[mapping.x] * mapping.xScale;
+    const yv = row[mapping.y];
+    const ev = mapping.error === null ? 1 : row[mapping.error];
+    if (!Number.isFinite(xv) || !Number.isFinite(yv) || !(ev > 0)) continue;
+    x.push(xv);
+    y.push(yv);
+    error.push(ev);
+  }
+  if (x.length < 4) throw new Error('Fewer than 4 usable rows with this column mapping.');
+  return { target, name: table.fileName, x, y, ...(mapping.error === null ? {} : { error }) };
+};
+
+/**
+ * Means per distinct x, with the standard error of the mean where an x repeats (as for the
+ * individual random sequences of an RB scan) and the given error otherwise.
+ */
+export const aggregateByX = (dataset: ImportedDataset) => {
+  const groups = new Map<number, { y: number[]; error: number[] }>();
+  dataset.x.forEach((x, i) => {
+    const group = groups.get(x) ?? { y: [], error: [] };
+    group.y.push(dataset.y[i]);
+    if (dataset.error) group.error.push(dataset.error[i]);
+    groups.set(x, group);
+  });
+  const xs = [...groups.keys()].sort((a, b) => a - b);
+  const means: number[] = [];
+  const sigma: (number | undefined)[] = [];
+  for (const x of xs) {
+    const { y, error } = groups.get(x)!;
+    const mean = y.reduce((a, b) => a + b, 0) / y.length;
+    means.push(mean);
+    if (y.length > 1) {
+      const variance = y.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (y.length - 1);
+      sigma.push(Math.sqrt(variance / y.length) || undefined);
+    } else {
+      sigma.push(error[0]);
+    }
+  }
+  return { xs, means, sigma: sigma.every((s): s is number => s !== undefined && s > 0) ? sigma : undefined };
+};
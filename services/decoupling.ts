@@ -0,0 +1,191 @@
+import { factValue } from "../paperFacts";
+
+// Dynamical-decoupling coherence decays from a dephasing-noise spectrum via filter functions.
+// With ideal instantaneous π pulses the qubit sees the noise multiplied by a switching function
+// y(s) = ±1 that flips sign at every pulse, and the coherence decays as W(t) = exp(-χ(t)) with
+//   χ(t) = (1/π) ∫₀^∞ S(ω) |Y(ω)|² dω,   Y(ω) = ∫₀^t y(s) e^{iωs} ds.
+// Pulse phases do not enter for ideal pulses, so the XY family shares the filter function of
+// CPMG with the same number of pulses; its phase cycling only matters for pulse errors.
+
+export interface NoisePeak {
+  /** Center frequency in Hz */
+  frequency: number;
+  /** Gaussian standard deviation in Hz */
+  width: number;
+  /** Peak spectral density in s⁻¹ */
+  amplitude: number;
+}
+
+/** One-sided phase-noise spectral density S(ω) in rad²/s */
+export interface NoiseSpectrum {
+  /** White floor in s⁻¹; alone it gives exponential decay with T2 = 1/white for every sequence */
+  white: number;
+  /** 1/f amplitude A in s⁻², S(ω) = A/ω */
+  oneOverF: number;
+  /** Below this frequency (Hz) the 1/f part levels off, standing in for the finite measurement time */
+  lowCutoff: number;
+  peaks: NoisePeak[];
+}
+
+export interface DecouplingSequence {
+  id: string;
+  name: string;
+  color: string;
+  /** Number of π pulses */
+  pulses: number;
+}
+
+export const DD_SEQUENCES: DecouplingSequence[] = [
+  { id: 'ramsey', name: 'Ramsey', color: '#ef4444', pulses: 0 },
+  { id: 'hahn', name: 'Hahn Echo', color: '#fb923c', pulses: 1 },
+  { id: 'cpmg', name: 'CPMG', color: '#facc15', pulses: 8 },
+  { id: 'xy4', name: 'XY4', color: '#4ade80', pulses: 4 },
+  { id: 'xy8', name: 'XY8', color: '#38bdf8', pulses: 8 },
+  { id: 'xy16', name: 'XY16', color: '#818cf8', pulses: 16 },
+];
+
+export const CPMG_PULSE_RANGE: [number, number] = [1, 64];
+
+const TWO_PI = 2 * Math.PI;
+
+export const noiseDensity = (noise: NoiseSpectrum, omega: number) => {
+  const cutoff = TWO_PI * noise.lowCutoff;
+  let s = noise.white + noise.oneOverF / Math.max(omega, cutoff);
+  for (const peak of noise.peaks) {
+    const d = (omega - TWO_PI * peak.frequency) / (TWO_PI * peak.width);
+    s += peak.amplitude * Math.exp(-0.5 * d * d);
+  }
+  return s;
+};
+
+/** Pulse positions as fractions of the total time: CPMG spacing τ with τ/2 at both ends */
+export const pulseFractions = (pulses: number) =>
+  Array.from({ length: pulses }, (_, k) => (k + 0.5) / pulses);
+
+// |G(z)|² with z = ωt, where Y(ω) = G(z)/(iω). The switching function flips at every pulse.
+const filterFactory = (pulses: number) => {
+  const edges = [0, ...pulseFractions(pulses), 1];
+  return (z: number) => {
+    let re = 0;
+    let im = 0;
+    for (let k = 0; k < edges.length - 1; k++) {
+      const sign = k % 2 === 0 ? 1 : -1;
+      re += sign * (Math.cos(z * edges[k + 1]) - Math.cos(z * edges[k]));
+      im += sign * (Math.sin(z * edges[k + 1]) - Math.sin(z * edges[k]));
+    }
+    return re * re + im * im;
+  };
+};
+
+// Integration grid in z = ωt: logarithmic where the integrand varies on the scale of z itself,
+// then uniform so the filter's oscillations (period 2π) are resolved.
+const Z_LOG_START = 1e-7;
+const Z_LINEAR_FROM = 8;
+const Z_LINEAR_STEP = 0.25;
+const Z_MAX = 1200;
+
+const Z_GRID: number[] = (() => {
+  const grid: number[] = [];
+  for (let z = Z_LOG_START; z < Z_LINEAR_FROM; z *= 1.02) grid.push(z);
+  for (let z = Z_LINEAR_FROM; z <= Z_MAX; z += Z_LINEAR_STEP) grid.push(z);
+  return grid;
+})();
+
+const trapezoid = (xs: number[], ys: number[]) => {
+  let sum = 0;
+  for (let i = 1; i < xs.length; i++) sum += 0.5 * (ys[i] + ys[i - 1]) * (xs[i] - xs[i - 1]);
+  return sum;
+};
+
+/**
+ * Decay exponent χ(t) at each time. White noise is integrated analytically (∫|Y|² dω = πt for
+ * any ±1 switching function); 1/f uses the shared z grid, and each peak its own ω grid fine
+ * enough to resolve both the peak and the filter's oscillations.
+ */
+export const decayExponent = (pulses: number, noise: NoiseSpectrum, times: number[]) => {
+  const filter = filterFactory(pulses);
+  const kernel = Z_GRID.map(z => filter(z) / (z * z));
+  const cutoff = TWO_PI * noise.lowCutoff;
+
+  return times.map(t => {
+    let chi = noise.white * t;
+
+    if (noise.oneOverF > 0) {
+      const integrand = Z_GRID.map((z, i) => (noise.oneOverF / Math.max(z / t, cutoff)) * kernel[i]);
+      chi += (t / Math.PI) * trapezoid(Z_GRID, integrand);
+    }
+
+    for (const peak of noise.peaks) {
+      const center = TWO_PI * peak.frequency;
+      const sigma = TWO_PI * peak.width;
+      const from = Math.max(1e-9, center - 5 * sigma);
+      const to = center + 5 * sigma;
+      const step = Math.min(sigma / 8, Math.PI / (8 * t));
+      const n = Math.min(20000, Math.ceil((to - from) / step));
+      const omegas = Array.from({ length: n + 1 }, (_, i) => from + ((to - from) * i) / n);
+      const integrand = omegas.map(w => {
+        const d = (w - center) / sigma;
+        return peak.amplitude * Math.exp(-0.5 * d * d) * filter(w * t) / (w * w);
+      });
+      chi += trapezoid(omegas, integrand) / Math.PI;
+    }
+
+    return chi;
+  });
+};
+
+export interface StretchedExpFit {
+  t2: number;
+  exponent: number;
+}
+
+/**
+ * T2 and α of W = exp(-(t/T2)^α) from the linear relation ln χ = α ln t − α ln T2,
+ * using the points where the decay is well resolved.
+ */
+export const fitStretchedExponential = (times: number[], chi: number[]): StretchedExpFit | null => {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  times.forEach((t, i) => {
+    const w = Math.exp(-chi[i]);
+    if (t > 0 && w > 0.05 && w < 0.95) {
+      xs.push(Math.log(t));
+      ys.push(Math.log(chi[i]));
+    }
+  });
+  if (xs.length < 3) return null;
+  const n = xs.length;
+  const mx = xs.reduce((a, b) => a + b, 0) / n;
+  const my = ys.reduce((a, b) => a + b, 0) / n;
+  let sxy = 0;
+  let sxx = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (xs[i] - mx) * (ys[i] - my);
+    sxx += (xs[i] - mx) ** 2;
+  }
+  const exponent = sxy / sxx;
+  return { exponent, t2: Math.exp(mx - my / exponent) };
+};
+
+// Shape of the default spectrum: a 1/f background over a white floor, plus mains pickup.
+// The overall level is calibrated below so XY16 reaches 1/e at the paper's T2; with this
+// balance its fitted stretch exponent comes out near 1.5.
+const BASE_NOISE: NoiseSpectrum = {
+  white: 0.04,
+  oneOverF: 0.4,
+  lowCutoff: 1e-3,
+  peaks: [{ frequency: 50, width: 0.5, amplitude: 0.5 }],
+};
+
+/** Scales every component of the spectrum so that `pulses`-pulse decoupling gives χ(t2) = 1 */
+export const calibrateNoise = (noise: NoiseSpectrum, pulses: number, t2: number): NoiseSpectrum => {
+  const scale = 1 / decayExponent(pulses, noise, [t2])[0];
+  return {
+    ...noise,
+    white: noise.white * scale,
+    oneOverF: noise.oneOverF * scale,
+    peaks: noise.peaks.map(p => ({ ...p, amplitude: p.amplitude * scale })),
+  };
+};
+
+export const DEFAULT_NOISE_SPECTRUM = calibrateNoise(BASE_NOISE, 16, factValue('t2'));
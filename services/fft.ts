@@ -0,0 +1,92 @@
+// Radix-2 complex FFTs on split real/imaginary arrays, enough for hologram sizes of a few
+// hundred to a thousand pixels. Transforms run in place; the inverse includes the 1/N scaling.
+
+interface FFTPlan {
+  reversed: Uint32Array;
+  cos: Float64Array;
+  sin: Float64Array;
+}
+
+const plans = new Map<number, FFTPlan>();
+
+export const isPowerOfTwo = (n: number) => Number.isInteger(n) && n > 0 && (n & (n - 1)) === 0;
+
+const planFor = (n: number): FFTPlan => {
+  let plan = plans.get(n);
+  if (plan) return plan;
+  if (!isPowerOfTwo(n)) throw new RangeError(`FFT size must be a power of two, got ${n}`);
+  const bits = Math.log2(n);
+  const reversed = new Uint32Array(n);
+  for (let i = 0; i < n; i++) {
+    let r = 0;
+    for (let b = 0; b < bits; b++) r |= ((i >> b) & 1) << (bits - 1 - b);
+    reversed[i] = r;
+  }
+  const cos = new Float64Array(n / 2);
+  const sin = new Float64Array(n / 2);
+  for (let k = 0; k < n / 2; k++) {
+    cos[k] = Math.cos((2 * Math.PI * k) / n);
+    sin[k] = Math.sin((2 * Math.PI * k) / n);
+  }
+  plan = { reversed, cos, sin };
+  plans.set(n, plan);
+  return plan;
+};
+
+/** Transforms the `n` values starting at `offset` */
+const fftLine = (re: Float64Array, im: Float64Array, offset: number, n: number, plan: FFTPlan, inverse: boolean) => {
+  const { reversed, cos, sin } = plan;
+  for (let i = 0; i < n; i++) {
+    const j = reversed[i];
+    if (j > i) {
+      let t = re[offset + i]; re[offset + i] = re[offset + j]; re[offset + j] = t;
+      t = im[offset + i]; im[offset + i] = im[offset + j]; im[offset + j] = t;
+    }
+  }
+  const sign = inverse ? 1 : -1;
+  for (let size = 2; size <= n; size *= 2) {
+    const half = size / 2;
+    const step = n / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const wr = cos[k * step];
+        const wi = sign * sin[k * step];
+        const a = offset + start + k;
+        const b = a + half;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+};
+
+const transpose = (values: Float64Array, n: number) => {
+  for (let y = 0; y < n; y++) {
+    for (let x = y + 1; x < n; x++) {
+      const t = values[y * n + x];
+      values[y * n + x] = values[x * n + y];
+      values[x * n + y] = t;
+    }
+  }
+};
+
+/** In-place 2D FFT of an n × n row-major field */
+export const fft2d = (re: Float64Array, im: Float64Array, n: number, inverse = false) => {
+  const plan = planFor(n);
+  for (let pass = 0; pass < 2; pass++) {
+    for (let row = 0; row < n; row++) fftLine(re, im, row * n, n, plan, inverse);
+    transpose(re, n);
+    transpose(im, n);
+  }
+  if (inverse) {
+    const scale = 1 / (n * n);
+    for (let i = 0; i < re.length; i++) {
+      re[i] *= scale;
+      im[i] *= scale;
+    }
+  }
+};
@@ -0,0 +1,32 @@
+// Triggers a browser download for generated content (chat exports, data files, masks...)
+export const downloadFile = (filename: string, content: BlobPart, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const toFilenameSlug = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'untitled';
+
+/** CSV text with optional leading `#` comment lines (seed, parameters) that record its provenance */
+export const toCsv = (columns: string[], rows: (number | string)[][], comments: string[] = []) =>
+  [...comments.map(line => `# ${line}`), columns.join(','), ...rows.map(row => row.join(','))].join('\n') + '\n';
+
+/** NumPy .npy (format 1.0) of a little-endian float32 array, readable with numpy.load */
+export const toNpy = (values: Float32Array, shape: number[]) => {
+  const dict = `{'descr': '<f4', 'fortran_order': False, 'shape': (${shape.join(', ')}${shape.length === 1 ? ',' : ''}), }`;
+  // Magic, version and header length take 10 bytes; the header pads the data start to 64 bytes
+  const headerLength = Math.ceil((10 + dict.length + 1) / 64) * 64 - 10;
+  const header = dict.padEnd(headerLength - 1, ' ') + '\n';
+  const buffer = new ArrayBuffer(10 + headerLength + values.length * 4);
+  const view = new DataView(buffer);
+  [0x93, ...'NUMPY'.split('').map(c => c.charCodeAt(0)), 1, 0].forEach((byte, i) => view.setUint8(i, byte));
+  view.setUint16(8, headerLength, true);
+  for (let i = 0; i < header.length; i++) view.setUint8(10 + i, header.charCodeAt(i));
+  values.forEach((v, i) => view.setFloat32(10 + headerLength + 4 * i, v, true));
+  return buffer;
+};
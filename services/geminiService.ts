@@ -1,59 +1,100 @@
-import { GoogleGenAI } from "@google/genai";
+import { FunctionCall, FunctionCallingConfigMode, GenerateContentConfig, GoogleGenAI, Part, PartListUnion } from "@google/genai";
 import { PAPER_CONTEXT } from "../constants";
+import { ChatTurn, buildBudgetedHistory } from "./chatHistory";
+import { LLMProvider, MAX_TOOL_ROUNDS, StreamOptions, TOOL_BUDGET_NOTICE, withCancellation } from "./llmProvider";
+import { LLMError } from "./llmErrors";
+import { withPassages } from "./retrieval";
+import { ASSISTANT_TOOLS } from "./assistantTools";
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
 
 export const streamGeminiResponse = async (
-  history: { role: 'user' | 'model'; text: string }[],
-  onChunk: (text: string) => void
+  history: ChatTurn[],
+  onChunk: (text: string) => void,
+  { signal, passages = [], onToolCall }: StreamOptions = {}
 ) => {
   if (!process.env.API_KEY) {
-    onChunk("Error: API Key is missing in the environment variables.");
-    return;
+    throw new LLMError('missing-key', "GEMINI_API_KEY is not set in the environment variables.");
   }
 
-  try {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
-    // Construct the prompt with context
-    const lastMessage = history[history.length - 1];
-    
-    // We start a chat session. 
-    // Ideally, we would maintain the session object, but for simplicity in this stateless service 
-    // we recreate the history context each time or just use a generation call if history is short.
-    // Here we will use generateContentStream with a system instruction.
-    
-    const chat = ai.chats.create({
-        model: 'gemini-2.5-flash',
-        config: {
-            systemInstruction: PAPER_CONTEXT,
-        }
-    });
-
-    // Replay history to establish context
-    // Note: In a real production app, you'd persist the 'chat' object.
-    // Here we manually feed history excluding the last message which we send now.
-    for (let i = 0; i < history.length - 1; i++) {
-        // We can't easily push history to a fresh chat object in this SDK version without send operations
-        // So we will just simplify and append history to the prompt for this demo
-        // or rely on the single-turn context + system instruction.
-        // For a robust implementation, strictly use chat.sendMessage for the sequence.
-    }
-    
-    // For this stateless impl, let's construct a "chat-like" prompt if needed, 
-    // but the SDK handles chat history best if we keep the instance.
-    // We will assume single-turn query with context for this demo to ensure reliability without state complexity.
-    
-    const result = await chat.sendMessageStream({ 
-        message: lastMessage.text 
-    });
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+  const lastMessage = history[history.length - 1];
+
+  // The service is stateless, so every call rebuilds the session from the prior turns.
+  // Older turns are summarized once the conversation outgrows the token budget.
+  const priorTurns = buildBudgetedHistory(history.slice(0, -1));
+
+  const config: GenerateContentConfig = {
+      systemInstruction: PAPER_CONTEXT,
+      abortSignal: signal,
+      tools: onToolCall ? [{
+          functionDeclarations: ASSISTANT_TOOLS.map(tool => ({
+              name: tool.name,
+              description: tool.description,
+              parametersJsonSchema: tool.parameters,
+          }))
+      }] : undefined,
+  };
+  // The last round keeps the declarations (the history refers to them) but forbids new calls,
+  // so the model has to explain what it did instead of acting without a reply
+  const finalRoundConfig: GenerateContentConfig = {
+      ...config,
+      toolConfig: { functionCallingConfig: { mode: FunctionCallingConfigMode.NONE } },
+  };
+
+  const chat = ai.chats.create({
+      model: GEMINI_MODEL,
+      config,
+      history: priorTurns.map(turn => ({
+          role: turn.role,
+          parts: [{ text: turn.text }]
+      }))
+  });
+
+  let message: PartListUnion = withPassages(lastMessage.text, passages);
+
+  // Each round streams the model's output; function calls are executed and their results
+  // sent back on the same chat until the model answers with text only.
+  for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+    const finalRound = round === MAX_TOOL_ROUNDS;
+    const result = await chat.sendMessageStream(finalRound && onToolCall ? { message, config: finalRoundConfig } : { message });
+    const calls: FunctionCall[] = [];
 
     for await (const chunk of result) {
+      if (signal?.aborted) return;
+
+      const blockReason = chunk.promptFeedback?.blockReason;
+      const finishReason = chunk.candidates?.[0]?.finishReason;
+      if (blockReason || finishReason === 'SAFETY' || finishReason === 'PROHIBITED_CONTENT') {
+        throw new LLMError('safety', `Response blocked by Gemini safety filters (${blockReason ?? finishReason}).`);
+      }
+
+      if (chunk.functionCalls) calls.push(...chunk.functionCalls);
+
       if (chunk.text) {
         onChunk(chunk.text);
       }
     }
 
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    onChunk("\n[Connection Error: Unable to reach Gemini API. Please check your API key.]");
+    if (calls.length === 0 || !onToolCall) return;
+    if (finalRound) {
+      onChunk(TOOL_BUDGET_NOTICE);
+      return;
+    }
+
+    const responses: Part[] = [];
+    for (const call of calls) {
+      const response = await onToolCall(call.name ?? '', call.args ?? {});
+      responses.push({ functionResponse: { id: call.id, name: call.name, response } });
+    }
+    message = responses;
   }
-};
\ No newline at end of file
+};
+
+export const geminiProvider: LLMProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  info: () => ({ name: 'Gemini 2.5 Flash', model: GEMINI_MODEL, offline: false }),
+  ...withCancellation(streamGeminiResponse),
+};
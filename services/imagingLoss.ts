@@ -0,0 +1,60 @@
+import { factValue } from "../paperFacts";
+import { Rng } from "./random";
+
+// Atom loss over repeated imaging. Every image keeps an atom with a fixed probability, and
+// between images background-gas collisions remove it at the vacuum-limited rate 1/τ. Both act
+// independently on every atom, so survival per cycle is constant and the number of atoms left
+// after k cycles is binomial with mean N₀·sᵏ.
+
+export interface ImagingLossParams {
+  /** Probability that an atom survives one image */
+  imageSurvival: number;
+  /** Vacuum-limited trap lifetime, in seconds */
+  lifetime: number;
+  /** Time between consecutive images, in seconds */
+  interval: number;
+}
+
+export const DEFAULT_IMAGING_LOSS: ImagingLossParams = {
+  imageSurvival: factValue('imaging-survival') / 100,
+  lifetime: factValue('lifetime') * 60,
+  interval: 0.1,
+};
+
+/** Probability that an atom survives one image and the wait before the next */
+export const cycleSurvival = ({ imageSurvival, lifetime, interval }: ImagingLossParams) =>
+  imageSurvival * Math.exp(-interval / lifetime);
+
+/**
+ * Cycle in which each of `atoms` atoms is lost (1-based), or 0 if it survives all `cycles`.
+ * Stepping every atom through every cycle is equivalent to drawing the first loss from the
+ * geometric distribution, which is what this does.
+ */
+export const simulateImagingLoss = (atoms: number, cycles: number, params: ImagingLossParams, rng: Rng) => {
+  const logSurvival = Math.log(cycleSurvival(params));
+  const lostIn = new Int32Array(atoms);
+  for (let i = 0; i < atoms; i++) {
+    const cycle = logSurvival < 0 ? Math.ceil(Math.log(1 - rng()) / logSurvival) : Infinity;
+    lostIn[i] = cycle <= cycles ? Math.max(1, cycle) : 0;
+  }
+  return lostIn;
+};
+
+/** Atoms left after each cycle, from 0 to `cycles` */
+export const survivorCounts = (lostIn: Int32Array, cycles: number) => {
+  const losses = new Int32Array(cycles + 1);
+  lostIn.forEach(cycle => { if (cycle > 0) losses[cycle]++; });
+  const counts = new Array<number>(cycles + 1);
+  let left = lostIn.length;
+  for (let k = 0; k <= cycles; k++) {
+    left -= losses[k];
+    counts[k] = left;
+  }
+  return counts;
+};
+
+/** Mean and binomial standard deviation of the atoms left after `cycle` cycles */
+export const expectedSurvivors = (atoms: number, cycle: number, params: ImagingLossParams) => {
+  const p = Math.pow(cycleSurvival(params), cycle);
+  return { mean: atoms * p, sigma: Math.sqrt(atoms * p * (1 - p)) };
+};
@@ -0,0 +1,78 @@
+import { DecoherenceParams } from "../types";
+import { NO_PULSE_ERRORS, PulseErrors, PulseSegment, segmentRotation } from "./compositePulses";
+import { Vec3 } from "./quantum";
+
+// Open-system propagation of a pulse sequence. For a qubit, ρ = (I + r·σ)/2, and the Lindblad
+// equation with collapse operators √(1/T1) σ₊ (relaxation to |0⟩) and √(γφ/2) σz, where
+// γφ = 1/T2 − 1/(2T1), reduces to the Bloch equations
+//   dr/dt = Ω B × r − (x/T2, y/T2, (z − 1)/T1).
+// Each step applies the coherent rotation and the exact relaxation map in a symmetric
+// (Strang) split, which keeps r inside the sphere for any step size.
+
+export interface OpenTrajectory {
+  /** Bloch vectors along the path; their length drops below 1 as the state mixes */
+  points: Vec3[];
+  /** Index into `points` where each segment ends */
+  segmentEnds: number[];
+  /** Total sequence duration in seconds */
+  duration: number;
+}
+
+const dot = (a: Vec3, b: Vec3) => a.x * b.x + a.y * b.y + a.z * b.z;
+
+export const blochLength = (r: Vec3) => Math.sqrt(dot(r, r));
+
+// Rodrigues' formula; exp(-iθ/2 n·σ) turns the Bloch vector by +θ about n
+export const rotateVector = (r: Vec3, axis: Vec3, angle: number): Vec3 => {
+  const c = Math.cos(angle);
+  const s = Math.sin(angle);
+  const cross = { x: axis.y * r.z - axis.z * r.y, y: axis.z * r.x - axis.x * r.z, z: axis.x * r.y - axis.y * r.x };
+  const along = dot(axis, r) * (1 - c);
+  return {
+    x: r.x * c + cross.x * s + axis.x * along,
+    y: r.y * c + cross.y * s + axis.y * along,
+    z: r.z * c + cross.z * s + axis.z * along,
+  };
+};
+
+const relax = (r: Vec3, dt: number, { t1, t2 }: DecoherenceParams): Vec3 => {
+  const transverse = Math.exp(-dt / Math.min(t2, 2 * t1));
+  const longitudinal = Math.exp(-dt / t1);
+  return { x: r.x * transverse, y: r.y * transverse, z: 1 + (r.z - 1) * longitudinal };
+};
+
+/** Time to run a segment at the nominal Rabi frequency */
+export const segmentDuration = (seg: PulseSegment, { rabiFrequency }: DecoherenceParams) =>
+  Math.abs(seg.theta) / (2 * Math.PI * rabiFrequency);
+
+export const simulateOpenTrajectory = (
+  segments: PulseSegment[],
+  params: DecoherenceParams,
+  errors: PulseErrors = NO_PULSE_ERRORS,
+  initial: Vec3 = { x: 0, y: 0, z: 1 },
+  stepsPerRadian: number = 8
+): OpenTrajectory => {
+  const points: Vec3[] = [initial];
+  const segmentEnds: number[] = [];
+  let r = initial;
+  let duration = 0;
+
+  for (const seg of segments) {
+    const { angle, axis } = segmentRotation(seg, errors);
+    const steps = Math.max(2, Math.ceil(Math.abs(angle) * stepsPerRadian));
+    const dt = segmentDuration(seg, params) / steps;
+    for (let i = 0; i < steps; i++) {
+      r = relax(r, dt / 2, params);
+      r = rotateVector(r, axis, angle / steps);
+      r = relax(r, dt / 2, params);
+      points.push(r);
+    }
+    duration += dt * steps;
+    segmentEnds.push(points.length - 1);
+  }
+
+  return { points, segmentEnds, duration };
+};
+
+/** ⟨ψ|ρ|ψ⟩ for a pure target state with Bloch vector `target` */
+export const mixedStateFidelity = (r: Vec3, target: Vec3) => (1 + dot(r, target)) / 2;
@@ -0,0 +1,42 @@
+import { ChatError, ChatErrorKind } from "../types";
+
+// Providers throw LLMError so the chat can render each failure mode distinctly
+// instead of mixing error text into the model's answer.
+export class LLMError extends Error {
+  kind: ChatErrorKind;
+
+  constructor(kind: ChatErrorKind, message: string) {
+    super(message);
+    this.name = 'LLMError';
+    this.kind = kind;
+  }
+
+  toChatError(): ChatError {
+    return { kind: this.kind, message: this.message };
+  }
+}
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// Best-effort mapping of SDK / fetch failures onto the error kinds shown in the UI
+export const toLLMError = (error: unknown): LLMError => {
+  if (error instanceof LLMError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = (error as { status?: number })?.status;
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new LLMError('quota', message);
+  }
+  if (status === 401 || status === 403 || /API key|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    return new LLMError('missing-key', message);
+  }
+  if (/SAFETY|blocked|content_filter/i.test(message)) {
+    return new LLMError('safety', message);
+  }
+  if (error instanceof TypeError || /fetch|network|ECONNREFUSED/i.test(message)) {
+    return new LLMError('network', message);
+  }
+  return new LLMError('unknown', message);
+};
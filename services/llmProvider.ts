@@ -0,0 +1,82 @@
+import { ChatTurn } from "./chatHistory";
+import { RetrievedPassage } from "../types";
+import { isAbortError, toLLMError } from "./llmErrors";
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+export interface ModelInfo {
+  /** Human readable name shown in the chat header */
+  name: string;
+  /** Model identifier sent to the backend */
+  model: string;
+  /** Whether the backend works without network access */
+  offline: boolean;
+}
+
+export interface StreamOptions {
+  signal?: AbortSignal;
+  /** Passages retrieved from the loaded paper text to ground the answer to the last turn */
+  passages?: RetrievedPassage[];
+  /** When set, the model may call the assistant tools; each call is executed through this callback */
+  onToolCall?: (name: string, args: Record<string, unknown>) => Promise<Record<string, unknown>>;
+}
+
+export type StreamImplOptions = Required<Pick<StreamOptions, 'signal' | 'passages'>> & Pick<StreamOptions, 'onToolCall'>;
+
+// Upper bound on call/response round trips per answer, in case a model keeps calling tools
+export const MAX_TOOL_ROUNDS = 5;
+
+/** Appended when the model still asks for actions after the last round; those calls are not run */
+export const TOOL_BUDGET_NOTICE = '\n\n_(Stopped: the assistant asked for more app actions than one reply allows, and those were not carried out.)_';
+
+export interface LLMProvider {
+  id: ProviderId;
+  label: string;
+  info: () => ModelInfo;
+  /**
+   * Streams the reply to the last turn in `history`, calling `onChunk` with each text delta.
+   * Resolves quietly when aborted through `options.signal` or `cancel`, and rejects with an LLMError otherwise.
+   */
+  stream: (history: ChatTurn[], onChunk: (text: string) => void, options?: StreamOptions) => Promise<void>;
+  /** Aborts the stream in flight, if any */
+  cancel: () => void;
+}
+
+type StreamImpl = (
+  history: ChatTurn[],
+  onChunk: (text: string) => void,
+  options: StreamImplOptions
+) => Promise<void>;
+
+// Wraps a signal-aware stream function so that each provider tracks its own in-flight request.
+// Starting a new stream cancels the previous one, and a caller-supplied signal is forwarded.
+export const withCancellation = (run: StreamImpl): Pick<LLMProvider, 'stream' | 'cancel'> => {
+  let controller: AbortController | null = null;
+
+  return {
+    stream: async (history, onChunk, options = {}) => {
+      const { signal, passages = [], onToolCall } = options;
+      controller?.abort();
+      const current = new AbortController();
+      controller = current;
+
+      const forwardAbort = () => current.abort();
+      if (signal?.aborted) current.abort();
+      signal?.addEventListener('abort', forwardAbort, { once: true });
+
+      try {
+        await run(history, onChunk, { signal: current.signal, passages, onToolCall });
+      } catch (error) {
+        if (current.signal.aborted || isAbortError(error)) return;
+        throw toLLMError(error);
+      } finally {
+        signal?.removeEventListener('abort', forwardAbort);
+        if (controller === current) controller = null;
+      }
+    },
+    cancel: () => {
+      controller?.abort();
+      controller = null;
+    },
+  };
+};
@@ -0,0 +1,151 @@
+import { PAPER_FACTS } from "../paperFacts";
+import { ChatTurn } from "./chatHistory";
+import { LLMProvider, StreamImplOptions, withCancellation } from "./llmProvider";
+import { RetrievedPassage, Section } from "../types";
+
+// Offline backend for demos and CI: answers by quoting the paper facts that best match
+// the question, with the same citation tags the real models are asked to use.
+// Fully deterministic, no network access.
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'what', 'how', 'does', 'did', 'was', 'were', 'are', 'is',
+  'this', 'that', 'about', 'from', 'which', 'why', 'can', 'you', 'tell', 'paper', 'their', 'they',
+]);
+
+const CHUNK_DELAY_MS = 15;
+
+const tokenize = (text: string) =>
+  text.toLowerCase().match(/[a-z0-9µμ.]+/g)?.map(t => t.replace(/\.+$/, '')).filter(t => t.length > 2 && !STOPWORDS.has(t)) ?? [];
+
+const FACT_TOKENS = PAPER_FACTS.map(fact => new Set(tokenize(`${fact.label} ${fact.statement}`)));
+
+const EXCERPT_CHARS = 280;
+
+export const answerFromContext = (question: string, passages: RetrievedPassage[] = []): string => {
+  const query = tokenize(question);
+  const ranked = PAPER_FACTS
+    .map((fact, i) => ({ fact, score: query.filter(t => FACT_TOKENS[i].has(t)).length }))
+    .filter(r => r.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 3);
+
+  // Quote the best retrieved excerpts when full paper text is loaded
+  const excerpts = passages.slice(0, 2).map(p => {
+    const text = p.text.replace(/\s+/g, ' ');
+    return `> ${text.length > EXCERPT_CHARS ? text.slice(0, EXCERPT_CHARS) + '…' : text} [${p.tag}]`;
+  });
+
+  if (ranked.length === 0 && excerpts.length > 0) {
+    return "From the loaded paper text:\n\n" + excerpts.join('\n\n');
+  }
+
+  if (ranked.length === 0) {
+    return "That appears to be outside the scope of this specific study. I can answer questions about the array size, " +
+      "coherence time, trapping lifetime, imaging, transport and the SCROFULOUS pulses used in the paper.";
+  }
+
+  const facts = "From the paper:\n\n" + ranked.map(r => `- ${r.fact.statement} [fact:${r.fact.id}]`).join('\n');
+  return excerpts.length ? `${facts}\n\nRelevant excerpts:\n\n${excerpts.join('\n\n')}` : facts;
+};
+
+interface PlannedCall {
+  name: string;
+  args: Record<string, unknown>;
+  summary: string;
+}
+
+const SECTION_KEYWORDS: [RegExp, Section][] = [
+  [/\b(overview|home)\b/, Section.HERO],
+  [/\b(data|metrics|charts?)\b/, Section.DATA],
+  [/\btransport\b/, Section.TRANSPORT],
+  [/\b(pulse|control|bloch)\b/, Section.CONTROL],
+  [/\b(hologram|slm|wgs|gerchberg|uniformity|trap depths?)\b/, Section.HOLOGRAM],
+];
+
+// Recognizes a few phrasings of app commands so tool calling can be demoed offline
+export const planToolCalls = (question: string): PlannedCall[] => {
+  const q = question.toLowerCase();
+  const calls = new Map<string, PlannedCall>();
+  const add = (call: PlannedCall) => calls.set(call.name, call);
+  let section: Section | undefined;
+
+  const pulseError = q.match(/(calibration|amplitude|pulse)[^%\d-]*(-?\d+(?:\.\d+)?)\s*%/);
+  if (pulseError) {
+    const errorRate = parseFloat(pulseError[2]) / 100;
+    add({ name: 'set_pulse_error', args: { errorRate }, summary: `set the calibration error to ${pulseError[2]}%` });
+    section = Section.CONTROL;
+  }
+
+  const transport = q.match(/transport fidelity[^%\d]*(\d+(?:\.\d+)?)\s*%/);
+  const clifford = q.match(/(gate|clifford) fidelity[^%\d]*(\d+(?:\.\d+)?)\s*%/);
+  if (transport || clifford) {
+    const args: Record<string, unknown> = {};
+    if (transport) args.transportFidelity = parseFloat(transport[1]);
+    if (clifford) args.cliffordFidelity = parseFloat(clifford[2]);
+    add({ name: 'set_simulation_parameters', args, summary: 'updated the benchmarking parameters' });
+    section = Section.DATA;
+  }
+
+  if (transport || /\b(irb|interleaved)\b/.test(q)) {
+    add({ name: 'set_rb_mode', args: { mode: 'irb' }, summary: 'switched the RB chart to interleaved mode' });
+    section = Section.DATA;
+  } else if (/\bstandard rb\b/.test(q)) {
+    add({ name: 'set_rb_mode', args: { mode: 'standard' }, summary: 'switched the RB chart to standard mode' });
+    section = Section.DATA;
+  }
+
+  if (!section && /\b(show|open|go to|switch to|take me to)\b/.test(q)) {
+    section = SECTION_KEYWORDS.find(([pattern]) => pattern.test(q))?.[1];
+  }
+  if (section) {
+    add({ name: 'navigate_to_section', args: { section }, summary: `opened the ${section} section` });
+  }
+
+  return [...calls.values()];
+};
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const onAbort = () => { clearTimeout(timer); resolve(); };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+const streamMockResponse = async (
+  history: ChatTurn[],
+  onChunk: (text: string) => void,
+  { signal, passages, onToolCall }: StreamImplOptions
+) => {
+  const question = history[history.length - 1].text;
+  const planned = onToolCall ? planToolCalls(question) : [];
+
+  let answer: string;
+  if (planned.length > 0) {
+    const done: string[] = [];
+    for (const call of planned) {
+      if (signal.aborted) return;
+      const result = await onToolCall!(call.name, call.args);
+      done.push(result.ok === false ? `could not ${call.name} (${result.error})` : call.summary);
+    }
+    answer = `Done: I ${done.join(', ')}.`;
+  } else {
+    answer = answerFromContext(question, passages);
+  }
+
+  // Emit word by word so the UI exercises the same streaming path as the real backends
+  for (const piece of answer.match(/\S+\s*/g) ?? []) {
+    await sleep(CHUNK_DELAY_MS, signal);
+    if (signal.aborted) return;
+    onChunk(piece);
+  }
+};
+
+export const mockProvider: LLMProvider = {
+  id: 'mock',
+  label: 'Offline (canned)',
+  info: () => ({ name: 'Canned answers from paper context', model: 'local-mock', offline: true }),
+  ...withCancellation(streamMockResponse),
+};
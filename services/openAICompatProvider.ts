@@ -0,0 +1,189 @@
+import { PAPER_CONTEXT } from "../constants";
+import { ChatTurn, buildBudgetedHistory } from "./chatHistory";
+import { LLMProvider, MAX_TOOL_ROUNDS, StreamImplOptions, TOOL_BUDGET_NOTICE, withCancellation } from "./llmProvider";
+import { LLMError } from "./llmErrors";
+import { withPassages } from "./retrieval";
+import { ASSISTANT_TOOLS } from "./assistantTools";
+import { RetrievedPassage } from "../types";
+
+// Adapter for any server speaking the OpenAI chat completions API (llama.cpp, Ollama, vLLM, LM Studio...).
+// Defaults come from the build environment; the endpoint can be overridden at runtime from the chat header.
+
+const ENDPOINT_STORAGE_KEY = 'qubit-explorer.openai-compatible.baseUrl';
+
+const DEFAULT_BASE_URL = process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1';
+const MODEL = process.env.LOCAL_LLM_MODEL || 'llama3.1';
+const API_KEY = process.env.LOCAL_LLM_API_KEY;
+
+export const getOpenAICompatBaseUrl = () =>
+  localStorage.getItem(ENDPOINT_STORAGE_KEY) || DEFAULT_BASE_URL;
+
+export const setOpenAICompatBaseUrl = (url: string) => {
+  if (url.trim()) {
+    localStorage.setItem(ENDPOINT_STORAGE_KEY, url.trim());
+  } else {
+    localStorage.removeItem(ENDPOINT_STORAGE_KEY);
+  }
+};
+
+interface ToolCallDelta {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+type Message =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; tool_calls?: ToolCallDelta[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+const TOOLS = ASSISTANT_TOOLS.map(tool => ({ type: 'function', function: tool }));
+
+const toMessages = (history: ChatTurn[], passages: RetrievedPassage[]): Message[] => [
+  { role: 'system', content: PAPER_CONTEXT },
+  ...buildBudgetedHistory(history.slice(0, -1)).map((turn): Message => (
+    turn.role === 'model' ? { role: 'assistant', content: turn.text } : { role: 'user', content: turn.text }
+  )),
+  { role: 'user', content: withPassages(history[history.length - 1].text, passages) },
+];
+
+// Shared by HTTP error responses and error payloads sent mid-stream
+const errorForStatus = (baseUrl: string, status: number, detail?: string) => {
+  const suffix = detail ? ` ${detail}` : '';
+  if (status === 401 || status === 403) {
+    return new LLMError('missing-key', `The endpoint at ${baseUrl} rejected the request (HTTP ${status}). Check LOCAL_LLM_API_KEY.${suffix}`);
+  }
+  if (status === 429) {
+    return new LLMError('quota', `The endpoint at ${baseUrl} is rate limiting requests.${suffix}`);
+  }
+  return new LLMError('unknown', `The endpoint at ${baseUrl} returned ${status ? `HTTP ${status}` : 'an error'}.${suffix}`);
+};
+
+// Servers report errors inside the stream as `{"error": {...}}`, with an HTTP status as `code`
+// (llama.cpp, vLLM) or an OpenAI-style string `code`/`type` such as "rate_limit_exceeded"
+const streamError = (baseUrl: string, error: unknown) => {
+  const fields = (typeof error === 'object' && error !== null ? error : { message: error }) as Record<string, unknown>;
+  const detail = typeof fields.message === 'string' ? fields.message : undefined;
+  const name = `${fields.code ?? ''} ${fields.type ?? ''}`;
+  const status = typeof fields.code === 'number' ? fields.code
+    : /rate_limit|quota/.test(name) ? 429
+    : /api_key|auth|permission/.test(name) ? 401
+    : 0;
+  return errorForStatus(baseUrl, status, detail);
+};
+
+const postCompletion = async (baseUrl: string, messages: Message[], withTools: boolean, signal: AbortSignal) => {
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(API_KEY ? { Authorization: `Bearer ${API_KEY}` } : {}),
+      },
+      body: JSON.stringify({ model: MODEL, messages, stream: true, ...(withTools ? { tools: TOOLS } : {}) }),
+      signal,
+    });
+  } catch (error) {
+    if (signal.aborted) throw error;
+    throw new LLMError('network', `Unable to reach the local endpoint at ${baseUrl}.`);
+  }
+
+  if (!response.ok || !response.body) throw errorForStatus(baseUrl, response.status);
+  return response.body;
+};
+
+// Server-sent events: one `data: {json}` line per delta, terminated by `data: [DONE]`.
+// Text deltas are forwarded as they arrive; tool call fragments are stitched together by index.
+const readCompletionStream = async (
+  baseUrl: string,
+  body: ReadableStream<Uint8Array>,
+  onChunk: (text: string) => void
+) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const toolCalls: ToolCallDelta[] = [];
+  let content = '';
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+
+      let payload;
+      try {
+        payload = JSON.parse(data);
+      } catch {
+        throw new LLMError('unknown', `The endpoint at ${baseUrl} sent a malformed stream event.`);
+      }
+      if (payload?.error) throw streamError(baseUrl, payload.error);
+
+      const choice = payload?.choices?.[0];
+      if (choice?.finish_reason === 'content_filter') {
+        throw new LLMError('safety', 'The response was blocked by the endpoint\'s content filter.');
+      }
+      if (choice?.delta?.content) {
+        content += choice.delta.content;
+        onChunk(choice.delta.content);
+      }
+      for (const fragment of choice?.delta?.tool_calls ?? []) {
+        const call = toolCalls[fragment.index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.function.name += fragment.function.name;
+        if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+      }
+    }
+  }
+  return { content, toolCalls: toolCalls.filter(Boolean) };
+};
+
+const parseArguments = (raw: string): Record<string, unknown> => {
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+const streamOpenAICompatResponse = async (
+  history: ChatTurn[],
+  onChunk: (text: string) => void,
+  { signal, passages, onToolCall }: StreamImplOptions
+) => {
+  const baseUrl = getOpenAICompatBaseUrl().replace(/\/+$/, '');
+  const messages = toMessages(history, passages);
+
+  for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+    // The last round offers no tools, so the model has to answer in text
+    const finalRound = round === MAX_TOOL_ROUNDS;
+    const body = await postCompletion(baseUrl, messages, !!onToolCall && !finalRound, signal);
+    const { content, toolCalls } = await readCompletionStream(baseUrl, body, onChunk);
+
+    if (toolCalls.length === 0 || !onToolCall) return;
+    if (finalRound) {
+      onChunk(TOOL_BUDGET_NOTICE);
+      return;
+    }
+
+    messages.push({ role: 'assistant', content: content || null, tool_calls: toolCalls });
+    for (const call of toolCalls) {
+      const result = await onToolCall(call.function.name, parseArguments(call.function.arguments));
+      messages.push({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(result) });
+    }
+  }
+};
+
+export const openAICompatProvider: LLMProvider = {
+  id: 'openai-compatible',
+  label: 'Local (OpenAI API)',
+  info: () => ({ name: `${MODEL} @ ${getOpenAICompatBaseUrl()}`, model: MODEL, offline: false }),
+  ...withCancellation(streamOpenAICompatResponse),
+};
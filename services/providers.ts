@@ -0,0 +1,21 @@
+import { LLMProvider, ProviderId } from "./llmProvider";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+import { openAICompatProvider } from "./openAICompatProvider";
+
+export const PROVIDERS: Record<ProviderId, LLMProvider> = {
+  'gemini': geminiProvider,
+  'openai-compatible': openAICompatProvider,
+  'mock': mockProvider,
+};
+
+const isProviderId = (value: string | undefined): value is ProviderId =>
+  !!value && Object.hasOwn(PROVIDERS, value);
+
+// LLM_PROVIDER from the build environment wins; otherwise use Gemini when a key is configured
+// and fall back to the offline backend so the assistant still works without network.
+export const getDefaultProviderId = (): ProviderId => {
+  const configured = process.env.LLM_PROVIDER;
+  if (isProviderId(configured)) return configured;
+  return process.env.API_KEY ? 'gemini' : 'mock';
+};
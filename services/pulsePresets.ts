@@ -0,0 +1,122 @@
+import { SimulationSettings } from "../types";
+import { PULSE_DETUNING_LIMIT, PULSE_ERROR_LIMIT, PULSE_PHASE_ERROR_LIMIT } from "./assistantTools";
+import { COMPOSITE_PULSES, CUSTOM_PULSE_ID } from "./compositePulses";
+
+// Named pulse-simulator configurations. Presets are kept in localStorage and can be shared as
+// a link whose query string carries the error settings, target rotation and selected sequences.
+
+export type PulseErrorSettings = Pick<SimulationSettings, 'pulseErrorRate' | 'pulseDetuning' | 'pulsePhaseError'>;
+
+export interface PulsePreset {
+  name: string;
+  errors: PulseErrorSettings;
+  /** Target rotation in degrees */
+  targetDeg: number;
+  sequenceIds: string[];
+}
+
+const PRESETS_STORAGE_KEY = 'qubit-explorer.pulse-presets';
+
+export const BUILTIN_PRESETS: PulsePreset[] = [
+  {
+    name: 'Amplitude error only',
+    errors: { pulseErrorRate: 0.1, pulseDetuning: 0, pulsePhaseError: 0 },
+    targetDeg: 180,
+    sequenceIds: ['simple', 'scrofulous', 'bb1'],
+  },
+  {
+    name: 'Detuning only',
+    errors: { pulseErrorRate: 0, pulseDetuning: 0.2, pulsePhaseError: 0 },
+    targetDeg: 180,
+    sequenceIds: ['simple', 'scrofulous', 'corpse'],
+  },
+  {
+    name: 'Combined errors',
+    errors: { pulseErrorRate: 0.08, pulseDetuning: 0.15, pulsePhaseError: 5 },
+    targetDeg: 90,
+    sequenceIds: ['simple', 'scrofulous', 'bb1', 'corpse', 'knill'],
+  },
+];
+
+const SEQUENCE_IDS = new Set([...COMPOSITE_PULSES.map(p => p.id), CUSTOM_PULSE_ID]);
+
+const clamp = (value: number, limit: number) => Math.min(limit, Math.max(-limit, value));
+
+interface UntrustedPreset {
+  name?: unknown;
+  errors?: { [K in keyof PulseErrorSettings]?: unknown };
+  targetDeg?: unknown;
+  sequenceIds?: unknown;
+}
+
+const finiteOr = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+// Shared links and stored presets come from outside the app, so every field is checked
+const sanitizePreset = (raw: UntrustedPreset): PulsePreset | null => {
+  const errors = raw.errors ?? {};
+  const sequenceIds = Array.isArray(raw.sequenceIds)
+    ? raw.sequenceIds.filter((id): id is string => typeof id === 'string' && SEQUENCE_IDS.has(id))
+    : [];
+  if (sequenceIds.length === 0) return null;
+
+  return {
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : 'Shared preset',
+    errors: {
+      pulseErrorRate: clamp(finiteOr(errors.pulseErrorRate, 0), PULSE_ERROR_LIMIT),
+      pulseDetuning: clamp(finiteOr(errors.pulseDetuning, 0), PULSE_DETUNING_LIMIT),
+      pulsePhaseError: clamp(finiteOr(errors.pulsePhaseError, 0), PULSE_PHASE_ERROR_LIMIT),
+    },
+    targetDeg: Math.min(180, Math.max(10, Math.round(finiteOr(raw.targetDeg, 180)))),
+    sequenceIds,
+  };
+};
+
+// --- Sharing via URL ---
+
+export const presetToQuery = (preset: PulsePreset) => new URLSearchParams({
+  preset: preset.name,
+  amp: String(preset.errors.pulseErrorRate),
+  det: String(preset.errors.pulseDetuning),
+  phase: String(preset.errors.pulsePhaseError),
+  theta: String(preset.targetDeg),
+  seq: preset.sequenceIds.join(','),
+}).toString();
+
+export const presetToUrl = (preset: PulsePreset) =>
+  `${window.location.origin}${window.location.pathname}?${presetToQuery(preset)}`;
+
+/** Preset encoded in the current page URL, if the page was opened from a shared link */
+export const readPresetFromUrl = (): PulsePreset | null => {
+  const params = new URLSearchParams(window.location.search);
+  if (!params.has('seq')) return null;
+  const number = (key: string) => (params.has(key) ? parseFloat(params.get(key)!) : undefined);
+  return sanitizePreset({
+    name: params.get('preset') ?? undefined,
+    errors: { pulseErrorRate: number('amp'), pulseDetuning: number('det'), pulsePhaseError: number('phase') },
+    targetDeg: number('theta'),
+    sequenceIds: params.get('seq')!.split(','),
+  });
+};
+
+// --- Persistence ---
+
+export const loadPresets = (): PulsePreset[] => {
+  try {
+    const raw = localStorage.getItem(PRESETS_STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(parsed)) return [];
+    return parsed.map((p: UntrustedPreset) => sanitizePreset(p)).filter((p): p is PulsePreset => p !== null);
+  } catch (error) {
+    console.error("Failed to load pulse presets:", error);
+    return [];
+  }
+};
+
+export const savePresets = (presets: PulsePreset[]) => {
+  try {
+    localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+  } catch (error) {
+    console.error("Failed to save pulse presets:", error);
+  }
+};
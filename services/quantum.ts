@@ -0,0 +1,92 @@
+// Minimal single-qubit toolkit: complex 2x2 matrices, spinors and Bloch vectors.
+// Convention: |0⟩ is the north pole (z = +1), rotations R_φ(θ) = exp(-iθ/2 (cos φ X + sin φ Y)).
+
+export interface Complex {
+  re: number;
+  im: number;
+}
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/** State vector (α, β) in the {|0⟩, |1⟩} basis */
+export type Spinor = [Complex, Complex];
+
+/** Row-major 2x2 complex matrix [m00, m01, m10, m11] */
+export type Matrix2 = [Complex, Complex, Complex, Complex];
+
+export const complex = (re: number, im: number = 0): Complex => ({ re, im });
+
+export const cadd = (a: Complex, b: Complex): Complex => ({ re: a.re + b.re, im: a.im + b.im });
+
+export const cmul = (a: Complex, b: Complex): Complex => ({
+  re: a.re * b.re - a.im * b.im,
+  im: a.re * b.im + a.im * b.re,
+});
+
+export const conj = (a: Complex): Complex => ({ re: a.re, im: -a.im });
+
+export const abs2 = (a: Complex) => a.re * a.re + a.im * a.im;
+
+export const IDENTITY: Matrix2 = [complex(1), complex(0), complex(0), complex(1)];
+
+export const multiply = (a: Matrix2, b: Matrix2): Matrix2 => [
+  cadd(cmul(a[0], b[0]), cmul(a[1], b[2])),
+  cadd(cmul(a[0], b[1]), cmul(a[1], b[3])),
+  cadd(cmul(a[2], b[0]), cmul(a[3], b[2])),
+  cadd(cmul(a[2], b[1]), cmul(a[3], b[3])),
+];
+
+export const dagger = (m: Matrix2): Matrix2 => [conj(m[0]), conj(m[2]), conj(m[1]), conj(m[3])];
+
+export const apply = (m: Matrix2, psi: Spinor): Spinor => [
+  cadd(cmul(m[0], psi[0]), cmul(m[1], psi[1])),
+  cadd(cmul(m[2], psi[0]), cmul(m[3], psi[1])),
+];
+
+/** Rotation by `angle` about the unit vector `axis`: exp(-i angle/2 n·σ) */
+export const axisRotation = (angle: number, axis: Vec3): Matrix2 => {
+  const c = Math.cos(angle / 2);
+  const s = Math.sin(angle / 2);
+  return [
+    complex(c, -s * axis.z),
+    complex(-s * axis.y, -s * axis.x),
+    complex(s * axis.y, -s * axis.x),
+    complex(c, s * axis.z),
+  ];
+};
+
+/** Rotation by θ about the equatorial axis at azimuth φ */
+export const rotation = (theta: number, phi: number): Matrix2 =>
+  axisRotation(theta, { x: Math.cos(phi), y: Math.sin(phi), z: 0 });
+
+export const ZERO_STATE: Spinor = [complex(1), complex(0)];
+
+/** Pure state at polar angle θ and azimuth φ on the Bloch sphere */
+export const stateFromBloch = (theta: number, phi: number): Spinor => [
+  complex(Math.cos(theta / 2)),
+  complex(Math.sin(theta / 2) * Math.cos(phi), Math.sin(theta / 2) * Math.sin(phi)),
+];
+
+export const blochVector = (psi: Spinor): Vec3 => {
+  // ⟨σx⟩ + i⟨σy⟩ = 2 α* β
+  const coherence = cmul(conj(psi[0]), psi[1]);
+  return {
+    x: 2 * coherence.re,
+    y: 2 * coherence.im,
+    z: abs2(psi[0]) - abs2(psi[1]),
+  };
+};
+
+/** |⟨a|b⟩|² */
+export const stateFidelity = (a: Spinor, b: Spinor) =>
+  abs2(cadd(cmul(conj(a[0]), b[0]), cmul(conj(a[1]), b[1])));
+
+/** Phase-insensitive gate overlap |Tr(A†B)|/2, equal to 1 when B = A up to a global phase */
+export const gateOverlap = (a: Matrix2, b: Matrix2) => {
+  const product = multiply(dagger(a), b);
+  return Math.sqrt(abs2(cadd(product[0], product[3]))) / 2;
+};
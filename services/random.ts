@@ -0,0 +1,99 @@
+// Seeded pseudo-random numbers for the simulated datasets. Every chart draws from its own
+// generator, derived from one global seed unless the chart overrides it, so a figure is the same
+// on every render and can be reproduced from a shared link. New samples come only from picking
+// a new seed.
+
+/** Uniform generator on [0, 1) */
+export type Rng = () => number;
+
+export interface SeedState {
+  global: number;
+  /** Per-chart seeds that replace the one derived from the global seed */
+  overrides: Record<string, number>;
+}
+
+export const DEFAULT_SEED = 12_600;
+
+export const DEFAULT_SEED_STATE: SeedState = { global: DEFAULT_SEED, overrides: {} };
+
+const MAX_SEED = 2 ** 32;
+
+/** mulberry32: small, fast and good enough for plotting noise */
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / MAX_SEED;
+  };
+};
+
+/** Standard normal sample (Box–Muller) */
+export const randomNormal = (rng: Rng) => {
+  const u = 1 - rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+};
+
+/** Fraction of successes in n Bernoulli trials; the normal approximation takes over for large n */
+export const randomBinomialFraction = (rng: Rng, n: number, p: number) => {
+  if (n * p * (1 - p) > 25) {
+    return Math.min(1, Math.max(0, p + Math.sqrt((p * (1 - p)) / n) * randomNormal(rng)));
+  }
+  let successes = 0;
+  for (let i = 0; i < n; i++) if (rng() < p) successes++;
+  return successes / n;
+};
+
+// FNV-1a, so sub-seeds for different keys are unrelated even for neighbouring seeds
+const hashString = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/** Independent seed for a named part of a simulation (a chart, or one curve within it) */
+export const deriveSeed = (seed: number, key: string) => hashString(`${seed}:${key}`);
+
+/** Seed a chart should use under the given state */
+export const chartSeed = (state: SeedState, chart: string) => state.overrides[chart] ?? deriveSeed(state.global, chart);
+
+/** A fresh seed for an explicit "new sample" action */
+export const newSeed = () => Math.floor(Math.random() * 1_000_000);
+
+const parseSeed = (value: string | null) => {
+  if (value === null || !/^\d{1,10}$/.test(value.trim())) return null;
+  const seed = Number(value);
+  return seed < MAX_SEED ? seed : null;
+};
+
+// --- Sharing via URL ---
+
+/** Writes the seeds into a query string, leaving its other parameters in place */
+export const writeSeedParams = (params: URLSearchParams, state: SeedState) => {
+  params.set('seed', String(state.global));
+  const overrides = Object.entries(state.overrides).map(([chart, seed]) => `${chart}:${seed}`);
+  if (overrides.length > 0) params.set('seeds', overrides.join(','));
+  else params.delete('seeds');
+  return params;
+};
+
+export const readSeedsFromUrl = (): SeedState | null => {
+  const params = new URLSearchParams(window.location.search);
+  const global = parseSeed(params.get('seed'));
+  if (global === null) return null;
+  const overrides: Record<string, number> = {};
+  for (const entry of (params.get('seeds') ?? '').split(',')) {
+    const [chart, value] = entry.split(':');
+    const seed = parseSeed(value ?? null);
+    if (chart && /^[a-z-]+$/.test(chart) && seed !== null) overrides[chart] = seed;
+  }
+  return { global, overrides };
+};
+
+export const seedsToUrl = (state: SeedState) =>
+  `${window.location.origin}${window.location.pathname}?${writeSeedParams(new URLSearchParams(window.location.search), state)}`;
@@ -0,0 +1,201 @@
+import { PulseSegment, segmentRotation } from "./compositePulses";
+import { levenbergMarquardt, rbDecay } from "./curveFitting";
+import { rotateVector } from "./lindblad";
+import { Matrix2, IDENTITY, Vec3, abs2, complex, cmul, multiply, rotation } from "./quantum";
+import { Rng, randomBinomialFraction } from "./random";
+
+// Single-qubit randomized benchmarking. Sequences of random Cliffords, each built from ±π/2 and
+// π pulses about x and y, are closed by the Clifford that inverts them and run through a noise
+// model on the Bloch vector. Survival of |0⟩ decays as A·p^m + B, with error per Clifford
+// r = (1 − p)/2. Interleaving a transport move after every Clifford multiplies p by the move's
+// own depolarizing parameter, which gives its fidelity (Magesan et al., PRL 109, 080505).
+
+export interface Clifford {
+  matrix: Matrix2;
+  /** Physical pulses implementing the element, applied left to right; empty for the identity */
+  pulses: PulseSegment[];
+  name: string;
+}
+
+const GENERATORS: { name: string; pulse: PulseSegment }[] = [
+  { name: 'X90', pulse: { theta: Math.PI / 2, phi: 0 } },
+  { name: 'Y90', pulse: { theta: Math.PI / 2, phi: Math.PI / 2 } },
+  { name: 'X-90', pulse: { theta: Math.PI / 2, phi: Math.PI } },
+  { name: 'Y-90', pulse: { theta: Math.PI / 2, phi: -Math.PI / 2 } },
+  { name: 'X180', pulse: { theta: Math.PI, phi: 0 } },
+  { name: 'Y180', pulse: { theta: Math.PI, phi: Math.PI / 2 } },
+];
+
+// Key that identifies a unitary up to global phase
+const phaseFreeKey = (m: Matrix2) => {
+  const pivot = m.find(c => abs2(c) > 1e-6)!;
+  const norm = Math.sqrt(abs2(pivot));
+  const phase = complex(pivot.re / norm, -pivot.im / norm);
+  return m.map(c => {
+    const v = cmul(c, phase);
+    return `${v.re.toFixed(6)},${v.im.toFixed(6)}`;
+  }).join(';').replace(/-0\.000000/g, '0.000000');
+};
+
+/** The 24 single-qubit Cliffords, each with a shortest decomposition into the generator pulses */
+export const CLIFFORDS: Clifford[] = (() => {
+  const group: Clifford[] = [{ matrix: IDENTITY, pulses: [], name: 'I' }];
+  const seen = new Set([phaseFreeKey(IDENTITY)]);
+  // Breadth-first search, so every element is reached by a shortest pulse word
+  for (let i = 0; i < group.length; i++) {
+    for (const { name, pulse } of GENERATORS) {
+      const matrix = multiply(rotation(pulse.theta, pulse.phi), group[i].matrix);
+      const key = phaseFreeKey(matrix);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const pulses = [...group[i].pulses, pulse];
+      group.push({ matrix, pulses, name: group[i].name === 'I' ? name : `${group[i].name}·${name}` });
+    }
+  }
+  return group;
+})();
+
+const CLIFFORD_INDEX = new Map(CLIFFORDS.map((c, i) => [phaseFreeKey(c.matrix), i]));
+
+/** PRODUCT[a][b] is the element for "b, then a" */
+const PRODUCT: number[][] = CLIFFORDS.map(a => CLIFFORDS.map(b => CLIFFORD_INDEX.get(phaseFreeKey(multiply(a.matrix, b.matrix)))!));
+
+const INVERSE: number[] = CLIFFORDS.map((_, a) => PRODUCT[a].findIndex((_, b) => PRODUCT[b][a] === 0));
+
+export const AVERAGE_PULSES_PER_CLIFFORD = CLIFFORDS.reduce((sum, c) => sum + c.pulses.length, 0) / CLIFFORDS.length;
+
+/** Clifford that undoes the given sequence of element indices */
+export const recoveryClifford = (sequence: number[]) =>
+  INVERSE[sequence.reduce((total, c) => PRODUCT[c][total], 0)];
+
+export interface RBNoiseModel {
+  /** Depolarizing probability per Clifford */
+  depolarizing: number;
+  /** Fractional over-rotation of every physical pulse */
+  amplitudeError: number;
+  /** Phase-flip probability per physical pulse */
+  dephasing: number;
+  /** Depolarizing probability per interleaved transport move */
+  transport: number;
+}
+
+export interface RBConfig {
+  lengths: number[];
+  sequencesPerLength: number;
+  /** Repetitions per sequence; 0 reports the exact survival probability */
+  shots: number;
+  noise: RBNoiseModel;
+}
+
+export interface RBSequence {
+  length: number;
+  /** Measured survival of |0⟩ */
+  survival: number;
+  /** Survival without shot noise */
+  expected: number;
+}
+
+/** Depolarizing probability λ of a channel with average fidelity F: F = 1 − λ/2 */
+export const depolarizingFromFidelity = (fidelity: number) => 2 * (1 - fidelity);
+
+const depolarize = (r: Vec3, lambda: number): Vec3 => ({ x: r.x * (1 - lambda), y: r.y * (1 - lambda), z: r.z * (1 - lambda) });
+
+const applyClifford = (r: Vec3, clifford: Clifford, noise: RBNoiseModel): Vec3 => {
+  const errors = { amplitude: noise.amplitudeError, detuning: 0, phase: 0 };
+  let state = r;
+  for (const pulse of clifford.pulses) {
+    const { angle, axis } = segmentRotation(pulse, errors);
+    state = rotateVector(state, axis, angle);
+    const flip = 1 - 2 * noise.dephasing;
+    state = { x: state.x * flip, y: state.y * flip, z: state.z };
+  }
+  return depolarize(state, noise.depolarizing);
+};
+
+/** Runs the random sequences of one RB experiment, with a transport move after every Clifford when interleaved */
+export const simulateRB = (config: RBConfig, interleaved: boolean, rng: Rng): RBSequence[] =>
+  config.lengths.flatMap(length => Array.from({ length: config.sequencesPerLength }, () => {
+    const sequence = Array.from({ length }, () => Math.floor(rng() * CLIFFORDS.length));
+    let r: Vec3 = { x: 0, y: 0, z: 1 };
+    for (const c of sequence) {
+      r = applyClifford(r, CLIFFORDS[c], config.noise);
+      if (interleaved) r = depolarize(r, config.noise.transport);
+    }
+    r = applyClifford(r, CLIFFORDS[recoveryClifford(sequence)], config.noise);
+    const expected = Math.min(1, Math.max(0, (1 + r.z) / 2));
+    return { length, expected, survival: config.shots > 0 ? randomBinomialFraction(rng, config.shots, expected) : expected };
+  }));
+
+/** Draws new measurement outcomes for the same sequences, as if each were repeated `shots` times */
+export const resampleShots = (sequences: RBSequence[], shots: number, rng: Rng): RBSequence[] =>
+  sequences.map(s => ({ ...s, survival: shots > 0 ? randomBinomialFraction(rng, shots, s.expected) : s.expected }));
+
+export interface RBSummary {
+  lengths: number[];
+  means: number[];
+  /** Standard error of each mean; undefined when every length has a single sequence */
+  sigma?: number[];
+}
+
+export const summarizeRB = (sequences: { length: number; survival: number }[]): RBSummary => {
+  const lengths = [...new Set(sequences.map(s => s.length))].sort((a, b) => a - b);
+  const groups = lengths.map(m => sequences.filter(s => s.length === m).map(s => s.survival));
+  const means = groups.map(values => values.reduce((a, b) => a + b, 0) / values.length);
+  if (groups.some(values => values.length < 2)) return { lengths, means };
+  return {
+    lengths,
+    means,
+    // Floor keeps noiseless, identical sequences from getting infinite weight
+    sigma: groups.map((values, i) => {
+      const variance = values.reduce((sum, v) => sum + (v - means[i]) ** 2, 0) / (values.length - 1);
+      return Math.max(Math.sqrt(variance / values.length), 1e-4);
+    }),
+  };
+};
+
+/** Fits A·p^m + B; the guess puts a 1/e-ish decay at the longest sequence */
+export const fitRB = ({ lengths, means, sigma }: RBSummary) => {
+  const longest = Math.max(...lengths);
+  return levenbergMarquardt(rbDecay, lengths, means, [means[0] - 0.5, Math.pow(0.3, 1 / longest), 0.5], { sigma });
+};
+
+/** Error per Clifford r = (d − 1)(1 − p)/d for a qubit, with its standard error */
+export const errorPerClifford = (p: number, pError: number) => ({ value: (1 - p) / 2, error: pError / 2 });
+
+/**
+ * Fidelity of the interleaved move from the reference and interleaved decays,
+ * F = 1 − (1 − p_int/p_ref)/2, and the systematic uncertainty bound E on its error from
+ * Magesan et al., which the estimate is only guaranteed to within.
+ */
+export const interleavedFidelity = (pRef: number, pRefError: number, pInt: number, pIntError: number) => {
+  const ratio = pInt / pRef;
+  const ratioError = ratio * Math.hypot(pRefError / pRef, pIntError / pInt);
+  const bound = Math.min(
+    (Math.abs(pRef - ratio) + (1 - pRef)) / 2,
+    (3 * (1 - pRef)) / (2 * pRef) + (4 * Math.sqrt(1 - pRef) * Math.sqrt(3)) / pRef
+  );
+  return { value: (1 + ratio) / 2, error: ratioError / 2, bound };
+};
+
+/**
+ * Statistical uncertainty of the extracted transport fidelity against shots per sequence: the
+ * noiseless reference and interleaved sequences are measured again with each shot count, and the
+ * fit errors are averaged (in quadrature) over a few resamples. The error that remains at
+ * infinitely many shots comes from the finite set of random sequences.
+ */
+export const transportErrorVsShots = (
+  reference: RBSequence[], interleaved: RBSequence[], shotCounts: number[], resamples: number, rng: Rng
+) => {
+  const transportError = (shots: number) => {
+    const standardFit = fitRB(summarizeRB(resampleShots(reference, shots, rng)));
+    const irbFit = fitRB(summarizeRB(resampleShots(interleaved, shots, rng)));
+    return interleavedFidelity(standardFit.params[1], standardFit.errors[1], irbFit.params[1], irbFit.errors[1]).error;
+  };
+  return {
+    points: shotCounts.map(shots => ({
+      shots,
+      error: Math.sqrt(Array.from({ length: resamples }, () => transportError(shots) ** 2).reduce((a, b) => a + b, 0) / resamples),
+    })),
+    sequenceLimit: transportError(0),
+  };
+};
@@ -0,0 +1,443 @@
+import { Rng } from "./random";
+
+// Rearrangement of a stochastically loaded tweezer array into a defect-free target pattern.
+// Sites are indexed row by row (site = row·cols + col). A plan is a list of AOD operations, each
+// picking up one or more atoms, carrying them along straight lines and dropping them into their
+// new sites together; atoms move through the gaps between static traps, so paths may cross
+// occupied sites.
+
+export interface ArrayGrid {
+  cols: number;
+  rows: number;
+  /** Lattice positions without a trap */
+  missing?: number[];
+}
+
+export type TargetPattern = 'block' | 'zones' | 'checkerboard' | 'custom';
+
+export const TARGET_PATTERNS: { id: TargetPattern; label: string }[] = [
+  { id: 'block', label: 'Centered block' },
+  { id: 'zones', label: 'Zones' },
+  { id: 'checkerboard', label: 'Checkerboard' },
+  { id: 'custom', label: 'Custom mask' },
+];
+
+export type RearrangementAlgorithm = 'hungarian' | 'compression' | 'tetris';
+
+export const REARRANGEMENT_ALGORITHMS: { id: RearrangementAlgorithm; label: string; description: string }[] = [
+  { id: 'hungarian', label: 'Hungarian', description: 'Minimum total distance assignment, one atom per move' },
+  { id: 'compression', label: 'Row/column compression', description: 'Every column, then every row, compressed onto the target in one move each; a tetris pass fills the holes left over' },
+  { id: 'tetris', label: 'Tetris (parallel AOD)', description: 'Atoms of one reservoir row fill the vacancies of a target row in one move' },
+];
+
+export interface AtomMove {
+  /** Site the atom was loaded into, which identifies it throughout the plan */
+  atom: number;
+  from: number;
+  to: number;
+}
+
+/** One AOD pick-up, transport and drop */
+export type ParallelMove = AtomMove[];
+
+export interface RearrangementPlan {
+  moves: ParallelMove[];
+  /** Occupancy after every move has been carried out */
+  final: boolean[];
+}
+
+export const siteCount = (grid: ArrayGrid) => grid.cols * grid.rows;
+
+/** Lattice positions that hold a trap */
+export const trapCount = (grid: ArrayGrid) => siteCount(grid) - (grid.missing?.length ?? 0);
+
+const trapMask = (grid: ArrayGrid) => {
+  const traps = new Array<boolean>(siteCount(grid)).fill(true);
+  grid.missing?.forEach(site => { traps[site] = false; });
+  return traps;
+};
+
+/** Loads every trap independently with the given probability */
+export const loadArray = (grid: ArrayGrid, probability: number, rng: Rng) =>
+  trapMask(grid).map(trap => rng() < probability && trap);
+
+/**
+ * Target sites of a pattern that spans width × height sites in the middle of the array. Zones are
+ * three blocks side by side with two empty columns between them; the checkerboard keeps every
+ * other site of the block.
+ */
+export const targetMask = (grid: ArrayGrid, pattern: Exclude<TargetPattern, 'custom'>, width: number, height: number) => {
+  const zoneWidth = Math.max(1, Math.floor((Math.min(width, grid.cols) - 4) / 3));
+  const w = pattern === 'zones' ? Math.min(3 * zoneWidth + 4, grid.cols) : Math.min(width, grid.cols);
+  const h = Math.min(height, grid.rows);
+  const left = Math.floor((grid.cols - w) / 2);
+  const top = Math.floor((grid.rows - h) / 2);
+  const traps = trapMask(grid);
+
+  return traps.map((trap, site) => {
+    if (!trap) return false;
+    const col = (site % grid.cols) - left;
+    const row = Math.floor(site / grid.cols) - top;
+    if (col < 0 || col >= w || row < 0 || row >= h) return false;
+    if (pattern === 'checkerboard') return (col + row) % 2 === 0;
+    // Zone k covers columns [k·(zoneWidth + 2), k·(zoneWidth + 2) + zoneWidth)
+    if (pattern === 'zones') return col % (zoneWidth + 2) < zoneWidth;
+    return true;
+  });
+};
+
+const distance = (grid: ArrayGrid, a: number, b: number) =>
+  Math.hypot((a % grid.cols) - (b % grid.cols), Math.floor(a / grid.cols) - Math.floor(b / grid.cols));
+
+// --- Hungarian assignment ---
+
+/**
+ * Minimum-cost assignment of every row to a distinct column, for n rows ≤ m columns
+ * (Kuhn–Munkres with potentials, O(n²m)). Returns the column of each row.
+ */
+export const hungarian = (cost: (row: number, col: number) => number, n: number, m: number): number[] => {
+  const u = new Float64Array(n + 1);
+  const v = new Float64Array(m + 1);
+  // p[j]: row matched to column j (1-based, 0 for none); way[j]: previous column on the augmenting path
+  const p = new Int32Array(m + 1);
+  const way = new Int32Array(m + 1);
+  const minv = new Float64Array(m + 1);
+  const used = new Uint8Array(m + 1);
+
+  for (let i = 1; i <= n; i++) {
+    p[0] = i;
+    let j0 = 0;
+    minv.fill(Infinity);
+    used.fill(0);
+    do {
+      used[j0] = 1;
+      const i0 = p[j0];
+      let delta = Infinity;
+      let j1 = 0;
+      for (let j = 1; j <= m; j++) {
+        if (used[j]) continue;
+        const reduced = cost(i0 - 1, j - 1) - u[i0] - v[j];
+        if (reduced < minv[j]) {
+          minv[j] = reduced;
+          way[j] = j0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          j1 = j;
+        }
+      }
+      for (let j = 0; j <= m; j++) {
+        if (used[j]) {
+          u[p[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (p[j0] !== 0);
+    do {
+      const j1 = way[j0];
+      p[j0] = p[j1];
+      j0 = j1;
+    } while (j0 !== 0);
+  }
+
+  const assignment = new Array<number>(n).fill(-1);
+  for (let j = 1; j <= m; j++) if (p[j] > 0) assignment[p[j] - 1] = j - 1;
+  return assignment;
+};
+
+/** The assignment grows as O(n³) in the number of vacancies; beyond this it takes seconds */
+export const HUNGARIAN_MAX_VACANCIES = 400;
+
+export const vacancyCount = (occupancy: boolean[], target: boolean[]) =>
+  target.reduce((count, wanted, site) => count + (wanted && !occupancy[site] ? 1 : 0), 0);
+
+/**
+ * Atoms already on target sites stay; the spare atoms are assigned to the vacancies. Candidates
+ * are each vacancy's n nearest spares, for n vacancies: in any assignment, a vacancy matched
+ * outside that set leaves one of its n nearest spares free, and moving it there costs no more,
+ * so the restricted assignment is still a minimum-cost one.
+ */
+const planHungarian = (grid: ArrayGrid, occupancy: boolean[], target: boolean[]): ParallelMove[] => {
+  const vacancies = target.flatMap((wanted, site) => (wanted && !occupancy[site] ? [site] : []));
+  if (vacancies.length > HUNGARIAN_MAX_VACANCIES) {
+    throw new RangeError(`Hungarian assignment is limited to ${HUNGARIAN_MAX_VACANCIES} vacancies, got ${vacancies.length}`);
+  }
+  const allSpares = occupancy.flatMap((loaded, site) => (loaded && !target[site] ? [site] : []));
+  const candidates = new Set<number>();
+  if (allSpares.length <= vacancies.length) {
+    allSpares.forEach(site => candidates.add(site));
+  } else {
+    // Squared distances are integers on the lattice, so a histogram finds the n-th smallest;
+    // spares tied with it are kept too
+    const reach = new Int32Array(allSpares.length);
+    const histogram = new Int32Array((grid.cols - 1) ** 2 + (grid.rows - 1) ** 2 + 1);
+    vacancies.forEach(vacancy => {
+      histogram.fill(0);
+      allSpares.forEach((site, i) => {
+        reach[i] = ((site % grid.cols) - (vacancy % grid.cols)) ** 2
+          + (Math.floor(site / grid.cols) - Math.floor(vacancy / grid.cols)) ** 2;
+        histogram[reach[i]]++;
+      });
+      let threshold = 0;
+      for (let seen = histogram[0]; seen < vacancies.length; seen += histogram[threshold]) threshold++;
+      allSpares.forEach((site, i) => { if (reach[i] <= threshold) candidates.add(site); });
+    });
+  }
+  const spares = [...candidates];
+  if (spares.length === 0 || vacancies.length === 0) return [];
+
+  // The shorter list takes the rows of the cost matrix
+  const [rows, cols] = vacancies.length <= spares.length ? [vacancies, spares] : [spares, vacancies];
+  const cost = new Float64Array(rows.length * cols.length);
+  rows.forEach((a, i) => cols.forEach((b, j) => { cost[i * cols.length + j] = distance(grid, a, b); }));
+  return hungarian((i, j) => cost[i * cols.length + j], rows.length, cols.length).map((j, i) => {
+    const [from, to] = rows === spares ? [rows[i], cols[j]] : [cols[j], rows[i]];
+    return [{ atom: from, from, to }];
+  });
+};
+
+// --- Order-preserving moves along a line ---
+
+/**
+ * Pairs sorted source positions with sorted target positions without reordering, using the
+ * contiguous run of the longer list that minimizes the total displacement. Returns [source index,
+ * target index] pairs.
+ */
+const orderedPairs = (sources: number[], targets: number[]): [number, number][] => {
+  const n = Math.min(sources.length, targets.length);
+  const long = sources.length >= targets.length ? sources : targets;
+  const short = sources.length >= targets.length ? targets : sources;
+  let best = 0;
+  let bestCost = Infinity;
+  for (let w = 0; w + n <= long.length; w++) {
+    let total = 0;
+    for (let i = 0; i < n; i++) total += Math.abs(long[w + i] - short[i]);
+    // Ties go to the more central run
+    if (total < bestCost - 1e-9 || (Math.abs(total - bestCost) < 1e-9 && Math.abs(2 * w + n - long.length) < Math.abs(2 * best + n - long.length))) {
+      best = w;
+      bestCost = total;
+    }
+  }
+  return Array.from({ length: n }, (_, i) =>
+    sources.length >= targets.length ? [best + i, i] : [i, best + i]
+  );
+};
+
+/**
+ * New positions of all atoms on a line of the given size when they are compressed onto the
+ * targets: the chosen run lands on the targets and the atoms outside it are pushed just far
+ * enough to keep their order.
+ */
+const compressLine = (sources: number[], targets: number[], size: number): number[] => {
+  if (sources.length === 0 || targets.length === 0) return sources;
+  if (sources.length < targets.length) {
+    const positions = [...sources];
+    for (const [i, t] of orderedPairs(sources, targets)) positions[i] = targets[t];
+    return positions;
+  }
+
+  const n = targets.length;
+  const first = targets[0];
+  const last = targets[n - 1];
+  let best: number[] | null = null;
+  let bestCost = Infinity;
+  for (let w = 0; w + n <= sources.length; w++) {
+    const right = sources.length - n - w;
+    if (w > first || right > size - 1 - last) continue;
+    const positions = sources.map((s, j) => {
+      if (j < w) return Math.min(s, first - (w - j));
+      if (j >= w + n) return Math.max(s, last + (j - w - n + 1));
+      return targets[j - w];
+    });
+    const total = positions.reduce((sum, x, j) => sum + Math.abs(x - sources[j]), 0);
+    if (total < bestCost) {
+      best = positions;
+      bestCost = total;
+    }
+  }
+  return best ?? sources;
+};
+
+// One move per column, then one per row, each shifting the line's atoms without reordering them.
+// A single pass can leave holes where a column had too few atoms for its target rows, so the
+// tetris pass then fills whatever is still empty.
+const planCompression = (grid: ArrayGrid, occupancy: boolean[], target: boolean[]): ParallelMove[] => {
+  const atomAt = occupancy.map((loaded, site) => (loaded ? site : -1));
+  const moves: ParallelMove[] = [];
+
+  const compress = (lineSites: number[], targetIndices: number[]) => {
+    const sources = lineSites.flatMap((site, i) => (atomAt[site] >= 0 ? [i] : []));
+    const positions = compressLine(sources, targetIndices, lineSites.length);
+    const move = sources.flatMap((from, j) =>
+      positions[j] === from ? [] : [{ atom: atomAt[lineSites[from]], from: lineSites[from], to: lineSites[positions[j]] }]
+    );
+    if (move.length === 0) return;
+    move.forEach(m => { atomAt[m.from] = -1; });
+    move.forEach(m => { atomAt[m.to] = m.atom; });
+    moves.push(move);
+  };
+
+  // Columns gather atoms into every row that has target sites, so the rows can then be compressed
+  const targetRows = Array.from({ length: grid.rows }, (_, row) => row)
+    .filter(row => target.slice(row * grid.cols, (row + 1) * grid.cols).some(Boolean));
+  for (let col = 0; col < grid.cols; col++) {
+    compress(Array.from({ length: grid.rows }, (_, row) => row * grid.cols + col), targetRows);
+  }
+  for (let row = 0; row < grid.rows; row++) {
+    const lineSites = Array.from({ length: grid.cols }, (_, col) => row * grid.cols + col);
+    compress(lineSites, lineSites.flatMap((site, col) => (target[site] ? [col] : [])));
+  }
+  return [...moves, ...planTetris(grid, atomAt.map(atom => atom >= 0), target, atomAt)];
+};
+
+// Target rows fill from the centre outwards, each from the nearest rows that still hold spare atoms.
+// Atoms are identified by their loading site, or through atomAt when they have already moved.
+const planTetris = (grid: ArrayGrid, occupancy: boolean[], target: boolean[], atomAt?: number[]): ParallelMove[] => {
+  const spareCols = Array.from({ length: grid.rows }, (_, row) =>
+    Array.from({ length: grid.cols }, (_, col) => col).filter(col => occupancy[row * grid.cols + col] && !target[row * grid.cols + col])
+  );
+  const centre = (grid.rows - 1) / 2;
+  const rowsByDistance = Array.from({ length: grid.rows }, (_, row) => row).sort((a, b) => Math.abs(a - centre) - Math.abs(b - centre));
+  const moves: ParallelMove[] = [];
+
+  for (const row of rowsByDistance) {
+    let vacancies = Array.from({ length: grid.cols }, (_, col) => col)
+      .filter(col => target[row * grid.cols + col] && !occupancy[row * grid.cols + col]);
+    while (vacancies.length > 0) {
+      const source = rowsByDistance
+        .filter(r => spareCols[r].length > 0)
+        .sort((a, b) => Math.abs(a - row) - Math.abs(b - row))[0];
+      if (source === undefined) return moves;
+      const pairs = orderedPairs(spareCols[source], vacancies);
+      moves.push(pairs.map(([s, v]) => {
+        const from = source * grid.cols + spareCols[source][s];
+        return { atom: atomAt ? atomAt[from] : from, from, to: row * grid.cols + vacancies[v] };
+      }));
+      const used = new Set(pairs.map(([s]) => s));
+      const filled = new Set(pairs.map(([, v]) => v));
+      spareCols[source] = spareCols[source].filter((_, i) => !used.has(i));
+      vacancies = vacancies.filter((_, i) => !filled.has(i));
+    }
+  }
+  return moves;
+};
+
+export const planRearrangement = (
+  grid: ArrayGrid, occupancy: boolean[], target: boolean[], algorithm: RearrangementAlgorithm
+): RearrangementPlan => {
+  const moves = algorithm === 'hungarian' ? planHungarian(grid, occupancy, target)
+    : algorithm === 'compression' ? planCompression(grid, occupancy, target)
+    : planTetris(grid, occupancy, target);
+
+  // Tetris and Hungarian moves start from loaded sites, so the atom is identified by its site;
+  // compression moves an atom several times and carries its identity along
+  const final = [...occupancy];
+  for (const move of moves) {
+    move.forEach(m => { final[m.from] = false; });
+    move.forEach(m => { final[m.to] = true; });
+  }
+  return { moves, final };
+};
+
+// --- Statistics ---
+
+export interface RearrangementStats {
+  moves: number;
+  /** Sum over moves of the atoms each one carries */
+  atomMoves: number;
+  /** Total straight-line distance travelled by all atoms, in lattice sites */
+  pathLength: number;
+  targetSites: number;
+  /** Target sites holding an atom once the plan is done, before transport loss */
+  filled: number;
+  /** Expected occupied target sites when every move loses each atom it carries with lossPerMove */
+  expectedFilled: number;
+  /** Probability that the target ends up defect-free */
+  successProbability: number;
+}
+
+export const rearrangementStats = (
+  grid: ArrayGrid, target: boolean[], plan: RearrangementPlan, lossPerMove: number
+): RearrangementStats => {
+  const movesOfAtom = new Map<number, number>();
+  const atomAt = new Map<number, number>();
+  let atomMoves = 0;
+  let pathLength = 0;
+  for (const move of plan.moves) {
+    for (const m of move) {
+      atomMoves++;
+      pathLength += distance(grid, m.from, m.to);
+      movesOfAtom.set(m.atom, (movesOfAtom.get(m.atom) ?? 0) + 1);
+      atomAt.set(m.to, m.atom);
+    }
+  }
+
+  const targetSites = target.filter(Boolean).length;
+  let filled = 0;
+  let expectedFilled = 0;
+  let logSuccess = 0;
+  target.forEach((wanted, site) => {
+    if (!wanted || !plan.final[site]) return;
+    const atom = atomAt.get(site);
+    const survival = Math.pow(1 - lossPerMove, atom === undefined ? 0 : movesOfAtom.get(atom) ?? 0);
+    filled++;
+    expectedFilled += survival;
+    logSuccess += Math.log(survival);
+  });
+
+  return {
+    moves: plan.moves.length,
+    atomMoves,
+    pathLength,
+    targetSites,
+    filled,
+    expectedFilled,
+    successProbability: filled === targetSites ? Math.exp(logSuccess) : 0,
+  };
+};
+
+// --- Animation ---
+
+/**
+ * Positions of the loaded atoms, in site units, while the plan plays out. `progress` runs from 0
+ * to the number of moves; its fractional part is how far the current move has got, already eased.
+ */
+export const createRearrangementAnimation = (grid: ArrayGrid, occupancy: boolean[], plan: RearrangementPlan) => {
+  const atoms = occupancy.flatMap((loaded, site) => (loaded ? [site] : []));
+  const indexOf = new Map(atoms.map((site, i) => [site, i]));
+  const xy = new Float32Array(2 * atoms.length);
+
+  const place = (i: number, site: number, toward?: number, fraction = 0) => {
+    const x = site % grid.cols;
+    const y = Math.floor(site / grid.cols);
+    xy[2 * i] = toward === undefined ? x : x + ((toward % grid.cols) - x) * fraction;
+    xy[2 * i + 1] = toward === undefined ? y : y + (Math.floor(toward / grid.cols) - y) * fraction;
+  };
+
+  return {
+    /** Sites the atoms were loaded into, in the order of positionsAt */
+    atoms,
+    positionsAt: (progress: number) => {
+      atoms.forEach((site, i) => place(i, site));
+      const done = Math.min(Math.floor(progress), plan.moves.length);
+      for (let k = 0; k < done; k++) for (const m of plan.moves[k]) place(indexOf.get(m.atom)!, m.to);
+      if (done < plan.moves.length) {
+        for (const m of plan.moves[done]) place(indexOf.get(m.atom)!, m.from, m.to, progress - done);
+      }
+      return xy;
+    },
+    /** Occupancy once the given number of moves is complete, leaving out atoms that are no longer present */
+    occupancyAt: (moves: number, present: (i: number) => boolean = () => true) => {
+      const siteOf = [...atoms];
+      for (const move of plan.moves.slice(0, moves)) for (const m of move) siteOf[indexOf.get(m.atom)!] = m.to;
+      const occupied = new Array<boolean>(occupancy.length).fill(false);
+      siteOf.forEach((site, i) => { if (present(i)) occupied[site] = true; });
+      return occupied;
+    },
+  };
+};
+
+export type RearrangementAnimation = ReturnType<typeof createRearrangementAnimation>;
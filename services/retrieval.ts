@@ -0,0 +1,163 @@
+import { RetrievedPassage } from "../types";
+
+// In-browser BM25 retrieval over paper/supplementary text that the user loads from disk.
+// Documents are persisted in localStorage; the index is rebuilt from them on load.
+
+export interface CorpusDocument {
+  name: string;
+  text: string;
+}
+
+interface Chunk {
+  source: string;
+  section?: string;
+  text: string;
+  terms: Map<string, number>;
+  length: number;
+}
+
+export interface BM25Index {
+  chunks: Chunk[];
+  docFreq: Map<string, number>;
+  avgLength: number;
+}
+
+const CORPUS_STORAGE_KEY = 'qubit-explorer.paper-corpus';
+
+const CHUNK_CHARS = 1000;
+const CHUNK_OVERLAP_CHARS = 200;
+export const TOP_K = 4;
+
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'are', 'was', 'were', 'from', 'which', 'have', 'has',
+  'been', 'into', 'than', 'then', 'these', 'those', 'their', 'there', 'what', 'how', 'does', 'our',
+  'can', 'also', 'such', 'its', 'not', 'but', 'use', 'used', 'using', 'per', 'each', 'about',
+]);
+
+export const tokenize = (text: string): string[] => {
+  const words = text.toLowerCase().match(/[a-z0-9µμ]+(?:\.[0-9]+)?/g);
+  return words ? words.filter(t => t.length > 1 && !STOPWORDS.has(t)) : [];
+};
+
+// Only explicit markers start a section: a one-line Markdown heading or a LaTeX \section,
+// \subsection or \subsubsection. Short unpunctuated lines are too often table rows or equations.
+const MARKDOWN_HEADING = /^#{1,6}\s+(.+)$/;
+const LATEX_SECTION = /^\\(?:sub){0,2}section\*?\{(.+)\}\s*$/;
+
+const headingTitle = (paragraph: string) => {
+  if (paragraph.includes('\n')) return null;
+  return (MARKDOWN_HEADING.exec(paragraph) ?? LATEX_SECTION.exec(paragraph))?.[1].trim() ?? null;
+};
+
+// Splits on paragraphs and packs them into ~CHUNK_CHARS windows, carrying a tail of the
+// previous window over so that sentences spanning a boundary stay retrievable.
+export const chunkDocument = (doc: CorpusDocument): Omit<Chunk, 'terms' | 'length'>[] => {
+  const paragraphs = doc.text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+  const chunks: Omit<Chunk, 'terms' | 'length'>[] = [];
+  let section: string | undefined;
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer.trim()) chunks.push({ source: doc.name, section, text: buffer.trim() });
+    buffer = buffer.length > CHUNK_OVERLAP_CHARS ? buffer.slice(-CHUNK_OVERLAP_CHARS) : '';
+  };
+
+  for (const paragraph of paragraphs) {
+    const title = headingTitle(paragraph);
+    if (title !== null) {
+      if (buffer.trim()) flush();
+      buffer = '';
+      section = title;
+      continue;
+    }
+    if (buffer.length + paragraph.length > CHUNK_CHARS && buffer.length > CHUNK_OVERLAP_CHARS) flush();
+    buffer += (buffer ? '\n\n' : '') + paragraph;
+    // Paragraphs longer than a whole window are split on sentence boundaries
+    while (buffer.length > CHUNK_CHARS * 1.5) {
+      const sentenceEnd = buffer.lastIndexOf('. ', CHUNK_CHARS);
+      const cut = sentenceEnd > CHUNK_OVERLAP_CHARS ? sentenceEnd + 1 : CHUNK_CHARS;
+      chunks.push({ source: doc.name, section, text: buffer.slice(0, cut).trim() });
+      buffer = buffer.slice(cut - CHUNK_OVERLAP_CHARS);
+    }
+  }
+  flush();
+  return chunks;
+};
+
+export const buildIndex = (documents: CorpusDocument[]): BM25Index => {
+  const chunks: Chunk[] = documents.flatMap(chunkDocument).map(chunk => {
+    const tokens = tokenize(chunk.text);
+    const terms = new Map<string, number>();
+    tokens.forEach(t => terms.set(t, (terms.get(t) ?? 0) + 1));
+    return { ...chunk, terms, length: tokens.length };
+  });
+
+  const docFreq = new Map<string, number>();
+  chunks.forEach(chunk => chunk.terms.forEach((_, term) => docFreq.set(term, (docFreq.get(term) ?? 0) + 1)));
+
+  const avgLength = chunks.reduce((sum, c) => sum + c.length, 0) / Math.max(1, chunks.length);
+  return { chunks, docFreq, avgLength };
+};
+
+export const search = (index: BM25Index, query: string, k: number = TOP_K): RetrievedPassage[] => {
+  const terms = [...new Set(tokenize(query))];
+  const n = index.chunks.length;
+  if (n === 0 || terms.length === 0) return [];
+
+  return index.chunks
+    .map(chunk => {
+      let score = 0;
+      for (const term of terms) {
+        const tf = chunk.terms.get(term);
+        if (!tf) continue;
+        const df = index.docFreq.get(term) ?? 0;
+        const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+        score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * chunk.length / index.avgLength));
+      }
+      return { chunk, score };
+    })
+    .filter(r => r.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map((r, i) => ({
+      tag: `S${i + 1}`,
+      source: r.chunk.source,
+      section: r.chunk.section,
+      text: r.chunk.text,
+      score: parseFloat(r.score.toFixed(2)),
+    }));
+};
+
+// Prepended to the user's question so every backend sees the same grounding text
+export const withPassages = (question: string, passages: RetrievedPassage[]) => {
+  if (passages.length === 0) return question;
+  const excerpts = passages
+    .map(p => `[${p.tag}] (${p.source}${p.section ? ` · ${p.section}` : ''})\n${p.text}`)
+    .join('\n\n');
+  return `Excerpts retrieved from the full paper text:\n\n${excerpts}\n\nQuestion: ${question}`;
+};
+
+// --- Persistence ---
+
+export const loadCorpus = (): CorpusDocument[] => {
+  try {
+    const raw = localStorage.getItem(CORPUS_STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (error) {
+    console.error("Failed to load paper corpus:", error);
+    return [];
+  }
+};
+
+export const saveCorpus = (documents: CorpusDocument[]) => {
+  try {
+    localStorage.setItem(CORPUS_STORAGE_KEY, JSON.stringify(documents));
+  } catch (error) {
+    // Large supplements can exceed the storage quota; the corpus then lasts for this visit only
+    console.error("Failed to save paper corpus:", error);
+  }
+};
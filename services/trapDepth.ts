@@ -0,0 +1,120 @@
+import { ArrayGrid, siteCount } from "./rearrangement";
+import { Rng, randomNormal } from "./random";
+
+// Per-site trap depths of the tweezer array. The paper does not quote trap depths or their
+// uniformity; the model is the Gaussian envelope of the beam illuminating the SLM, with random
+// site-to-site scatter from the hologram, around a depth typical of cesium in 1061 nm tweezers.
+// Depths can also come from the trap intensities of a computed hologram.
+//
+// The trap light shifts the two clock states slightly differently, by a fraction η of the depth.
+// A thermal atom samples a range of intensities, which dephases it within T2* = 0.97·2ħ/(η·k_B·T)
+// (Kuhr et al. 2005); across the array, the spread of shifts dephases the ensemble.
+
+/** Depth at the array centre, in mK */
+export const NOMINAL_TRAP_DEPTH = 1;
+
+export interface TrapDepthModel {
+  /** 1/e² radius of the envelope in units of the array's half-diagonal */
+  envelopeWaist: number;
+  /** Relative rms scatter between neighbouring sites */
+  scatter: number;
+}
+
+export const DEFAULT_TRAP_DEPTH_MODEL: TrapDepthModel = { envelopeWaist: 2, scatter: 0.02 };
+
+/** Depth of every site in mK, indexed like the array's sites; positions without a trap are 0 */
+export const trapDepths = (grid: ArrayGrid, model: TrapDepthModel, rng: Rng) => {
+  const depths = new Float32Array(siteCount(grid));
+  const cx = (grid.cols - 1) / 2;
+  const cy = (grid.rows - 1) / 2;
+  const waist = model.envelopeWaist * Math.hypot(cx, cy);
+  for (let site = 0; site < depths.length; site++) {
+    const r2 = ((site % grid.cols) - cx) ** 2 + (Math.floor(site / grid.cols) - cy) ** 2;
+    depths[site] = NOMINAL_TRAP_DEPTH * Math.exp((-2 * r2) / waist ** 2) * (1 + model.scatter * randomNormal(rng));
+  }
+  grid.missing?.forEach(site => { depths[site] = 0; });
+  return depths;
+};
+
+/** Per-site depths on a cols × rows lattice, in mK; positions without a trap are 0 */
+export interface TrapDepthMap {
+  cols: number;
+  rows: number;
+  depths: Float32Array;
+}
+
+/** Depths from hologram trap intensities relative to their mean, scaled to the nominal depth */
+export const depthsFromIntensities = (cols: number, rows: number, sites: number[], intensities: Float32Array): TrapDepthMap => {
+  const depths = new Float32Array(cols * rows);
+  sites.forEach((site, i) => { depths[site] = NOMINAL_TRAP_DEPTH * intensities[i]; });
+  return { cols, rows, depths };
+};
+
+const HBAR = 1.054571817e-34;
+const BOLTZMANN = 1.380649e-23;
+const PLANCK = 2 * Math.PI * HBAR;
+const SPEED_OF_LIGHT = 299_792_458;
+const CS_HYPERFINE = 9.19263177e9;
+const CS_D1 = 894.593e-9;
+const CS_D2 = 852.347e-9;
+// The 1061 nm amplifier of the paper's trapping lasers
+const TWEEZER_WAVELENGTH = 1061e-9;
+
+/**
+ * η = ω_hf · ∂ln U/∂Δ: the ground-state light shift goes as (2/Δ₂ + 1/Δ₁), and the upper hyperfine
+ * level sees both lines ω_hf further away
+ */
+export const DIFFERENTIAL_SHIFT_RATIO = (() => {
+  const detuning = (line: number) => SPEED_OF_LIGHT / TWEEZER_WAVELENGTH - SPEED_OF_LIGHT / line;
+  const d1 = detuning(CS_D1);
+  const d2 = detuning(CS_D2);
+  return Math.abs((CS_HYPERFINE * (2 / d2 ** 2 + 1 / d1 ** 2)) / (2 / d2 + 1 / d1));
+})();
+
+/** Magnitude of the differential light shift of a trap of the given depth (mK), in Hz */
+export const differentialLightShift = (depth: number) => (DIFFERENTIAL_SHIFT_RATIO * BOLTZMANN * depth * 1e-3) / PLANCK;
+
+/** k_B·T over the trap depth after cooling, taken to be the same in every trap */
+export const DEFAULT_TEMPERATURE_RATIO = 0.02;
+
+/** Single-site T2* in seconds, for an atom at temperatureRatio × the depth (mK); 0 without a trap */
+export const dephasingTime = (depth: number, temperatureRatio: number) =>
+  depth > 0 ? (0.97 * 2 * HBAR) / (DIFFERENTIAL_SHIFT_RATIO * BOLTZMANN * temperatureRatio * depth * 1e-3) : 0;
+
+/** 1/e Ramsey time of the whole array when its sites' shifts spread with this standard deviation (Hz) */
+export const ensembleDephasingTime = (shiftStd: number) => (shiftStd > 0 ? Math.SQRT2 / (2 * Math.PI * shiftStd) : Infinity);
+
+export interface UniformityStats {
+  count: number;
+  mean: number;
+  std: number;
+  min: number;
+  max: number;
+  /** Standard deviation over the mean */
+  relativeStd: number;
+  /** (max − min) over the mean */
+  relativePeakToPeak: number;
+}
+
+export const uniformityStats = (values: ArrayLike<number>): UniformityStats => {
+  let count = 0, sum = 0, sumSq = 0, min = Infinity, max = -Infinity;
+  for (let i = 0; i < values.length; i++) {
+    const v = values[i];
+    count++;
+    sum += v;
+    sumSq += v * v;
+    min = Math.min(min, v);
+    max = Math.max(max, v);
+  }
+  const mean = count > 0 ? sum / count : 0;
+  const std = count > 1 ? Math.sqrt(Math.max(0, (sumSq - count * mean * mean) / (count - 1))) : 0;
+  return {
+    count,
+    mean,
+    std,
+    min: count > 0 ? min : 0,
+    max: count > 0 ? max : 0,
+    relativeStd: mean !== 0 ? std / mean : 0,
+    relativePeakToPeak: mean !== 0 ? (max - min) / mean : 0,
+  };
+};
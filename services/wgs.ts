@@ -0,0 +1,164 @@
+import { fft2d } from "./fft";
+import { createRng } from "./random";
+
+// Weighted Gerchberg–Saxton (Di Leonardo et al. 2007; Kim et al. 2019) for a phase-only SLM in
+// the Fourier plane of the tweezer objective. Each iteration propagates the SLM field to the
+// focal plane, raises the weight of every trap that came out dimmer than average, replaces the
+// focal field by the weighted target with the propagated phases, and keeps only the phase on
+// the way back. Focal-plane pixels are indexed like the FFT output, with the zero order at 0.
+
+export interface WGSRequest {
+  /** Hologram side in pixels, a power of two */
+  size: number;
+  /** Focal-plane pixel of every trap */
+  spots: Int32Array;
+  iterations: number;
+  /** 1/e amplitude radius of the Gaussian beam on the SLM, as a fraction of its side */
+  beamWaist: number;
+  /** Seed of the random starting phase */
+  seed: number;
+}
+
+export interface WGSIteration {
+  /** 0 is the random starting phase */
+  iteration: number;
+  /** 1 − (Imax − Imin)/(Imax + Imin) over the traps */
+  uniformity: number;
+  /** Fraction of the light that lands in the traps */
+  efficiency: number;
+  /** Standard deviation of the trap intensities over their mean */
+  spread: number;
+}
+
+export interface WGSResult {
+  size: number;
+  /** SLM phase in [0, 2π), row-major */
+  phase: Float32Array;
+  /** Focal-plane intensity of the final hologram, normalized to the brightest pixel */
+  intensity: Float32Array;
+  /** Intensity of each trap relative to the mean, in the order of the request's spots */
+  spotIntensity: Float32Array;
+  history: WGSIteration[];
+}
+
+/** What the hologram worker posts back while it runs */
+export type WGSWorkerMessage =
+  | { type: 'iteration'; step: WGSIteration }
+  | { type: 'done'; result: WGSResult }
+  | { type: 'error'; message: string };
+
+export const WGS_SIZES = [256, 512, 1024];
+export const DEFAULT_BEAM_WAIST = 0.35;
+
+const spotMetrics = (values: Float64Array, total: number, iteration: number): WGSIteration => {
+  let min = Infinity, max = 0, sum = 0, sumSq = 0;
+  values.forEach(v => {
+    min = Math.min(min, v);
+    max = Math.max(max, v);
+    sum += v;
+    sumSq += v * v;
+  });
+  const mean = sum / values.length;
+  return {
+    iteration,
+    uniformity: max + min > 0 ? 1 - (max - min) / (max + min) : 0,
+    efficiency: total > 0 ? sum / total : 0,
+    spread: mean > 0 ? Math.sqrt(Math.max(0, sumSq / values.length - mean * mean)) / mean : 0,
+  };
+};
+
+export const runWGS = (request: WGSRequest, onIteration?: (step: WGSIteration) => void): WGSResult => {
+  const { size, spots, iterations, beamWaist, seed } = request;
+  if (spots.length === 0) throw new RangeError('The target pattern has no traps');
+  const pixels = size * size;
+  const rng = createRng(seed);
+
+  const beam = new Float64Array(pixels);
+  const waist = beamWaist * size;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      beam[y * size + x] = Math.exp(-(((x - size / 2) ** 2 + (y - size / 2) ** 2) / waist ** 2));
+    }
+  }
+  const phase = new Float64Array(pixels).map(() => 2 * Math.PI * rng());
+  const weights = new Float64Array(spots.length).fill(1);
+  const amplitudes = new Float64Array(spots.length);
+  const re = new Float64Array(pixels);
+  const im = new Float64Array(pixels);
+  const history: WGSIteration[] = [];
+
+  for (let iteration = 0; ; iteration++) {
+    for (let i = 0; i < pixels; i++) {
+      re[i] = beam[i] * Math.cos(phase[i]);
+      im[i] = beam[i] * Math.sin(phase[i]);
+    }
+    fft2d(re, im, size);
+
+    let total = 0;
+    for (let i = 0; i < pixels; i++) total += re[i] * re[i] + im[i] * im[i];
+    let meanAmplitude = 0;
+    spots.forEach((pixel, m) => {
+      amplitudes[m] = Math.hypot(re[pixel], im[pixel]);
+      meanAmplitude += amplitudes[m] / spots.length;
+    });
+    const step = spotMetrics(amplitudes.map(a => a * a), total, iteration);
+    history.push(step);
+    onIteration?.(step);
+    if (iteration === iterations) break;
+
+    // Only the traps carry light in the target; each keeps the phase it just came back with
+    const targetRe = new Float64Array(spots.length);
+    const targetIm = new Float64Array(spots.length);
+    spots.forEach((pixel, m) => {
+      if (amplitudes[m] > 0) weights[m] *= meanAmplitude / amplitudes[m];
+      const norm = amplitudes[m] > 0 ? weights[m] / amplitudes[m] : weights[m];
+      targetRe[m] = re[pixel] * norm;
+      targetIm[m] = im[pixel] * norm;
+    });
+    re.fill(0);
+    im.fill(0);
+    spots.forEach((pixel, m) => {
+      re[pixel] = targetRe[m];
+      im[pixel] = targetIm[m];
+    });
+    fft2d(re, im, size, true);
+    for (let i = 0; i < pixels; i++) phase[i] = Math.atan2(im[i], re[i]);
+  }
+
+  const intensity = new Float32Array(pixels);
+  let peak = 0;
+  for (let i = 0; i < pixels; i++) {
+    intensity[i] = re[i] * re[i] + im[i] * im[i];
+    peak = Math.max(peak, intensity[i]);
+  }
+  if (peak > 0) intensity.forEach((v, i) => { intensity[i] = v / peak; });
+  const spotMean = amplitudes.reduce((sum, a) => sum + a * a, 0) / spots.length;
+
+  return {
+    size,
+    phase: Float32Array.from(phase, p => (p < 0 ? p + 2 * Math.PI : p)),
+    intensity,
+    spotIntensity: Float32Array.from(amplitudes, a => (spotMean > 0 ? (a * a) / spotMean : 0)),
+    history,
+  };
+};
+
+// Neighbouring traps closer than this are not resolved; wider than this wastes the hologram's field
+export const MIN_SPOT_SPACING = 2;
+const MAX_SPOT_SPACING = 8;
+
+/**
+ * Focal-plane pixels for the given sites of a cols × rows lattice, centred on the optical axis
+ * and spaced as widely as the hologram allows. Null when the lattice does not fit.
+ */
+export const latticeSpots = (cols: number, rows: number, sites: number[], size: number) => {
+  const spacing = Math.min(MAX_SPOT_SPACING, Math.floor((0.9 * size) / Math.max(cols, rows)));
+  if (spacing < MIN_SPOT_SPACING) return null;
+  const wrap = (v: number) => ((v % size) + size) % size;
+  const pixels = Int32Array.from(sites, site => {
+    const x = Math.round(((site % cols) - (cols - 1) / 2) * spacing);
+    const y = Math.round((Math.floor(site / cols) - (rows - 1) / 2) * spacing);
+    return wrap(y) * size + wrap(x);
+  });
+  return { pixels, spacing };
+};
@@ -0,0 +1,14 @@
+import { WGSRequest, WGSWorkerMessage, runWGS } from "./wgs";
+
+// Runs WGS off the main thread, reporting every iteration as it finishes
+
+const post = (message: WGSWorkerMessage, transfer: Transferable[] = []) => postMessage(message, { transfer });
+
+onmessage = (event: MessageEvent<WGSRequest>) => {
+  try {
+    const result = runWGS(event.data, step => post({ type: 'iteration', step }));
+    post({ type: 'done', result }, [result.phase.buffer, result.intensity.buffer, result.spotIntensity.buffer]);
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
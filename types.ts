@@ -19,6 +19,7 @@ export enum Section {
   DATA = 'data',
   TRANSPORT = 'transport',
   CONTROL = 'control',
+  HOLOGRAM = 'hologram',
   CHAT = 'chat'
 }
 
@@ -26,4 +27,93 @@ export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   timestamp: Date;
-}
\ No newline at end of file
+  // Model messages only: set when the stream was stopped by the user or failed
+  stopped?: boolean;
+  error?: ChatError;
+  /** Passages from the loaded paper text that were given to the model for this answer */
+  sources?: RetrievedPassage[];
+  /** App actions the model performed while answering */
+  toolCalls?: ToolCallRecord[];
+}
+
+export type ChatErrorKind = 'missing-key' | 'network' | 'quota' | 'safety' | 'unknown';
+
+export interface ChatError {
+  kind: ChatErrorKind;
+  message: string;
+}
+
+export interface ChatSession {
+  id: string;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+  messages: ChatMessage[];
+}
+
+export interface PaperFact {
+  /** Stable identifier the assistant cites as [fact:<id>] */
+  id: string;
+  label: string;
+  /** One-sentence statement used in the assistant's system instruction */
+  statement: string;
+  kind: 'result' | 'method' | 'significance';
+  value?: number;
+  /** One standard deviation, in the same unit as `value` */
+  uncertainty?: number;
+  unit?: string;
+  /** Qualifier for values reported as bounds or approximations */
+  bound?: '>' | '~';
+  /** Location in the paper, e.g. "Fig. 3" or "Methods" */
+  reference: string;
+  /** Where the fact is visualized in the app */
+  target: { section: Section; anchor?: string };
+}
+
+export interface RetrievedPassage {
+  /** Citation tag shown to the model and the user, e.g. "S1" */
+  tag: string;
+  source: string;
+  section?: string;
+  text: string;
+  score: number;
+}
+
+export type RBMode = 'standard' | 'irb';
+
+// Simulation parameters shared between the visualizations and the assistant's tools
+export interface SimulationSettings {
+  /** Fractional pulse amplitude (calibration) error, e.g. 0.1 for 10% overshoot */
+  pulseErrorRate: number;
+  /** Pulse detuning as a fraction of the Rabi frequency (Δ/Ω) */
+  pulseDetuning: number;
+  /** Systematic drive phase error in degrees */
+  pulsePhaseError: number;
+  rbMode: RBMode;
+  /** Average Clifford gate fidelity in percent */
+  cliffordFidelity: number;
+  /** Transport fidelity per interleaved move in percent */
+  transportFidelity: number;
+  /** Numbers of random Cliffords in the RB sequences */
+  rbLengths: number[];
+  /** Random sequences drawn per length */
+  rbSequencesPerLength: number;
+  /** Repetitions of each sequence */
+  rbShots: number;
+}
+
+/** Parameters of the open-system (Lindblad) pulse simulation */
+export interface DecoherenceParams {
+  /** Rabi frequency Ω/2π in Hz */
+  rabiFrequency: number;
+  /** Energy relaxation time in seconds */
+  t1: number;
+  /** Coherence time in seconds, at most 2·T1 */
+  t2: number;
+}
+
+export interface ToolCallRecord {
+  name: string;
+  args: Record<string, unknown>;
+  result: Record<string, unknown>;
+}